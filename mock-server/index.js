@@ -0,0 +1,183 @@
+// Minimal in-memory backend for local development: `npm run mock-server`
+// Serves the same /api/workflows endpoints the editor talks to.
+import { createServer } from 'node:http';
+import { readFileSync } from 'node:fs';
+
+const PORT = Number(process.env.PORT) || 3001;
+
+const templates = JSON.parse(readFileSync(new URL('../src/islemTurleri.json', import.meta.url), 'utf8'));
+
+// Workflows by id; each keeps its own revisions and version
+const workflows = new Map();
+let nextWorkflowNumber = 1;
+
+// A new workflow starts with the işlem türü templates and an empty canvas
+function templateNodes() {
+  return templates.map((t, i) => ({
+    id: `template-${i + 1}`,
+    ad: t.ad,
+    aciklama: t.aciklama,
+    x: -1,
+    y: -1,
+    type: 'box',
+  }));
+}
+
+function addWorkflow(name, data) {
+  const workflow = {
+    id: `wf-${nextWorkflowNumber++}`,
+    name,
+    current: data,
+    revisions: [],
+    // Bumped on every write; clients send it back as If-Match so stale saves are rejected
+    version: 1,
+    updatedAt: new Date().toISOString(),
+    updatedBy: undefined,
+  };
+  workflows.set(workflow.id, workflow);
+  return workflow;
+}
+
+addWorkflow('Örnek İş Akışı', { nodes: templateNodes(), edges: [] });
+
+// A real backend would resolve the user behind the token
+function authorFromToken(token) {
+  return `kullanici-${token.slice(0, 8)}`;
+}
+
+function addRevision(workflow, data, token, message) {
+  const revision = {
+    number: workflow.revisions.length + 1,
+    author: authorFromToken(token),
+    createdAt: new Date().toISOString(),
+    message: message || undefined,
+    nodes: data.nodes,
+    edges: data.edges,
+  };
+  workflow.current = data;
+  workflow.revisions.push(revision);
+  workflow.version += 1;
+  workflow.updatedAt = revision.createdAt;
+  workflow.updatedBy = revision.author;
+  return revision;
+}
+
+function summarize(workflow) {
+  return {
+    id: workflow.id,
+    name: workflow.name,
+    updatedAt: workflow.updatedAt,
+    updatedBy: workflow.updatedBy,
+    revision: workflow.revisions.at(-1)?.number,
+    nodeCount: workflow.current.nodes.filter((n) => !(n.x === -1 && n.y === -1)).length,
+  };
+}
+
+function send(res, status, body, version) {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'GET, POST, PATCH, DELETE, OPTIONS',
+    'Access-Control-Allow-Headers': 'Authorization, Content-Type, If-Match',
+    'Access-Control-Expose-Headers': 'ETag',
+    ...(version === undefined ? {} : { ETag: `"${version}"` }),
+  });
+  res.end(body === undefined ? '' : JSON.stringify(body));
+}
+
+async function readBody(req) {
+  let raw = '';
+  for await (const chunk of req) raw += chunk;
+  return raw ? JSON.parse(raw) : {};
+}
+
+function readName(body) {
+  return typeof body.name === 'string' && body.name.trim() ? body.name.trim() : null;
+}
+
+const server = createServer(async (req, res) => {
+  const url = new URL(req.url ?? '/', `http://${req.headers.host}`);
+  const token = req.headers.authorization?.match(/^Bearer\s+(.+)$/i)?.[1];
+
+  if (req.method === 'OPTIONS') return send(res, 204);
+  if (!token) return send(res, 401, { error: 'Token gerekli' });
+
+  try {
+    if (url.pathname === '/api/workflows' && req.method === 'GET') {
+      return send(res, 200, [...workflows.values()].map(summarize).sort((a, b) => b.updatedAt.localeCompare(a.updatedAt)));
+    }
+
+    if (url.pathname === '/api/workflows' && req.method === 'POST') {
+      const name = readName(await readBody(req));
+      if (!name) return send(res, 400, { error: 'Ad gerekli' });
+      return send(res, 201, summarize(addWorkflow(name, { nodes: templateNodes(), edges: [] })));
+    }
+
+    const match = url.pathname.match(/^\/api\/workflows\/([^/]+)(\/.*)?$/);
+    const workflow = match && workflows.get(decodeURIComponent(match[1]));
+    if (!match) return send(res, 404, { error: 'Bulunamadı' });
+    if (!workflow) return send(res, 404, { error: 'İş akışı bulunamadı' });
+    const subPath = match[2] ?? '';
+
+    if (subPath === '' && req.method === 'GET') {
+      const { current, name, version } = workflow;
+      return send(res, 200, { ...current, name, version: String(version), revision: workflow.revisions.at(-1)?.number }, version);
+    }
+
+    if (subPath === '' && req.method === 'POST') {
+      // No If-Match means a forced overwrite
+      const ifMatch = req.headers['if-match']?.replace(/^W\//, '').replace(/"/g, '');
+      if (ifMatch && ifMatch !== '*' && ifMatch !== String(workflow.version)) {
+        return send(res, 412, { error: 'Sürüm çakışması', ...workflow.current, version: String(workflow.version) }, workflow.version);
+      }
+      const { nodes, edges, message } = await readBody(req);
+      const revision = addRevision(workflow, { nodes, edges }, token, message).number;
+      return send(res, 200, { revision, version: String(workflow.version) }, workflow.version);
+    }
+
+    if (subPath === '' && req.method === 'PATCH') {
+      const name = readName(await readBody(req));
+      if (!name) return send(res, 400, { error: 'Ad gerekli' });
+      workflow.name = name;
+      workflow.updatedAt = new Date().toISOString();
+      return send(res, 200, summarize(workflow));
+    }
+
+    if (subPath === '' && req.method === 'DELETE') {
+      workflows.delete(workflow.id);
+      return send(res, 204);
+    }
+
+    if (subPath === '/duplicate' && req.method === 'POST') {
+      const name = readName(await readBody(req)) ?? `${workflow.name} (kopya)`;
+      return send(res, 201, summarize(addWorkflow(name, structuredClone(workflow.current))));
+    }
+
+    if (subPath === '/revisions' && req.method === 'GET') {
+      return send(res, 200, workflow.revisions.map(({ nodes: _nodes, edges: _edges, ...summary }) => summary), workflow.version);
+    }
+
+    const revisionMatch = subPath.match(/^\/revisions\/(\d+)(\/restore)?$/);
+    const revision = revisionMatch && workflow.revisions.find((r) => r.number === Number(revisionMatch[1]));
+    if (revisionMatch && !revision) return send(res, 404, { error: 'Revizyon bulunamadı' });
+
+    if (revisionMatch && !revisionMatch[2] && req.method === 'GET') {
+      return send(res, 200, revision, workflow.version);
+    }
+
+    if (revisionMatch && revisionMatch[2] && req.method === 'POST') {
+      const data = { nodes: revision.nodes, edges: revision.edges };
+      const restored = addRevision(workflow, data, token, `Revizyon #${revision.number} geri yüklendi`);
+      return send(res, 200, { ...data, revision: restored.number, version: String(workflow.version) }, workflow.version);
+    }
+
+    send(res, 404, { error: 'Bulunamadı' });
+  } catch (err) {
+    console.error(err);
+    send(res, 500, { error: 'Sunucu hatası' });
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`Mock workflow API: http://localhost:${PORT}/api`);
+});
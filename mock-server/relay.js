@@ -0,0 +1,79 @@
+// Co-editing relay for local development: `npm run collab-relay`
+// Keeps one last-writer-wins document per room (see src/crdt.ts) and forwards
+// ops and presence between the editors connected to it.
+import { WebSocketServer } from 'ws';
+
+const PORT = Number(process.env.PORT) || 3002;
+
+// room -> { entries: Map<key, op>, clients: Map<socket, { user, presence }> }
+const rooms = new Map();
+
+function wins(op, current) {
+  if (!current) return true;
+  if (op.clock !== current.clock) return op.clock > current.clock;
+  return op.actor > current.actor;
+}
+
+function broadcast(room, sender, message) {
+  const data = JSON.stringify(message);
+  room.clients.forEach((_, socket) => {
+    if (socket !== sender && socket.readyState === socket.OPEN) socket.send(data);
+  });
+}
+
+const server = new WebSocketServer({ port: PORT });
+
+server.on('connection', (socket, req) => {
+  const url = new URL(req.url ?? '/', 'http://localhost');
+  const roomName = url.searchParams.get('room') || 'default';
+  if (!rooms.has(roomName)) rooms.set(roomName, { entries: new Map(), clients: new Map() });
+  const room = rooms.get(roomName);
+
+  socket.on('message', (raw) => {
+    let message;
+    try {
+      message = JSON.parse(raw.toString());
+    } catch {
+      return;
+    }
+
+    if (message.type === 'hello') {
+      const isNew = !room.clients.has(socket);
+      room.clients.set(socket, { user: message.user, presence: message.presence });
+      if (isNew) {
+        const peers = [...room.clients.values()].map(({ user, presence }) => ({ ...user, ...presence }));
+        socket.send(JSON.stringify({ type: 'snapshot', ops: [...room.entries.values()], peers }));
+      }
+      broadcast(room, socket, { type: 'presence', user: message.user, presence: message.presence });
+      return;
+    }
+
+    const client = room.clients.get(socket);
+    if (!client) return;
+
+    if (message.type === 'ops' && Array.isArray(message.ops)) {
+      message.ops.forEach((op) => {
+        if (wins(op, room.entries.get(op.key))) room.entries.set(op.key, op);
+      });
+      broadcast(room, socket, { type: 'ops', ops: message.ops });
+      return;
+    }
+
+    if (message.type === 'presence') {
+      client.presence = message.presence;
+      broadcast(room, socket, { type: 'presence', user: client.user, presence: message.presence });
+    }
+  });
+
+  socket.on('close', () => {
+    const client = room.clients.get(socket);
+    room.clients.delete(socket);
+    if (client) broadcast(room, socket, { type: 'leave', userId: client.user.id });
+    // The next editor to join seeds the room with their own canvas
+    if (room.clients.size === 0) rooms.delete(roomName);
+  });
+});
+
+server.on('listening', () => {
+  console.log(`Co-editing relay: ws://localhost:${PORT}`);
+});
@@ -0,0 +1,6 @@
+// Runtime settings, read before the editor starts. Edit this file in a
+// deployment to change them without a rebuild.
+window.__WORKFLOW_EDITOR_CONFIG__ = {
+  // apiBaseUrl: 'https://example.org/api',
+  // collabRelayUrl: 'wss://example.org/collab',
+};
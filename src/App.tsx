@@ -3,78 +3,121 @@ import ReactFlow, {
   Background,
   Controls,
   MiniMap,
+  Panel,
   addEdge,
   useEdgesState,
   useNodesState,
   Handle,
   Position,
+  BaseEdge,
+  EdgeLabelRenderer,
+  getBezierPath,
   SelectionMode,
   type Connection,
   type Edge,
   type Node,
   type NodeTypes,
+  type EdgeTypes,
+  type EdgeProps,
   type ReactFlowInstance,
+  type XYPosition,
   type NodeProps,
 } from 'reactflow';
 import 'reactflow/dist/style.css';
 import STATIC_WORKFLOW_DEFS from './islemTurleri.json';
-
-const API_BASE_URL = 'http://localhost:3001/api';
+import { isTypingTarget, useUndoRedo } from './useUndoRedo';
+import { computeLayeredLayout, getNodeSize } from './layout';
+import { validateWorkflow, type WorkflowProblem } from './validation';
+import ValidationPanel from './ValidationPanel';
+import {
+  advanceSimulation,
+  buildTrailExport,
+  getAvailableChoices,
+  type SimulationChoice,
+  type SimulationStep,
+} from './simulation';
+import SimulationPanel from './SimulationPanel';
+import { getApiErrorMessage, getCollabRelayUrl, WorkflowApiError, type WorkflowClient } from './workflowApi';
+import RevisionHistoryPanel from './RevisionHistoryPanel';
+import {
+  DIFF_STATUS_COLORS,
+  countMovedNodes,
+  diffWorkflows,
+  findConflictingChanges,
+  isDiffGhostId,
+  type WorkflowDiffItem,
+} from './diff';
+import DiffPanel from './DiffPanel';
+import SaveConflictDialog from './SaveConflictDialog';
+import { deleteDraft, getDraftKey, loadDraft } from './drafts';
+import { useDraftAutosave } from './useDraftAutosave';
+import DraftRestoreDialog from './DraftRestoreDialog';
+import { useCollaboration } from './useCollaboration';
+import RemoteCursors from './RemoteCursors';
+import CollabPanel from './CollabPanel';
+import TemplateLibraryPanel from './TemplateLibraryPanel';
+import { countTemplateUsage, getTemplateSummaries } from './templates';
+import NodePalette from './NodePalette';
+import FindBar from './FindBar';
+import { searchCanvasNodes } from './canvasSearch';
+import { buildClipboardPayload, getClipboardSelectionIds, pasteClipboardPayload } from './clipboard';
+import { findWorkflowTabAt, type EditorStatus, type NodeTransfer } from './workflowTabs';
+import { buildBpmnXml, parseBpmnXml } from './bpmn';
+import { buildDiagramText, type DiagramTextFormat } from './diagramText';
+import { exportPdf, exportPng, exportSvg, getExportBounds, type ImageExportOptions } from './canvasImage';
+import ImageExportDialog from './ImageExportDialog';
+import { buildCsvZip, buildXlsx, readSpreadsheetFile, type Sheet } from './spreadsheet';
+import { buildTransitionImport, buildTransitionSheets, type TransitionTablePreview } from './transitionTable';
+import TransitionImportDialog from './TransitionImportDialog';
+import ImportErrorDialog from './ImportErrorDialog';
+import type { FormatIssue } from './workflowFormat';
+import {
+  addGroupMembers,
+  applyGroups,
+  collapseGroup,
+  createGroupNode,
+  expandGroup,
+  findGroupOf,
+  GROUP_HEADER_HEIGHT,
+  isGroupEdgeId,
+  isGroupNode,
+} from './groups';
+import { loadRecentTemplateIds, PALETTE_DRAG_TYPE, pushRecentTemplateId, type PaletteItem } from './palette';
+import {
+  buildWorkflowExport,
+  convertDBEdgeToReactFlowEdge,
+  convertDBNodeToReactFlowNode,
+  convertReactFlowEdgeToDB,
+  convertReactFlowNodeToDB,
+  isSameSavedWorkflow,
+  parseWorkflowFileText,
+} from './workflowFile';
+import {
+  isTemplateNode,
+  type BoxData,
+  type EndData,
+  type GatewayData,
+  type GatewayKind,
+  type GatewayMode,
+  type GroupData,
+  type JumpData,
+  type LandData,
+  type NodeData,
+  type RevisionSummary,
+  type StartData,
+  type TransitionData,
+  type WorkflowDataFromDB,
+  type WorkflowDef,
+} from './workflow';
+
+const COLLAB_RELAY_URL = getCollabRelayUrl();
+
+const OUTCOME_SUGGESTIONS = ['ONAY', 'RED', 'EKSIK_BELGE', 'IADE'];
 
 const NODES_PER_COLUMN = 10;
 const COLUMN_WIDTH = 280;
 const ROW_HEIGHT = 80;
 
-type WorkflowDefFromDB = {
-  id: string;
-  ad: string;
-  aciklama: string;
-  x: number;
-  y: number;
-  type: 'box' | 'jump' | 'land';
-  jumpLandLabel?: string;
-  colorIndex?: number;
-};
-
-type EdgeFromDB = {
-  id: string;
-  source: string;
-  target: string;
-};
-
-type WorkflowDataFromDB = {
-  nodes: WorkflowDefFromDB[];
-  edges: EdgeFromDB[];
-};
-
-type WorkflowDef = {
-  ad?: string;
-  aciklama?: string;
-};
-
-type BoxData = {
-  nodeType: 'box';
-  label: string;
-  def: WorkflowDef;
-  dbId?: string;
-};
-
-type JumpData = {
-  nodeType: 'jump';
-  label?: string;      // Keep for backwards compatibility
-  landId?: string;     // Reference to connected land node
-  colorIndex: number;
-};
-
-type LandData = {
-  nodeType: 'land';
-  label?: string;      // Keep for backwards compatibility
-  nextNodeId?: string; // Node connected to this land (from edges)
-  colorIndex: number;
-};
-
-type NodeData = BoxData | JumpData | LandData;
-
 const JUMP_LAND_COLORS = [
   { jump: '#ff9800', land: '#4caf50', border: '#e65100', landBorder: '#2e7d32' }, 
   { jump: '#e91e63', land: '#9c27b0', border: '#ad1457', landBorder: '#6a1b9a' }, 
@@ -86,6 +129,30 @@ const JUMP_LAND_COLORS = [
   { jump: '#8bc34a', land: '#00bcd4', border: '#558b2f', landBorder: '#00838f' }, 
 ];
 
+// First color pair not used by any jump/land yet
+function nextJumpLandColorIndex(nodes: Node<NodeData>[]): number {
+  const usedIndices = new Set(
+    nodes
+      .filter((n) => n.type === 'jump' || n.type === 'land')
+      .map((n) => (n.data as JumpData | LandData).colorIndex)
+  );
+  for (let i = 0; i < JUMP_LAND_COLORS.length; i++) {
+    if (!usedIndices.has(i)) return i;
+  }
+  return 0;
+}
+
+function PinBadge() {
+  return (
+    <span
+      title="Sabitlendi"
+      style={{ position: 'absolute', top: -8, right: -8, fontSize: 12, pointerEvents: 'none' }}
+    >
+      📌
+    </span>
+  );
+}
+
 function JumpNode({ data }: NodeProps<JumpData>) {
   const colorSet = JUMP_LAND_COLORS[data.colorIndex % JUMP_LAND_COLORS.length];
   
@@ -115,6 +182,7 @@ function JumpNode({ data }: NodeProps<JumpData>) {
         <path d="M12 19V5M5 12l7-7 7 7" />
       </svg>
       <span style={{ fontSize: 9, fontWeight: 600, textShadow: '1px 1px 2px rgba(0,0,0,0.3)' }}>JUMP</span>
+      {data.pinned && <PinBadge />}
     </div>
   );
 }
@@ -148,6 +216,7 @@ function LandNode({ data }: NodeProps<LandData>) {
         <path d="M12 5v14M5 12l7 7 7-7" />
       </svg>
       <Handle type="source" position={Position.Right} style={{ width: 10, height: 10 }} />
+      {data.pinned && <PinBadge />}
     </div>
   );
 }
@@ -172,89 +241,396 @@ function BoxNode({ data }: NodeProps<BoxData>) {
       <Handle type="target" position={Position.Left} style={{ width: 10, height: 10 }} />
       <div style={{ fontWeight: 700 }}>{data?.label ?? ''}</div>
       <Handle type="source" position={Position.Right} style={{ width: 10, height: 10 }} />
+      {data?.pinned && <PinBadge />}
     </div>
   );
 }
 
-function convertDBNodeToReactFlowNode(dbNode: WorkflowDefFromDB): Node<NodeData> {
-  if (dbNode.type === 'jump') {
-    return {
-      id: dbNode.id,
-      type: 'jump',
-      position: { x: dbNode.x, y: dbNode.y },
-      data: {
-        nodeType: 'jump',
-        label: dbNode.jumpLandLabel || 'A',
-        colorIndex: dbNode.colorIndex || 0,
-      },
-    };
-  }
-  
-  if (dbNode.type === 'land') {
-    return {
-      id: dbNode.id,
-      type: 'land',
-      position: { x: dbNode.x, y: dbNode.y },
-      data: {
-        nodeType: 'land',
-        label: dbNode.jumpLandLabel || 'A',
-        colorIndex: dbNode.colorIndex || 0,
-      },
-    };
+function StartNode({ data }: NodeProps<StartData>) {
+  return (
+    <div
+      style={{
+        width: 50,
+        height: 50,
+        borderRadius: '50%',
+        background: '#43a047',
+        border: '3px solid #1b5e20',
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        fontSize: 9,
+        fontWeight: 700,
+        color: '#fff',
+        position: 'relative',
+        boxShadow: '0 4px 12px rgba(0,0,0,0.3)',
+        userSelect: 'none',
+      }}
+      title={data.label}
+    >
+      {data.label || 'START'}
+      <Handle type="source" position={Position.Right} style={{ width: 10, height: 10 }} />
+      {data.pinned && <PinBadge />}
+    </div>
+  );
+}
+
+function EndNode({ data }: NodeProps<EndData>) {
+  return (
+    <div
+      style={{
+        width: 50,
+        height: 50,
+        borderRadius: '50%',
+        background: '#e53935',
+        border: '5px double #b71c1c',
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        fontSize: 9,
+        fontWeight: 700,
+        color: '#fff',
+        position: 'relative',
+        boxShadow: '0 4px 12px rgba(0,0,0,0.3)',
+        userSelect: 'none',
+      }}
+      title={data.outcomeName}
+    >
+      <Handle type="target" position={Position.Left} style={{ width: 10, height: 10 }} />
+      END
+      {data.outcomeName && (
+        <span
+          style={{
+            position: 'absolute',
+            top: '100%',
+            marginTop: 4,
+            fontSize: 9,
+            color: '#e53935',
+            whiteSpace: 'nowrap',
+          }}
+        >
+          {data.outcomeName}
+        </span>
+      )}
+      {data.pinned && <PinBadge />}
+    </div>
+  );
+}
+
+function GatewayNode({ data }: NodeProps<GatewayData>) {
+  const color = data.kind === 'and' ? '#7e57c2' : '#ffa000';
+
+  return (
+    <div
+      style={{
+        width: 60,
+        height: 60,
+        position: 'relative',
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        userSelect: 'none',
+      }}
+      title={`${data.kind.toUpperCase()} ${data.mode === 'split' ? 'ayrılma' : 'birleşme'}`}
+    >
+      <Handle type="target" position={Position.Left} style={{ width: 10, height: 10 }} />
+      <div
+        style={{
+          position: 'absolute',
+          width: 40,
+          height: 40,
+          transform: 'rotate(45deg)',
+          background: color,
+          border: '3px solid rgba(0,0,0,0.35)',
+          borderRadius: 4,
+          boxShadow: '0 4px 12px rgba(0,0,0,0.3)',
+        }}
+      />
+      <span style={{ position: 'relative', fontSize: 22, fontWeight: 700, color: '#fff', lineHeight: 1 }}>
+        {data.kind === 'and' ? '+' : '×'}
+      </span>
+      <span
+        style={{
+          position: 'absolute',
+          top: '100%',
+          fontSize: 8,
+          fontWeight: 700,
+          color,
+          whiteSpace: 'nowrap',
+        }}
+      >
+        {data.kind.toUpperCase()} {data.mode === 'split' ? 'SPLIT' : 'JOIN'}
+      </span>
+      <Handle type="source" position={Position.Right} style={{ width: 10, height: 10 }} />
+      {data.pinned && <PinBadge />}
+    </div>
+  );
+}
+
+type GroupActions = {
+  toggleCollapsed: (groupId: string) => void;
+  open: (groupId: string) => void;
+  ungroup: (groupId: string) => void;
+};
+
+// Display-only: the button handlers are added to the data on the way to the canvas
+type GroupNodeData = GroupData & { actions?: GroupActions };
+
+const groupButtonStyle: React.CSSProperties = {
+  padding: '2px 6px',
+  borderRadius: 4,
+  border: '1px solid rgba(79, 195, 247, 0.5)',
+  background: '#1a1a2e',
+  color: '#fff',
+  fontSize: 11,
+  cursor: 'pointer',
+};
+
+function GroupNode({ id, data }: NodeProps<GroupNodeData>) {
+  const { actions } = data;
+  const buttons = (
+    <span className="nodrag" style={{ display: 'flex', gap: 4 }} onClick={(e) => e.stopPropagation()}>
+      <button onClick={() => actions?.toggleCollapsed(id)} title={data.collapsed ? 'Genişlet' : 'Daralt'} style={groupButtonStyle}>
+        {data.collapsed ? '⊞' : '⊟'}
+      </button>
+      <button onClick={() => actions?.open(id)} title="Alt iş akışı olarak aç" style={groupButtonStyle}>
+        ↪
+      </button>
+      {!data.collapsed && (
+        <button onClick={() => actions?.ungroup(id)} title="Grubu çöz" style={groupButtonStyle}>
+          ✕
+        </button>
+      )}
+    </span>
+  );
+
+  if (data.collapsed) {
+    return (
+      <div
+        style={{
+          width: 216,
+          height: 48,
+          padding: 10,
+          border: '2px solid #4fc3f7',
+          borderRadius: 8,
+          background: '#1a1a2e',
+          color: '#fff',
+          fontSize: 10,
+          position: 'relative',
+          userSelect: 'none',
+          boxShadow: '4px 4px 0 #2a2a4e, 8px 8px 0 rgba(79, 195, 247, 0.3)',
+        }}
+      >
+        {/* Anchors for the merged member edges only; a group is no backend node and takes no edges of its own */}
+        <Handle type="target" position={Position.Left} isConnectable={false} style={{ width: 10, height: 10 }} />
+        <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: 6 }}>
+          <span style={{ fontWeight: 700, overflowWrap: 'anywhere' }}>🗂 {data.label}</span>
+          {buttons}
+        </div>
+        <div style={{ marginTop: 6, color: '#aaa' }}>{data.memberIds.length} node</div>
+        <Handle type="source" position={Position.Right} isConnectable={false} style={{ width: 10, height: 10 }} />
+        {data.pinned && <PinBadge />}
+      </div>
+    );
   }
-  
-  return {
-    id: dbNode.id,
-    type: 'box',
-    position: { x: dbNode.x, y: dbNode.y },
-    data: {
-      nodeType: 'box',
-      label: dbNode.ad,
-      def: { ad: dbNode.ad, aciklama: dbNode.aciklama },
-      dbId: dbNode.id,
-    },
-  };
+
+  // Expanded: a frame sized by the display layer; only the header is interactive
+  return (
+    <div
+      style={{
+        width: '100%',
+        height: '100%',
+        boxSizing: 'border-box',
+        border: '2px dashed rgba(79, 195, 247, 0.6)',
+        borderRadius: 12,
+        background: 'rgba(79, 195, 247, 0.04)',
+        userSelect: 'none',
+      }}
+    >
+      <div
+        style={{
+          height: GROUP_HEADER_HEIGHT,
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'space-between',
+          gap: 6,
+          padding: '0 10px',
+          color: '#4fc3f7',
+          fontSize: 12,
+          fontWeight: 700,
+          pointerEvents: 'all',
+        }}
+      >
+        <span>🗂 {data.label} <span style={{ fontWeight: 400, color: '#888' }}>({data.memberIds.length})</span></span>
+        {buttons}
+      </div>
+    </div>
+  );
+}
+
+function TransitionEdge({
+  id,
+  sourceX,
+  sourceY,
+  targetX,
+  targetY,
+  sourcePosition,
+  targetPosition,
+  style,
+  markerEnd,
+  label,
+  data,
+}: EdgeProps<TransitionData>) {
+  const [edgePath, labelX, labelY] = getBezierPath({
+    sourceX,
+    sourceY,
+    sourcePosition,
+    targetX,
+    targetY,
+    targetPosition,
+  });
+  const hasLabel = Boolean(label || data?.outcome || data?.guard);
+
+  return (
+    <>
+      <BaseEdge id={id} path={edgePath} style={style} markerEnd={markerEnd} />
+      {hasLabel && (
+        <EdgeLabelRenderer>
+          <div
+            data-edge-id={id}
+            style={{
+              position: 'absolute',
+              transform: `translate(-50%, -50%) translate(${labelX}px, ${labelY}px)`,
+              display: 'flex',
+              flexDirection: 'column',
+              alignItems: 'center',
+              gap: 2,
+              padding: '3px 6px',
+              borderRadius: 6,
+              background: '#1a1a2e',
+              border: '1px solid #4fc3f7',
+              color: '#fff',
+              fontSize: 10,
+              pointerEvents: 'none',
+              maxWidth: 180,
+              textAlign: 'center',
+            }}
+          >
+            {label && <span style={{ fontWeight: 700 }}>{label}</span>}
+            {data?.outcome && (
+              <span style={{ fontSize: 9, background: '#4fc3f7', color: '#1a1a2e', padding: '0 4px', borderRadius: 4 }}>
+                {data.outcome}
+              </span>
+            )}
+            {data?.guard && (
+              <span style={{ fontSize: 9, fontFamily: 'monospace', color: '#ffb74d' }}>[{data.guard}]</span>
+            )}
+          </div>
+        </EdgeLabelRenderer>
+      )}
+    </>
+  );
+}
+
+function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  a.click();
+
+  URL.revokeObjectURL(url);
 }
 
-// Get token from URL query string
-function getTokenFromURL(): string | null {
-  const urlParams = new URLSearchParams(window.location.search);
-  return urlParams.get('t');
+function downloadTextFile(content: string, fileName: string, type: string) {
+  downloadBlob(new Blob([content], { type }), fileName);
 }
 
-export default function App() {
+type AppProps = {
+  api: WorkflowClient | null;   // Null without a token: static data or a new local canvas
+  onOpenBrowser?: () => void;   // Back to the workflow list
+  // Tabbed editing: only the visible editor listens to keyboard and clipboard events
+  isActive?: boolean;
+  onStatusChange?: (workflowId: string, status: EditorStatus) => void;
+  // Called while a node drag is over a tab header (null when it leaves)
+  onDragOverTab?: (workflowId: string | null) => void;
+  // A selection dropped on another tab's header
+  onNodesDraggedToTab?: (transfer: NodeTransfer) => void;
+  incomingNodes?: string | null;  // Payload dropped on this tab, pasted once the editor is ready
+  onIncomingNodesPasted?: (ok: boolean) => void;
+  // Nodes moved to another tab that has pasted them; removed here as one undo step
+  nodesToRemove?: string[] | null;
+  onNodesRemoved?: () => void;
+};
+
+export default function App({
+  api,
+  onOpenBrowser,
+  isActive = true,
+  onStatusChange,
+  onDragOverTab,
+  onNodesDraggedToTab,
+  incomingNodes = null,
+  onIncomingNodesPasted,
+  nodesToRemove = null,
+  onNodesRemoved,
+}: AppProps) {
   const rf = useRef<ReactFlowInstance | null>(null);
+  const containerRef = useRef<HTMLDivElement | null>(null);
   const nodeTypes = useMemo<NodeTypes>(() => ({ 
     box: BoxNode,
     jump: JumpNode,
     land: LandNode,
+    start: StartNode,
+    end: EndNode,
+    gateway: GatewayNode,
+    group: GroupNode,
+  }), []);
+  // Every edge is a transition that may carry a label, an outcome and a guard
+  const edgeTypes = useMemo<EdgeTypes>(() => ({
+    default: TransitionEdge,
   }), []);
 
   // Token authentication
-  const [token] = useState<string | null>(() => getTokenFromURL());
   const [bypassAuth, setBypassAuth] = useState(false);
-  const isUnauthorized = !token && !bypassAuth;
-
+  const isUnauthorized = !api && !bypassAuth;
+  const workflowId = api?.workflowId ?? null;
+
+  // Read-only revision shown on the canvas instead of the editable state
+  const [previewRevision, setPreviewRevision] = useState<{
+    number: number;
+    nodes: Node<NodeData>[];
+    edges: Edge<TransitionData>[];
+  } | null>(null);
   const [nodes, setNodes, onNodesChange] = useNodesState<NodeData>([]);
   const [edges, setEdges, onEdgesChange] = useEdgesState([]);
   const [, setDataSource] = useState<'static' | 'api' | null>(null);
+  const {
+    undo,
+    redo,
+    takeSnapshot,
+    beginDrag,
+    endDrag,
+    cancelDrag,
+    clearHistory,
+    canUndo,
+    canRedo,
+  } = useUndoRedo({ nodes, edges, setNodes, setEdges, enableShortcuts: isActive && !previewRevision });
+  // The editable state is hidden behind a revision preview; leave it alone
+  const isUndoEnabled = canUndo && !previewRevision;
+  const isRedoEnabled = canRedo && !previewRevision;
   
   // Derived: templates are nodes with x=-1, y=-1 (box type only)
-  const templates = useMemo(() => 
-    nodes.filter(n => 
-      n.position.x === -1 && n.position.y === -1 && n.type === 'box'
-    ).map(n => {
-      const boxData = n.data as BoxData;
-      return {
-        id: n.id,
-        ad: boxData.def?.ad || boxData.label || '',
-        aciklama: boxData.def?.aciklama || '',
-      };
-    }), [nodes]);
+  const templates = useMemo(() => getTemplateSummaries(nodes), [nodes]);
+  const templateUsage = useMemo(() => countTemplateUsage(nodes), [nodes]);
   
   // Derived: visible nodes are those with valid positions (x >= 0, y >= 0)
   const visibleNodes = useMemo(() => 
     nodes.filter(n => n.position.x >= 0 && n.position.y >= 0), [nodes]);
+
+  const problems = useMemo(() => validateWorkflow(nodes, edges), [nodes, edges]);
+  const problemErrorCount = problems.filter((p) => p.severity === 'error').length;
+
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [isModalOpen, setIsModalOpen] = useState(false);
@@ -264,7 +640,14 @@ export default function App() {
   const [isJumpLandModalOpen, setIsJumpLandModalOpen] = useState(false);
   const [jumpLandColorIndex, setJumpLandColorIndex] = useState(0);
   const [selectedLandId, setSelectedLandId] = useState<string | null>(null);
-  const [editingNodeType, setEditingNodeType] = useState<'jump' | 'land' | null>(null);
+  const [editingNodeType, setEditingNodeType] = useState<'jump' | 'land' | 'start' | 'end' | 'gateway' | null>(null);
+  const [formGatewayKind, setFormGatewayKind] = useState<GatewayKind>('xor');
+  const [formGatewayMode, setFormGatewayMode] = useState<GatewayMode>('split');
+  const [formTerminalName, setFormTerminalName] = useState('');
+  const [editingEdgeId, setEditingEdgeId] = useState<string | null>(null);
+  const [formEdgeLabel, setFormEdgeLabel] = useState('');
+  const [formEdgeOutcome, setFormEdgeOutcome] = useState('');
+  const [formEdgeGuard, setFormEdgeGuard] = useState('');
   const [contextMenu, setContextMenu] = useState<{
     visible: boolean;
     x: number;
@@ -273,11 +656,277 @@ export default function App() {
     flowY: number;
   }>({ visible: false, x: 0, y: 0, flowX: 0, flowY: 0 });
   const [nodeMenuHovered, setNodeMenuHovered] = useState(false);
+  const [layoutSelectionOnly, setLayoutSelectionOnly] = useState(false);
+  const [layoutKeepPinned, setLayoutKeepPinned] = useState(true);
+  const [isValidationPanelOpen, setIsValidationPanelOpen] = useState(false);
+  const [blockSaveOnErrors, setBlockSaveOnErrors] = useState(false);
+  const [isSimulating, setIsSimulating] = useState(false);
+  const [simulationTrail, setSimulationTrail] = useState<SimulationStep[]>([]);
+  const [isHistoryPanelOpen, setIsHistoryPanelOpen] = useState(false);
+  const [revisions, setRevisions] = useState<RevisionSummary[]>([]);
+  const [revisionsLoading, setRevisionsLoading] = useState(false);
+  const [revisionsError, setRevisionsError] = useState<string | null>(null);
+  const [isDiffPanelOpen, setIsDiffPanelOpen] = useState(false);
+  // State the canvas is compared against; removed elements are drawn as ghosts
+  const [diffBase, setDiffBase] = useState<{
+    label: string;
+    nodes: Node<NodeData>[];
+    edges: Edge<TransitionData>[];
+  } | null>(null);
+  // Last state loaded from or saved to the server
+  const [serverSnapshot, setServerSnapshot] = useState<{
+    nodes: Node<NodeData>[];
+    edges: Edge<TransitionData>[];
+  } | null>(null);
+  const [serverVersion, setServerVersion] = useState<string | null>(null);
+  // Revision number of the last load/save, shown in PDF title blocks
+  const [serverRevision, setServerRevision] = useState<number | null>(null);
+  const [workflowName, setWorkflowName] = useState<string | null>(null);
+  // A save rejected because someone else saved first; holds their state
+  const [saveConflict, setSaveConflict] = useState<{
+    message: string;
+    version: string | null;
+    nodes: Node<NodeData>[];
+    edges: Edge<TransitionData>[];
+  } | null>(null);
+  // Autosave stays off until a leftover draft has been restored or dropped
+  const [isDraftChecked, setIsDraftChecked] = useState(false);
+  // Offer dismissed while the workflow failed to load; asked again once a canvas is open
+  const [isDraftPostponed, setIsDraftPostponed] = useState(false);
+  const [draftOffer, setDraftOffer] = useState<{
+    savedAt: string;
+    nodes: Node<NodeData>[];
+    edges: Edge<TransitionData>[];
+    items: WorkflowDiffItem[];
+    movedCount: number;
+  } | null>(null);
+  const [isCollabEnabled, setIsCollabEnabled] = useState(false);
+  const [isTemplatePanelOpen, setIsTemplatePanelOpen] = useState(false);
+  const [isPaletteOpen, setIsPaletteOpen] = useState(false);
+  const [isImageExportOpen, setIsImageExportOpen] = useState(false);
+  // Sheets read from CSV/XLSX files, waiting for the column mapping
+  const [transitionImportSheets, setTransitionImportSheets] = useState<Sheet[] | null>(null);
+  // A rejected JSON file and the schema problems found in it
+  const [importErrors, setImportErrors] = useState<{ fileName: string; issues: FormatIssue[] } | null>(null);
+  const [recentTemplateIds, setRecentTemplateIds] = useState<string[]>(loadRecentTemplateIds);
+  const [isFindOpen, setIsFindOpen] = useState(false);
+  const [findQuery, setFindQuery] = useState('');
+  const [findIsRegex, setFindIsRegex] = useState(false);
+  const [findLandId, setFindLandId] = useState<string | null>(null);
+  const [findIndex, setFindIndex] = useState(-1);
+  const [openGroupId, setOpenGroupId] = useState<string | null>(null);
+  const draftKey = useMemo(() => getDraftKey(workflowId), [workflowId]);
+  const { discardDraft } = useDraftAutosave({
+    key: draftKey,
+    nodes,
+    edges,
+    enabled: isDraftChecked && !isUnauthorized && !isLoading && !error,
+  });
+  // The workflow id is the room name, so everyone on the same workflow meets
+  const {
+    self: collabSelf,
+    status: collabStatus,
+    peers: collabPeers,
+    updatePresence,
+    renameSelf,
+  } = useCollaboration({
+    enabled: isCollabEnabled && isDraftChecked,
+    relayUrl: COLLAB_RELAY_URL,
+    room: workflowId ?? 'local',
+    nodes,
+    edges,
+    setNodes,
+    setEdges,
+  });
+
+  const simulationCurrentId = simulationTrail[simulationTrail.length - 1]?.nodeId ?? null;
+  const simulationChoices = useMemo(
+    () => getAvailableChoices(simulationTrail, nodes, edges),
+    [simulationTrail, nodes, edges]
+  );
+
+  // Nodes as they were when a drag started; every drag frame changes `nodes`,
+  // so the diff and the dirty check wait for the drop
+  const [nodesBeforeDrag, setNodesBeforeDrag] = useState<Node<NodeData>[] | null>(null);
+  const settledNodes = nodesBeforeDrag ?? nodes;
+
+  const workflowDiff = useMemo(
+    () => (diffBase ? diffWorkflows(diffBase, { nodes: settledNodes, edges }) : null),
+    [diffBase, settledNodes, edges]
+  );
+
+  // A group opened as a sub-workflow; falls back to the main flow if the group disappears (undo, remote delete)
+  const openGroup = openGroupId ? nodes.find((n) => n.id === openGroupId && isGroupNode(n)) : undefined;
+  const activeGroupId = openGroup ? openGroup.id : null;
+  const toggleGroupCollapsed = useCallback((groupId: string) => {
+    takeSnapshot();
+    setNodes((nds) => {
+      const group = nds.find((n) => n.id === groupId);
+      if (!group) return nds;
+      return (group.data as GroupData).collapsed ? expandGroup(nds, groupId) : collapseGroup(nds, groupId);
+    });
+  }, [setNodes, takeSnapshot]);
+
+  const openGroupAsWorkflow = useCallback((groupId: string) => {
+    setOpenGroupId(groupId);
+    setTimeout(() => {
+      rf.current?.fitView({ padding: 0.2 });
+    }, 100);
+  }, []);
+
+  const closeGroupWorkflow = useCallback(() => {
+    setOpenGroupId(null);
+    setTimeout(() => {
+      rf.current?.fitView({ padding: 0.2 });
+    }, 100);
+  }, []);
+
+  const ungroup = useCallback((groupId: string) => {
+    takeSnapshot();
+    setNodes((nds) => nds.filter((n) => n.id !== groupId));
+  }, [setNodes, takeSnapshot]);
+
+  const groupActions = useMemo(
+    () => ({ toggleCollapsed: toggleGroupCollapsed, open: openGroupAsWorkflow, ungroup }),
+    [toggleGroupCollapsed, openGroupAsWorkflow, ungroup]
+  );
+
+  const grouped = useMemo(() => {
+    const result = applyGroups(visibleNodes, edges, activeGroupId);
+    const nodesWithActions = result.nodes.map((n) =>
+      isGroupNode(n) ? { ...n, data: { ...(n.data as GroupData), actions: groupActions } as GroupNodeData } : n
+    );
+    return { nodes: nodesWithActions, edges: result.edges };
+  }, [visibleNodes, edges, activeGroupId, groupActions]);
+
+  // While comparing, changed nodes are outlined in their diff color and removed ones shown as ghosts
+  const diffNodes = useMemo(() => {
+    if (!workflowDiff) return grouped.nodes;
+    const ghosts = workflowDiff.removedNodes.filter((n) => !isGroupNode(n)).map((n) => ({
+      ...n,
+      selected: false,
+      draggable: false,
+      selectable: false,
+      connectable: false,
+      deletable: false,
+      style: { ...n.style, opacity: 0.45, outline: `2px dashed ${DIFF_STATUS_COLORS.removed}`, outlineOffset: 4, borderRadius: 8 },
+    }));
+    return [
+      ...grouped.nodes.map((n) => {
+        const status = workflowDiff.nodeStatus.get(n.id);
+        if (!status) return n;
+        return { ...n, style: { ...n.style, outline: `3px solid ${DIFF_STATUS_COLORS[status]}`, outlineOffset: 4, borderRadius: 8 } };
+      }),
+      ...ghosts,
+    ];
+  }, [workflowDiff, grouped]);
+
+  const diffEdges = useMemo(() => {
+    if (!workflowDiff) return grouped.edges;
+    const ghosts = workflowDiff.removedEdges.map((e) => ({
+      ...e,
+      animated: false,
+      selectable: false,
+      deletable: false,
+      style: { ...e.style, stroke: DIFF_STATUS_COLORS.removed, strokeDasharray: '6 4', opacity: 0.6 },
+    }));
+    return [
+      ...grouped.edges.map((e) => {
+        const status = workflowDiff.edgeStatus.get(e.id);
+        return status ? { ...e, style: { ...e.style, stroke: DIFF_STATUS_COLORS[status], strokeWidth: 3 } } : e;
+      }),
+      ...ghosts,
+    ];
+  }, [workflowDiff, grouped]);
+
+  const selectedNodeKey = useMemo(
+    () => nodes.filter((n) => n.selected).map((n) => n.id).join(','),
+    [nodes]
+  );
+  useEffect(() => {
+    updatePresence({ selectedNodeIds: selectedNodeKey ? selectedNodeKey.split(',') : [] });
+  }, [selectedNodeKey, updatePresence]);
+  useEffect(() => {
+    updatePresence({ editingNodeId });
+  }, [editingNodeId, updatePresence]);
+
+  // Nodes other users have selected get a ring in their color
+  const collabNodes = useMemo(() => {
+    if (!collabPeers.length) return diffNodes;
+    return diffNodes.map((n) => {
+      const peer = collabPeers.find((p) => p.selectedNodeIds.includes(n.id) || p.editingNodeId === n.id);
+      return peer ? { ...n, style: { ...n.style, boxShadow: `0 0 0 3px ${peer.color}`, borderRadius: 8 } } : n;
+    });
+  }, [collabPeers, diffNodes]);
+
+  // While simulating, the current node and the visited trail are highlighted on the canvas
+  const displayNodes = useMemo(() => {
+    if (!isSimulating || !simulationTrail.length) return collabNodes;
+    const visited = new Set(simulationTrail.map((step) => step.nodeId));
+    return collabNodes.map((n) => {
+      if (n.id === simulationCurrentId) {
+        return { ...n, style: { ...n.style, outline: '3px solid #ffeb3b', outlineOffset: 4, borderRadius: 8, boxShadow: '0 0 24px #ffeb3b' } };
+      }
+      if (visited.has(n.id)) {
+        return { ...n, style: { ...n.style, outline: '2px dashed #ffeb3b', outlineOffset: 4, borderRadius: 8 } };
+      }
+      return { ...n, style: { ...n.style, opacity: 0.5 } };
+    });
+  }, [isSimulating, simulationTrail, simulationCurrentId, collabNodes]);
+
+  const displayEdges = useMemo(() => {
+    if (!isSimulating || !simulationTrail.length) return diffEdges;
+    const traversed = new Set(simulationTrail.map((step) => step.edgeId).filter(Boolean));
+    const offered = new Set(simulationChoices.map((choice) => choice.edgeId).filter(Boolean));
+    return diffEdges.map((e) => {
+      if (traversed.has(e.id)) return { ...e, style: { ...e.style, stroke: '#ffeb3b', strokeWidth: 3 } };
+      if (offered.has(e.id)) return { ...e, style: { ...e.style, stroke: '#ffeb3b', strokeDasharray: '6 4' } };
+      return e;
+    });
+  }, [isSimulating, simulationTrail, simulationChoices, diffEdges]);
+
+  const findResult = useMemo(
+    () => isFindOpen
+      ? searchCanvasNodes(nodes, { query: findQuery, isRegex: findIsRegex, linkedLandId: findLandId })
+      : { matchIds: [], error: null },
+    [isFindOpen, nodes, findQuery, findIsRegex, findLandId]
+  );
+  const activeFindIndex = findIndex < findResult.matchIds.length ? findIndex : -1;
+  const isFindActive = isFindOpen && Boolean(findQuery.trim() || findLandId) && !findResult.error;
+
+  // Find bar: non-matches are dimmed, the current result gets a glow
+  const searchedNodes = useMemo(() => {
+    if (!isFindActive) return displayNodes;
+    const matched = new Set(findResult.matchIds);
+    const activeId = findResult.matchIds[activeFindIndex];
+    return displayNodes.map((n) => {
+      if (n.id === activeId) {
+        return { ...n, style: { ...n.style, outline: '3px solid #4fc3f7', outlineOffset: 4, borderRadius: 8, boxShadow: '0 0 24px #4fc3f7' } };
+      }
+      if (matched.has(n.id)) {
+        return { ...n, style: { ...n.style, outline: '2px solid #4fc3f7', outlineOffset: 4, borderRadius: 8 } };
+      }
+      return { ...n, style: { ...n.style, opacity: 0.2 } };
+    });
+  }, [isFindActive, findResult, activeFindIndex, displayNodes]);
+
+  const searchedEdges = useMemo(() => {
+    if (!isFindActive) return displayEdges;
+    const matched = new Set(findResult.matchIds);
+    return displayEdges.map((e) =>
+      matched.has(e.source) || matched.has(e.target) ? e : { ...e, style: { ...e.style, opacity: 0.2 } }
+    );
+  }, [isFindActive, findResult, displayEdges]);
+
   const fileInputRef = useRef<HTMLInputElement | null>(null);
+  const findInputRef = useRef<HTMLInputElement | null>(null);
+  const compareFileInputRef = useRef<HTMLInputElement | null>(null);
+  const bpmnFileInputRef = useRef<HTMLInputElement | null>(null);
+  const tableFileInputRef = useRef<HTMLInputElement | null>(null);
 
   useEffect(() => {
     // Don't fetch if no token (unauthorized)
-    if (!token) {
+    if (!api) {
       setIsLoading(false);
       return;
     }
@@ -287,31 +936,28 @@ export default function App() {
         setIsLoading(true);
         setError(null);
         
-        const response = await fetch(`${API_BASE_URL}/workflow?t=${encodeURIComponent(token)}`);
-        
-        if (response.status === 401 || response.status === 403) {
-          throw new Error('Yetkisiz erişim. Token geçersiz.');
-        }
-        
-        if (!response.ok) {
-          throw new Error(`HTTP ${response.status}: Failed to fetch workflow data`);
-        }
-        
-        const data: WorkflowDataFromDB = await response.json();
+        const data = await api.fetchWorkflow();
         
         // Store ALL nodes (including templates with x=-1, y=-1) in single array
         const allNodes: Node<NodeData>[] = data.nodes.map(node => convertDBNodeToReactFlowNode(node));
+        const allEdges = data.edges.map(e => convertDBEdgeToReactFlowEdge(e));
         
         setNodes(allNodes);
-        setEdges(data.edges.map(e => ({ ...e, animated: true })));
+        setEdges(allEdges);
+        setServerSnapshot({ nodes: allNodes, edges: allEdges });
+        setServerVersion(data.version ?? null);
+        setServerRevision(data.revision ?? null);
+        setWorkflowName(data.name ?? null);
         setDataSource('api');
+        // A fresh server copy starts a new history
+        clearHistory();
         
         setTimeout(() => {
           rf.current?.fitView({ padding: 0.2 });
         }, 100);
         
       } catch (err) {
-        setError(err instanceof Error ? err.message : 'Bilinmeyen hata');
+        setError(getApiErrorMessage(err));
         console.error('Failed to load workflow:', err);
         
         setNodes([]);
@@ -322,7 +968,65 @@ export default function App() {
     };
     
     fetchWorkflowData();
-  }, [token, setNodes, setEdges]);
+  }, [api, setNodes, setEdges, clearHistory]);
+
+  // Without a server copy (failed load, no token) the draft is offered against an empty canvas
+  const isLoadFailed = Boolean(error) || isUnauthorized;
+
+  // Once the editor has its initial state (server copy, static data, empty or a failed load), offer a leftover draft
+  useEffect(() => {
+    if (isDraftChecked || draftOffer || isLoading || (isDraftPostponed && isLoadFailed)) return;
+
+    let cancelled = false;
+    loadDraft(draftKey)
+      .then((draft) => {
+        if (cancelled) return;
+        const draftNodes = draft?.nodes.map(node => convertDBNodeToReactFlowNode(node)) ?? [];
+        const draftEdges = draft?.edges.map(e => convertDBEdgeToReactFlowEdge(e)) ?? [];
+        // Templates and pins are not diff items, so the whole payload decides
+        if (!draft || isSameSavedWorkflow({ nodes, edges }, { nodes: draftNodes, edges: draftEdges })) {
+          if (draft) deleteDraft(draftKey).catch((err) => console.error('Draft delete error:', err));
+          setIsDraftChecked(true);
+          return;
+        }
+        const { items } = diffWorkflows({ nodes, edges }, { nodes: draftNodes, edges: draftEdges });
+        const movedCount = countMovedNodes(nodes, draftNodes);
+        setDraftOffer({ savedAt: draft.savedAt, nodes: draftNodes, edges: draftEdges, items, movedCount });
+      })
+      .catch((err) => {
+        console.error('Draft load error:', err);
+        if (!cancelled) setIsDraftChecked(true);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isDraftChecked, draftOffer, isLoading, isDraftPostponed, isLoadFailed, draftKey, nodes, edges]);
+
+  // The draft itself stays stored until a save succeeds
+  const restoreDraft = useCallback(() => {
+    if (!draftOffer) return;
+    // Undo goes back to the state the draft replaced
+    takeSnapshot();
+    setNodes(draftOffer.nodes);
+    setEdges(draftOffer.edges);
+    // Leave the error / no-token page for the restored canvas
+    setError(null);
+    if (isUnauthorized) setBypassAuth(true);
+    setDraftOffer(null);
+    setIsDraftChecked(true);
+  }, [draftOffer, isUnauthorized, setNodes, setEdges, takeSnapshot]);
+
+  const dropDraft = useCallback(() => {
+    setDraftOffer(null);
+    // Nothing to compare against yet: keep the draft instead of deleting it
+    if (isLoadFailed) {
+      setIsDraftPostponed(true);
+      return;
+    }
+    discardDraft();
+    setIsDraftChecked(true);
+  }, [isLoadFailed, discardDraft]);
 
   const loadStaticData = useCallback(() => {
     // Create template nodes with x=-1, y=-1 (appear in Nodelar dropdown, not on canvas)
@@ -349,7 +1053,8 @@ export default function App() {
         data: { 
           nodeType: 'box' as const, 
           label: def.ad ?? '', 
-          def: { ad: def.ad, aciklama: def.aciklama } 
+          def: { ad: def.ad, aciklama: def.aciklama },
+          dbId: `template-${i + 1}`,
         },
       };
     });
@@ -359,13 +1064,14 @@ export default function App() {
     setNodes([...templateNodes, ...visibleStaticNodes]);
     setEdges([]);
     setDataSource('static');
+    clearHistory();
     setError(null);
     setIsLoading(false);
 
     setTimeout(() => {
       rf.current?.fitView({ padding: 0.2 });
     }, 100);
-  }, [setNodes, setEdges]);
+  }, [setNodes, setEdges, clearHistory]);
 
   const onInit = useCallback((instance: ReactFlowInstance) => {
     rf.current = instance;
@@ -374,9 +1080,10 @@ export default function App() {
   const onConnect = useCallback(
     (connection: Connection) => {
       const edgeId = crypto?.randomUUID?.() ?? `edge-${Date.now()}`;
+      takeSnapshot();
       setEdges((eds) => addEdge({ ...connection, id: edgeId, animated: true }, eds));
     },
-    [setEdges]
+    [setEdges, takeSnapshot]
   );
 
   const onPaneContextMenu = useCallback(
@@ -430,271 +1137,431 @@ export default function App() {
     return allLands.filter((land) => !connectedLandIds.has(land.id) || land.id === selectedLandId);
   }, [nodes, getLandNodesWithLabels, selectedLandId]);
 
-  const addNewEmptyNode = useCallback(() => {
+  const addPaletteItem = useCallback((item: PaletteItem, position: XYPosition) => {
     const id = crypto?.randomUUID?.() ?? String(Date.now());
+    let newNode: Node<NodeData>;
+    if (item.kind === 'jump' || item.kind === 'land') {
+      newNode = {
+        id,
+        type: item.kind,
+        position,
+        data: { nodeType: item.kind, colorIndex: nextJumpLandColorIndex(nodes) },
+      };
+    } else {
+      const ad = item.kind === 'template' ? item.template.ad : 'Yeni İşlem';
+      newNode = {
+        id,
+        type: 'box',
+        position,
+        data: {
+          nodeType: 'box',
+          label: ad,
+          def: { ad, aciklama: item.kind === 'template' ? item.template.aciklama : '' },
+          dbId: item.kind === 'template' ? item.template.id : undefined,
+        },
+      };
+    }
 
-    const newNode: Node<BoxData> = {
-      id,
-      type: 'box',
-      position: { x: contextMenu.flowX, y: contextMenu.flowY },
-      data: {
-        nodeType: 'box',
-        label: 'Yeni İşlem',
-        def: { ad: 'Yeni İşlem', aciklama: '' },
-      },
-    };
+    takeSnapshot();
+    // Inside an opened group, new nodes belong to that group
+    setNodes((nds) => (activeGroupId ? addGroupMembers([...nds, newNode], activeGroupId, [id]) : [...nds, newNode]));
+    if (item.kind === 'template') {
+      setRecentTemplateIds((ids) => pushRecentTemplateId(ids, item.template.id));
+    }
+  }, [nodes, activeGroupId, setNodes, takeSnapshot]);
 
-    setNodes((nds) => [...nds, newNode]);
+  const addFromContextMenu = useCallback((item: PaletteItem) => {
+    addPaletteItem(item, { x: contextMenu.flowX, y: contextMenu.flowY });
     closeContextMenu();
-  }, [contextMenu.flowX, contextMenu.flowY, setNodes, closeContextMenu]);
+  }, [addPaletteItem, contextMenu.flowX, contextMenu.flowY, closeContextMenu]);
+
+  // Palette keyboard/click inserts go to the middle of the (full window) canvas
+  const addPaletteItemAtCenter = useCallback((item: PaletteItem) => {
+    const position = rf.current?.screenToFlowPosition({ x: window.innerWidth / 2, y: window.innerHeight / 2 });
+    if (position) addPaletteItem(item, position);
+  }, [addPaletteItem]);
+
+  const onCanvasDragOver = useCallback((event: React.DragEvent) => {
+    if (!event.dataTransfer.types.includes(PALETTE_DRAG_TYPE)) return;
+    event.preventDefault();
+    event.dataTransfer.dropEffect = 'move';
+  }, []);
 
-  const addNodeFromTemplate = useCallback((template: { id: string; ad: string; aciklama: string }) => {
-    const id = crypto?.randomUUID?.() ?? String(Date.now());
-    
-    const newNode: Node<BoxData> = {
-      id,
+  const onCanvasDrop = useCallback((event: React.DragEvent) => {
+    const payload = event.dataTransfer.getData(PALETTE_DRAG_TYPE);
+    const instance = rf.current;
+    if (!payload || !instance) return;
+    event.preventDefault();
+
+    const position = instance.screenToFlowPosition({ x: event.clientX, y: event.clientY });
+    addPaletteItem(JSON.parse(payload) as PaletteItem, position);
+  }, [addPaletteItem]);
+
+  const createTemplate = useCallback((ad: string, aciklama: string) => {
+    const template: Node<BoxData> = {
+      id: crypto?.randomUUID?.() ?? String(Date.now()),
       type: 'box',
-      position: { x: contextMenu.flowX, y: contextMenu.flowY },
-      data: {
-        nodeType: 'box',
-        label: template.ad,
-        def: { ad: template.ad, aciklama: template.aciklama },
-        dbId: template.id,
-      },
+      position: { x: -1, y: -1 },  // Template marker
+      data: { nodeType: 'box', label: ad, def: { ad, aciklama } },
     };
+    takeSnapshot();
+    setNodes((nds) => [...nds, template]);
+  }, [setNodes, takeSnapshot]);
+
+  const updateTemplate = useCallback((id: string, ad: string, aciklama: string) => {
+    const count = templateUsage.get(id) ?? 0;
+    const updateUsages = count > 0 && confirm(`Bu şablonu kullanan ${count} node da güncellensin mi?`);
+    takeSnapshot();
+    setNodes((nds) => nds.map((n) => {
+      const isUsage = updateUsages && !isTemplateNode(n) && n.data.nodeType === 'box' && (n.data as BoxData).dbId === id;
+      if (n.id !== id && !isUsage) return n;
+      return { ...n, data: { ...(n.data as BoxData), label: ad, def: { ad, aciklama } } };
+    }));
+  }, [templateUsage, setNodes, takeSnapshot]);
 
-    setNodes((nds) => [...nds, newNode]);
-    closeContextMenu();
-  }, [contextMenu.flowX, contextMenu.flowY, setNodes, closeContextMenu]);
+  const deleteTemplate = useCallback((id: string) => {
+    const count = templateUsage.get(id) ?? 0;
+    if (count > 0 && !confirm(`⚠️ Bu şablon kanvastaki ${count} node tarafından kullanılıyor. Yine de silinsin mi?`)) return;
+    takeSnapshot();
+    setNodes((nds) => nds.filter((n) => n.id !== id));
+  }, [templateUsage, setNodes, takeSnapshot]);
 
-  const addJumpNode = useCallback(() => {
+  const addTerminalNode = useCallback((kind: 'start' | 'end') => {
     const id = crypto?.randomUUID?.() ?? String(Date.now());
-    // Get next available color index
-    const usedIndices = new Set(
-      nodes
-        .filter((n) => n.type === 'jump' || n.type === 'land')
-        .map((n) => (n.data as JumpData | LandData).colorIndex)
-    );
-    let colorIndex = 0;
-    for (let i = 0; i < JUMP_LAND_COLORS.length; i++) {
-      if (!usedIndices.has(i)) {
-        colorIndex = i;
-        break;
-      }
-    }
 
-    const newNode: Node<JumpData> = {
+    const newNode: Node<StartData | EndData> = {
       id,
-      type: 'jump',
+      type: kind,
       position: { x: contextMenu.flowX, y: contextMenu.flowY },
-      data: { nodeType: 'jump', colorIndex },
+      data: kind === 'start' ? { nodeType: 'start' } : { nodeType: 'end' },
     };
 
+    takeSnapshot();
     setNodes((nds) => [...nds, newNode]);
     closeContextMenu();
-  }, [contextMenu.flowX, contextMenu.flowY, nodes, setNodes, closeContextMenu]);
+  }, [contextMenu.flowX, contextMenu.flowY, setNodes, closeContextMenu, takeSnapshot]);
 
-  const addLandNode = useCallback(() => {
+  const addGatewayNode = useCallback((kind: GatewayKind, mode: GatewayMode) => {
     const id = crypto?.randomUUID?.() ?? String(Date.now());
-    // Get next available color index
-    const usedIndices = new Set(
-      nodes
-        .filter((n) => n.type === 'jump' || n.type === 'land')
-        .map((n) => (n.data as JumpData | LandData).colorIndex)
-    );
-    let colorIndex = 0;
-    for (let i = 0; i < JUMP_LAND_COLORS.length; i++) {
-      if (!usedIndices.has(i)) {
-        colorIndex = i;
-        break;
-      }
-    }
 
-    const newNode: Node<LandData> = {
+    const newNode: Node<GatewayData> = {
       id,
-      type: 'land',
+      type: 'gateway',
       position: { x: contextMenu.flowX, y: contextMenu.flowY },
-      data: { nodeType: 'land', colorIndex },
+      data: { nodeType: 'gateway', kind, mode },
     };
 
+    takeSnapshot();
     setNodes((nds) => [...nds, newNode]);
     closeContextMenu();
-  }, [contextMenu.flowX, contextMenu.flowY, nodes, setNodes, closeContextMenu]);
+  }, [contextMenu.flowX, contextMenu.flowY, setNodes, closeContextMenu, takeSnapshot]);
 
-  const saveToBackend = useCallback(async () => {
-    if (!token) {
-      alert('❌ Token bulunamadı. Kaydetme yapılamaz.');
+  const loadRevisions = useCallback(async () => {
+    if (!api) {
+      setRevisionsError('Token bulunamadı.');
       return;
     }
 
     try {
-      const placedNodesData: WorkflowDefFromDB[] = nodes.map((n) => {
-        if (n.data.nodeType === 'jump') {
-          const jumpData = n.data as JumpData;
-          return {
-            id: n.id,
-            ad: '',
-            aciklama: '',
-            x: n.position.x,
-            y: n.position.y,
-            type: 'jump' as const,
-            jumpLandLabel: jumpData.label,
-            colorIndex: jumpData.colorIndex,
-          };
-        }
-        if (n.data.nodeType === 'land') {
-          const landData = n.data as LandData;
-          return {
-            id: n.id,
-            ad: '',
-            aciklama: '',
-            x: n.position.x,
-            y: n.position.y,
-            type: 'land' as const,
-            jumpLandLabel: landData.label,
-            colorIndex: landData.colorIndex,
-          };
-        }
-        const boxData = n.data as BoxData;
-        return {
-          id: n.id,
-          ad: boxData.def?.ad || boxData.label || '',
-          aciklama: boxData.def?.aciklama || '',
-          x: n.position.x,
-          y: n.position.y,
-          type: 'box' as const,
-        };
+      setRevisionsLoading(true);
+      setRevisionsError(null);
+      const list = await api.fetchRevisions();
+      setRevisions([...list].sort((a, b) => b.number - a.number));
+    } catch (err) {
+      setRevisionsError(getApiErrorMessage(err));
+      console.error('Failed to load revisions:', err);
+    } finally {
+      setRevisionsLoading(false);
+    }
+  }, [api]);
+
+  const toggleHistoryPanel = useCallback(() => {
+    if (!isHistoryPanelOpen) loadRevisions();
+    setIsHistoryPanelOpen(!isHistoryPanelOpen);
+  }, [isHistoryPanelOpen, loadRevisions]);
+
+  const previewRevisionOnCanvas = useCallback(async (revision: number) => {
+    if (!api) return;
+
+    try {
+      const data = await api.fetchRevision(revision);
+      setPreviewRevision({
+        number: revision,
+        nodes: data.nodes.map(node => convertDBNodeToReactFlowNode(node)),
+        edges: data.edges.map(e => convertDBEdgeToReactFlowEdge(e)),
       });
+      setTimeout(() => {
+        rf.current?.fitView({ padding: 0.2 });
+      }, 100);
+    } catch (err) {
+      alert('❌ Revizyon yüklenemedi: ' + getApiErrorMessage(err));
+      console.error('Revision preview error:', err);
+    }
+  }, [api]);
 
-      const edgesData: EdgeFromDB[] = edges.map((e) => ({
-        id: e.id || crypto?.randomUUID?.() || `edge-${Date.now()}`,
-        source: e.source,
-        target: e.target,
-      }));
+  const compareWithRevision = useCallback(async (revision: number) => {
+    if (!api) return;
 
-      const response = await fetch(`${API_BASE_URL}/workflow?t=${encodeURIComponent(token)}`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ 
-          nodes: placedNodesData,  // All nodes including templates (x=-1, y=-1)
-          edges: edgesData,
-        }),
+    try {
+      const data = await api.fetchRevision(revision);
+      setDiffBase({
+        label: `Revizyon #${revision}`,
+        nodes: data.nodes.map(node => convertDBNodeToReactFlowNode(node)),
+        edges: data.edges.map(e => convertDBEdgeToReactFlowEdge(e)),
       });
+      setPreviewRevision(null);
+      setIsDiffPanelOpen(true);
+    } catch (err) {
+      alert('❌ Revizyon yüklenemedi: ' + getApiErrorMessage(err));
+      console.error('Revision compare error:', err);
+    }
+  }, [api]);
 
-      if (response.status === 401 || response.status === 403) {
-        throw new Error('Yetkisiz erişim. Token geçersiz.');
-      }
+  const restoreRevisionFromServer = useCallback(async (revision: number) => {
+    if (!api) return;
+    if (!confirm(`Revizyon #${revision} geri yüklensin mi? Sunucuda yeni bir revizyon olarak kaydedilir.`)) return;
 
-      if (!response.ok) {
-        throw new Error(`HTTP ${response.status}: Failed to save`);
-      }
+    try {
+      const data = await api.restoreRevision(revision);
+      // Undo on the canvas still brings back the state from before the restore
+      const restoredNodes = data.nodes.map(node => convertDBNodeToReactFlowNode(node));
+      const restoredEdges = data.edges.map(e => convertDBEdgeToReactFlowEdge(e));
+      takeSnapshot();
+      setNodes(restoredNodes);
+      setEdges(restoredEdges);
+      setServerSnapshot({ nodes: restoredNodes, edges: restoredEdges });
+      setServerVersion(data.version ?? null);
+      setServerRevision(data.revision);
+      setPreviewRevision(null);
+      loadRevisions();
+      alert(`✅ Revizyon #${revision} geri yüklendi (yeni revizyon #${data.revision}).`);
+    } catch (err) {
+      alert('❌ Geri yükleme hatası: ' + getApiErrorMessage(err));
+      console.error('Revision restore error:', err);
+    }
+  }, [api, setNodes, setEdges, takeSnapshot, loadRevisions]);
+
+  // Without `force` the server only accepts the save if nobody else saved since our last load
+  const postWorkflow = useCallback(async (message: string, force: boolean) => {
+    if (!api) return;
 
-      alert('✅ Başarıyla kaydedildi!');
+    try {
+      const result = await api.saveWorkflow(
+        {
+          nodes: nodes.map(convertReactFlowNodeToDB),  // All nodes including templates (x=-1, y=-1)
+          edges: edges.map(convertReactFlowEdgeToDB),
+          message: message.trim() || undefined,
+        },
+        force ? null : serverVersion
+      );
+
+      setServerSnapshot({ nodes, edges });
+      setServerVersion(result.version ?? null);
+      setServerRevision(result.revision ?? null);
+      discardDraft();
+      alert(result.revision ? `✅ Başarıyla kaydedildi! (Revizyon #${result.revision})` : '✅ Başarıyla kaydedildi!');
       closeContextMenu();
+      if (isHistoryPanelOpen) loadRevisions();
     } catch (err) {
-      alert('❌ Kaydetme hatası: ' + (err instanceof Error ? err.message : 'Bilinmeyen hata'));
-      console.error('Save error:', err);
+      if (!(err instanceof WorkflowApiError && err.kind === 'conflict')) {
+        alert('❌ Kaydetme hatası: ' + getApiErrorMessage(err));
+        console.error('Save error:', err);
+        return;
+      }
+      try {
+        let theirs: Partial<WorkflowDataFromDB> = {
+          ...(err.body as Partial<WorkflowDataFromDB> | null),
+          version: err.version ?? undefined,
+        };
+        // Backends that only report the conflict: fetch their state for the merge view
+        if (!Array.isArray(theirs.nodes) || !Array.isArray(theirs.edges)) theirs = await api.fetchWorkflow();
+        setSaveConflict({
+          message,
+          version: theirs.version ?? null,
+          nodes: (theirs.nodes ?? []).map(node => convertDBNodeToReactFlowNode(node)),
+          edges: (theirs.edges ?? []).map(e => convertDBEdgeToReactFlowEdge(e)),
+        });
+        closeContextMenu();
+      } catch (fetchErr) {
+        alert('❌ Kaydetme hatası: ' + getApiErrorMessage(fetchErr));
+        console.error('Save conflict fetch error:', fetchErr);
+      }
     }
-  }, [token, nodes, edges, closeContextMenu]);
+  }, [api, nodes, edges, serverVersion, closeContextMenu, isHistoryPanelOpen, loadRevisions, discardDraft]);
 
-  const exportJson = useCallback(() => {
-    const nodeIdToAd = new Map<string, string>();
-    nodes.forEach((n) => {
-      if (n.type === 'box' && n.data.nodeType === 'box') {
-        const ad = n.data.def?.ad || n.data.label || n.id;
-        nodeIdToAd.set(n.id, ad);
+  const saveToBackend = useCallback(async () => {
+    if (!api) {
+      alert('❌ Token bulunamadı. Kaydetme yapılamaz.');
+      return;
+    }
+
+    if (problemErrorCount > 0) {
+      if (blockSaveOnErrors) {
+        alert(`❌ İş akışında ${problemErrorCount} hata var. Kaydetmeden önce düzeltin.`);
+        setIsValidationPanelOpen(true);
+        return;
       }
-    });
+      if (!confirm(`⚠️ İş akışında ${problemErrorCount} hata var. Yine de kaydedilsin mi?`)) {
+        setIsValidationPanelOpen(true);
+        return;
+      }
+    }
 
-    const boxNodes = nodes
-      .filter((n) => n.type === 'box' && n.data.nodeType === 'box')
-      .map((n) => {
-        const boxData = n.data as BoxData;
-        return {
-          id: n.id,
-          type: 'box',
-          x: n.position?.x ?? 0,
-          y: n.position?.y ?? 0,
-          ad: boxData.def?.ad || boxData.label || '',
-          aciklama: boxData.def?.aciklama || '',
-        };
-      });
+    // Cancel aborts the save; an empty note is fine
+    const message = prompt('Revizyon notu (opsiyonel):', '');
+    if (message === null) return;
 
-    const jumpNodes = nodes
-      .filter((n) => n.type === 'jump' && n.data.nodeType === 'jump')
-      .map((n) => {
-        const jumpData = n.data as JumpData;
-        return {
-          id: n.id,
-          type: 'jump',
-          x: n.position?.x ?? 0,
-          y: n.position?.y ?? 0,
-          land: jumpData.landId || null,  // Reference to connected land node
-          colorIndex: jumpData.colorIndex,
-        };
-      });
+    postWorkflow(message, false);
+  }, [api, problemErrorCount, blockSaveOnErrors, postWorkflow]);
 
-    // Build a map of land node ID -> connected target node ID (from edges)
-    const landNextNodeMap = new Map<string, string>();
-    edges.forEach((e) => {
-      const sourceNode = nodes.find((n) => n.id === e.source);
-      if (sourceNode?.type === 'land') {
-        landNextNodeMap.set(e.source, e.target);
-      }
-    });
+  // Template and pin edits count too, as in the startup draft check
+  const hasUnsavedChanges = useMemo(
+    () => serverSnapshot !== null && !isSameSavedWorkflow(serverSnapshot, { nodes: settledNodes, edges }),
+    [serverSnapshot, settledNodes, edges]
+  );
 
-    const landNodes = nodes
-      .filter((n) => n.type === 'land' && n.data.nodeType === 'land')
-      .map((n) => {
-        const landData = n.data as LandData;
-        return {
-          id: n.id,
-          type: 'land',
-          x: n.position?.x ?? 0,
-          y: n.position?.y ?? 0,
-          nextNode: landNextNodeMap.get(n.id) || null,  // Node connected to this land
-          colorIndex: landData.colorIndex,
-        };
-      });
+  // The tab header shows the name and a dirty mark
+  useEffect(() => {
+    if (workflowId) onStatusChange?.(workflowId, { name: workflowName, isDirty: hasUnsavedChanges });
+  }, [workflowId, workflowName, hasUnsavedChanges, onStatusChange]);
+
+  const saveConflictChanges = useMemo(() => {
+    if (!saveConflict || !serverSnapshot) return null;
+    return findConflictingChanges(serverSnapshot, { nodes, edges }, saveConflict);
+  }, [saveConflict, serverSnapshot, nodes, edges]);
+
+  // Drops local changes for the server state; undo still brings them back
+  const reloadConflictingState = useCallback(() => {
+    if (!saveConflict) return;
+    takeSnapshot();
+    setNodes(saveConflict.nodes);
+    setEdges(saveConflict.edges);
+    setServerSnapshot({ nodes: saveConflict.nodes, edges: saveConflict.edges });
+    setServerVersion(saveConflict.version);
+    setSaveConflict(null);
+  }, [saveConflict, setNodes, setEdges, takeSnapshot]);
+
+  const forceOverwriteConflict = useCallback(() => {
+    if (!saveConflict) return;
+    if (!confirm('Sunucudaki değişiklikler kaybolacak. Yine de üzerine yazılsın mı?')) return;
+    setSaveConflict(null);
+    postWorkflow(saveConflict.message, true);
+  }, [saveConflict, postWorkflow]);
+
+  const compareConflictOnCanvas = useCallback(() => {
+    if (!saveConflict) return;
+    setDiffBase({ label: 'Sunucudaki hal', nodes: saveConflict.nodes, edges: saveConflict.edges });
+    setIsDiffPanelOpen(true);
+    setSaveConflict(null);
+  }, [saveConflict]);
 
-    // Jump links are now stored directly in jump nodes via 'land' field
-    const jumpLinks: { jumpNodeId: string; landNodeId: string }[] = [];
-    jumpNodes.forEach((jump) => {
-      if (jump.land) {
-        jumpLinks.push({
-          jumpNodeId: jump.id,
-          landNodeId: jump.land,
-        });
+  const exportJson = useCallback(() => {
+    const exportData = buildWorkflowExport(nodes, edges);
+
+    downloadTextFile(JSON.stringify(exportData, null, 2), 'workflow-export.json', 'application/json');
+    closeContextMenu();
+  }, [nodes, edges, closeContextMenu]);
+
+  const exportDiagramText = useCallback(
+    (format: DiagramTextFormat, destination: 'file' | 'clipboard') => {
+      const text = buildDiagramText(format, nodes, edges);
+      const formatName = format === 'mermaid' ? 'Mermaid' : 'DOT';
+      closeContextMenu();
+
+      if (destination === 'file') {
+        const fileName = format === 'mermaid' ? 'workflow-export.mmd' : 'workflow-export.dot';
+        downloadTextFile(text, fileName, 'text/plain');
+        return;
       }
-    });
+      navigator.clipboard.writeText(text).then(
+        () => alert(`✅ ${formatName} çıktısı panoya kopyalandı.`),
+        (err) => alert('❌ Panoya kopyalanamadı: ' + (err instanceof Error ? err.message : 'Bilinmeyen hata'))
+      );
+    },
+    [nodes, edges, closeContextMenu]
+  );
 
-    // All nodes in single array (including templates with x=-1, y=-1)
-    const exportData = {
-      nodes: [...boxNodes, ...jumpNodes, ...landNodes],
-      edges: edges.map((e) => ({
-        // Always use UUID4 for edge IDs (replace any reactflow-generated IDs)
-        id: crypto?.randomUUID?.() ?? `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
-        source: e.source,
-        target: e.target,
-        islem_tur: nodeIdToAd.get(e.source) || e.source,
-        sonraki_islem_tur: nodeIdToAd.get(e.target) || e.target,
-      })),
-      jumpLinks,
-    };
+  const openImageExport = useCallback(() => {
+    setIsImageExportOpen(true);
+    closeContextMenu();
+  }, [closeContextMenu]);
 
-    const jsonStr = JSON.stringify(exportData, null, 2);
-    const blob = new Blob([jsonStr], { type: 'application/json' });
-    const url = URL.createObjectURL(blob);
+  // Renders what the canvas shows (groups, diff colors, search dimming included)
+  const exportImage = useCallback(
+    async (options: ImageExportOptions) => {
+      const viewport = containerRef.current?.querySelector<HTMLElement>('.react-flow__viewport');
+      const exportNodes = searchedNodes.filter((n) => !options.selectionOnly || n.selected);
+      if (!viewport || !exportNodes.length) return;
+
+      const nodeIds = new Set(exportNodes.map((n) => n.id));
+      const scope = options.selectionOnly
+        ? {
+            nodeIds,
+            edgeIds: new Set(searchedEdges.filter((e) => nodeIds.has(e.source) && nodeIds.has(e.target)).map((e) => e.id)),
+          }
+        : undefined;
+      const bounds = getExportBounds(exportNodes);
 
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = 'workflow-export.json';
-    a.click();
+      try {
+        if (options.format === 'svg') {
+          downloadBlob(exportSvg(viewport, bounds, options, scope), 'workflow-export.svg');
+        } else if (options.format === 'png') {
+          downloadBlob(await exportPng(viewport, bounds, options, scope), 'workflow-export.png');
+        } else {
+          const titleBlock = { title: options.title.trim() || 'İş Akışı', date: new Date(), revision: serverRevision };
+          downloadBlob(await exportPdf(viewport, bounds, options, titleBlock, scope), 'workflow-export.pdf');
+        }
+        setIsImageExportOpen(false);
+      } catch (err) {
+        alert('❌ Görüntü oluşturulamadı: ' + (err instanceof Error ? err.message : 'Bilinmeyen hata'));
+        console.error('Image export error:', err);
+      }
+    },
+    [searchedNodes, searchedEdges, serverRevision]
+  );
 
-    URL.revokeObjectURL(url);
+  const exportBpmn = useCallback(() => {
+    downloadTextFile(buildBpmnXml(nodes, edges), 'workflow-export.bpmn', 'application/xml');
     closeContextMenu();
   }, [nodes, edges, closeContextMenu]);
 
+  const compareWithServer = useCallback(() => {
+    if (!serverSnapshot) return;
+    setDiffBase({ label: 'Son sunucu hali', ...serverSnapshot });
+  }, [serverSnapshot]);
+
+  const compareWithFile = useCallback(
+    (event: React.ChangeEvent<HTMLInputElement>) => {
+      const file = event.target.files?.[0];
+      if (!file) return;
+
+      const reader = new FileReader();
+      reader.onload = (e) => {
+        const result = parseWorkflowFileText(e.target?.result as string);
+        if (!result.ok) {
+          setImportErrors({ fileName: file.name, issues: result.issues });
+          return;
+        }
+        const parsed = result.file;
+        const layoutPositions = parsed.hasMissingPosition
+          ? computeLayeredLayout(parsed.nodes, parsed.edges)
+          : new Map<string, XYPosition>();
+        setDiffBase({
+          label: file.name,
+          nodes: parsed.nodes.map((n) => {
+            const position = layoutPositions.get(n.id);
+            return position ? { ...n, position } : n;
+          }),
+          edges: parsed.edges,
+        });
+      };
+
+      reader.readAsText(file);
+      event.target.value = '';
+    },
+    []
+  );
+
   const handleImportClick = useCallback(() => {
     fileInputRef.current?.click();
     closeContextMenu();
@@ -707,142 +1574,153 @@ export default function App() {
 
       const reader = new FileReader();
       reader.onload = (e) => {
-        try {
-          const content = e.target?.result as string;
-          const data = JSON.parse(content);
-
-          if (data.nodes && Array.isArray(data.nodes)) {
-            // All nodes go into single array (including templates with x=-1, y=-1)
-            const allNodes: Node<NodeData>[] = [];
-
-            data.nodes.forEach((n: any, index: number) => {
-              const x = n.x ?? n.position?.x;
-              const y = n.y ?? n.position?.y;
-              
-              // Determine position (x=-1, y=-1 for templates, otherwise actual position)
-              const position = { 
-                x: typeof x === 'number' ? x : 100 + (index % 5) * 250, 
-                y: typeof y === 'number' ? y : 100 + Math.floor(index / 5) * 100 
-              };
-
-              if (n.type === 'jump') {
-                allNodes.push({
-                  id: n.id || crypto?.randomUUID?.() || String(Date.now() + index),
-                  type: 'jump',
-                  position,
-                  data: {
-                    nodeType: 'jump' as const,
-                    label: n.label,  // Keep for backwards compatibility
-                    landId: n.land || undefined,  // New format: direct land reference
-                    colorIndex: n.colorIndex ?? 0,
-                  },
-                });
-                return;
-              }
-
-              if (n.type === 'land') {
-                allNodes.push({
-                  id: n.id || crypto?.randomUUID?.() || String(Date.now() + index),
-                  type: 'land',
-                  position,
-                  data: {
-                    nodeType: 'land' as const,
-                    label: n.label,  // Keep for backwards compatibility
-                    nextNodeId: n.nextNode || undefined,  // New format: next node reference
-                    colorIndex: n.colorIndex ?? 0,
-                  },
-                });
-                return;
-              }
-
-              const ad = n.ad || n.data?.ad || n.data?.def?.ad || n.data?.label || 'Imported Node';
-              const aciklama = n.aciklama || n.data?.aciklama || n.data?.def?.aciklama || '';
-
-              allNodes.push({
-                id: n.id || crypto?.randomUUID?.() || String(Date.now() + index),
-                type: 'box',
-                position,
-                data: {
-                  nodeType: 'box' as const,
-                  label: ad,
-                  def: { ad, aciklama } as WorkflowDef,
-                  dbId: n.id,
-                },
-              });
-            });
-
-            // Also support explicit templates array (for backwards compatibility)
-            if (data.templates && Array.isArray(data.templates)) {
-              data.templates.forEach((t: any, i: number) => {
-                const ad = t.ad || '';
-                const aciklama = t.aciklama || '';
-                allNodes.push({
-                  id: t.id || `template-explicit-${i}`,
-                  type: 'box',
-                  position: { x: -1, y: -1 },  // Template marker
-                  data: {
-                    nodeType: 'box' as const,
-                    label: ad,
-                    def: { ad, aciklama } as WorkflowDef,
-                  },
-                });
-              });
-            }
+        const result = parseWorkflowFileText(e.target?.result as string);
+        if (!result.ok) {
+          setImportErrors({ fileName: file.name, issues: result.issues });
+          return;
+        }
+        const parsed = result.file;
+        setEdges(parsed.edges);
+
+        // Files without coordinates get a layered layout instead of the fallback grid
+        const layoutPositions = parsed.hasMissingPosition
+          ? computeLayeredLayout(parsed.nodes, parsed.edges)
+          : new Map<string, XYPosition>();
+        takeSnapshot();
+        setNodes(parsed.nodes.map((n) => {
+          const position = layoutPositions.get(n.id);
+          return position ? { ...n, position } : n;
+        }));
 
-            setNodes(allNodes);
-
-            const adToNodeId = new Map<string, string>();
-            allNodes.forEach((n) => {
-              if (n.type === 'box' && n.data.nodeType === 'box') {
-                const boxData = n.data as BoxData;
-                const ad = boxData.def?.ad || boxData.label;
-                if (ad) {
-                  adToNodeId.set(ad, n.id);
-                }
-              }
-            });
-
-            if (data.edges && Array.isArray(data.edges)) {
-              const importedEdges: Edge[] = data.edges
-                .map((e: any) => {
-                  const sourceId = e.source || adToNodeId.get(e.islem_tur);
-                  const targetId = e.target || adToNodeId.get(e.sonraki_islem_tur);
-
-                  if (!sourceId || !targetId) return null;
-
-                  // Use provided UUID or generate new one (ensures UUID4 format)
-                  const isValidUUID = e.id && /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i.test(e.id);
-                  const edgeId = isValidUUID ? e.id : (crypto?.randomUUID?.() ?? `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`);
-
-                  return {
-                    id: edgeId,
-                    source: sourceId,
-                    target: targetId,
-                    animated: true,
-                  };
-                })
-                .filter(Boolean) as Edge[];
-
-              setEdges(importedEdges);
-            }
+        setTimeout(() => {
+          rf.current?.fitView({ padding: 0.2 });
+        }, 100);
+      };
 
-            setTimeout(() => {
-              rf.current?.fitView({ padding: 0.2 });
-            }, 100);
-          }
-        } catch (err) {
-          console.error('JSON import error:', err);
-          alert('JSON dosyası okunamadı. Lütfen geçerli bir JSON dosyası seçin.');
+      reader.readAsText(file);
+      event.target.value = '';
+    },
+    [setNodes, setEdges, takeSnapshot]
+  );
+
+  const handleBpmnImportClick = useCallback(() => {
+    bpmnFileInputRef.current?.click();
+    closeContextMenu();
+  }, [closeContextMenu]);
+
+  const importBpmn = useCallback(
+    (event: React.ChangeEvent<HTMLInputElement>) => {
+      const file = event.target.files?.[0];
+      if (!file) return;
+
+      const reader = new FileReader();
+      reader.onload = (e) => {
+        const parsed = parseBpmnXml(e.target?.result as string);
+        if (!parsed) {
+          alert('❌ BPMN dosyası okunamadı. Dosyada bir BPMN 2.0 süreci (process) bulunamadı.');
+          return;
+        }
+
+        setEdges(parsed.edges);
+        const layoutPositions = parsed.hasMissingPosition
+          ? computeLayeredLayout(parsed.nodes, parsed.edges)
+          : new Map<string, XYPosition>();
+        takeSnapshot();
+        setNodes(parsed.nodes.map((n) => {
+          const position = layoutPositions.get(n.id);
+          return position ? { ...n, position } : n;
+        }));
+
+        setTimeout(() => {
+          rf.current?.fitView({ padding: 0.2 });
+        }, 100);
+
+        if (parsed.skipped.length) {
+          const names = [...new Set(parsed.skipped)].join(', ');
+          alert(`⚠️ ${parsed.skipped.length} BPMN öğesinin karşılığı yok, atlandı: ${names}`);
         }
       };
 
       reader.readAsText(file);
       event.target.value = '';
     },
-    [setNodes, setEdges]
+    [setNodes, setEdges, takeSnapshot]
+  );
+
+  const exportTransitionTable = useCallback(
+    (format: 'xlsx' | 'csv') => {
+      const [transitionSheet, templateSheet] = buildTransitionSheets(nodes, edges);
+      if (format === 'xlsx') {
+        downloadBlob(buildXlsx([transitionSheet, templateSheet]), 'workflow-gecisler.xlsx');
+      } else {
+        // One CSV per sheet, zipped: a second download would often be blocked
+        downloadBlob(
+          buildCsvZip([
+            { fileName: 'workflow-gecisler.csv', rows: transitionSheet.rows },
+            { fileName: 'workflow-islem-turleri.csv', rows: templateSheet.rows },
+          ]),
+          'workflow-gecisler-csv.zip'
+        );
+      }
+      closeContextMenu();
+    },
+    [nodes, edges, closeContextMenu]
+  );
+
+  const handleTableImportClick = useCallback(() => {
+    tableFileInputRef.current?.click();
+    closeContextMenu();
+  }, [closeContextMenu]);
+
+  // Several CSV files (one sheet each) or an XLSX workbook
+  const importTransitionTable = useCallback(async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files ?? []);
+    event.target.value = '';
+    if (!files.length) return;
+
+    try {
+      const sheets = (await Promise.all(files.map(readSpreadsheetFile))).flat().filter((sheet) => sheet.rows.length);
+      if (!sheets.length) {
+        alert('❌ Dosyada okunabilir bir tablo bulunamadı.');
+        return;
+      }
+      setTransitionImportSheets(sheets);
+    } catch (err) {
+      alert('❌ Tablo okunamadı: ' + (err instanceof Error ? err.message : 'Bilinmeyen hata'));
+      console.error('Table import error:', err);
+    }
+  }, []);
+
+  const existingTemplateNames = useMemo(() => new Set(templates.map((t) => t.ad)), [templates]);
+
+  const applyTransitionImport = useCallback(
+    (preview: TransitionTablePreview) => {
+      const parsed = buildTransitionImport(preview, nodes);
+      const layoutPositions = computeLayeredLayout(parsed.nodes, parsed.edges);
+      takeSnapshot();
+      setEdges(parsed.edges);
+      setNodes(parsed.nodes.map((n) => {
+        const position = layoutPositions.get(n.id);
+        return position ? { ...n, position } : n;
+      }));
+      setTransitionImportSheets(null);
+
+      setTimeout(() => {
+        rf.current?.fitView({ padding: 0.2 });
+      }, 100);
+    },
+    [nodes, setNodes, setEdges, takeSnapshot]
   );
 
   const onNodeDoubleClick = useCallback((_: React.MouseEvent, node: Node<NodeData>) => {
+    if (isDiffGhostId(node.id)) return;
+    if (node.type === 'group') {
+      const label = prompt('Grup adı:', (node.data as GroupData).label)?.trim();
+      if (!label) return;
+      takeSnapshot();
+      setNodes((nds) => nds.map((n) => (n.id === node.id ? { ...n, data: { ...(n.data as GroupData), label } } : n)));
+      return;
+    }
     setEditingNodeId(node.id);
 
     if (node.type === 'jump' || node.type === 'land') {
@@ -859,26 +1737,417 @@ export default function App() {
       }
       
       setIsJumpLandModalOpen(true);
+    } else if (node.type === 'gateway') {
+      const gatewayData = node.data as GatewayData;
+      setEditingNodeType('gateway');
+      setFormGatewayKind(gatewayData.kind);
+      setFormGatewayMode(gatewayData.mode);
+    } else if (node.type === 'start' || node.type === 'end') {
+      setEditingNodeType(node.type);
+      setFormTerminalName(
+        node.type === 'start' ? (node.data as StartData).label ?? '' : (node.data as EndData).outcomeName ?? ''
+      );
     } else {
       const boxData = node.data as BoxData;
       setFormAd(boxData.def?.ad ?? '');
       setFormAciklama(boxData.def?.aciklama ?? '');
       setIsModalOpen(true);
     }
-  }, []);
+  }, [setNodes, takeSnapshot]);
 
   const onEdgeDoubleClick = useCallback(
-    (_: React.MouseEvent, edge: Edge) => {
-      setEdges((eds) => eds.filter((e) => e.id !== edge.id));
+    (_: React.MouseEvent, edge: Edge<TransitionData>) => {
+      if (isDiffGhostId(edge.id) || isGroupEdgeId(edge.id)) return;
+      setEditingEdgeId(edge.id);
+      setFormEdgeLabel(typeof edge.label === 'string' ? edge.label : '');
+      setFormEdgeOutcome(edge.data?.outcome ?? '');
+      setFormEdgeGuard(edge.data?.guard ?? '');
     },
-    [setEdges]
+    []
   );
 
-  const onNodesDelete = useCallback(
-    (_deletedNodes: Node<NodeData>[]) => {},
-    []
+  const closeEdgeModal = useCallback(() => {
+    setEditingEdgeId(null);
+  }, []);
+
+  const saveEdge = useCallback(() => {
+    if (!editingEdgeId) return;
+
+    takeSnapshot();
+    setEdges((eds) =>
+      eds.map((e) =>
+        e.id === editingEdgeId
+          ? {
+              ...e,
+              label: formEdgeLabel.trim() || undefined,
+              data: {
+                ...e.data,
+                outcome: formEdgeOutcome.trim() || undefined,
+                guard: formEdgeGuard.trim() || undefined,
+              },
+            }
+          : e
+      )
+    );
+
+    closeEdgeModal();
+  }, [editingEdgeId, formEdgeLabel, formEdgeOutcome, formEdgeGuard, setEdges, closeEdgeModal, takeSnapshot]);
+
+  const deleteEditingEdge = useCallback(() => {
+    if (!editingEdgeId) return;
+
+    takeSnapshot();
+    setEdges((eds) => eds.filter((e) => e.id !== editingEdgeId));
+    closeEdgeModal();
+  }, [editingEdgeId, setEdges, closeEdgeModal, takeSnapshot]);
+
+  // Keyboard deletes: snapshot before React Flow applies the removal
+  const onNodesDelete = useCallback((deleted: Node<NodeData>[]) => {
+    takeSnapshot();
+    // Deleting a group keeps its members; deleting members drops them from their group
+    const deletedIds = new Set(deleted.map((n) => n.id));
+    setNodes((nds) => nds.map((n) => {
+      if (!isGroupNode(n)) return n;
+      const groupData = n.data as GroupData;
+      if (!groupData.memberIds.some((id) => deletedIds.has(id))) return n;
+      return { ...n, data: { ...groupData, memberIds: groupData.memberIds.filter((id) => !deletedIds.has(id)) } };
+    }));
+  }, [setNodes, takeSnapshot]);
+  const onEdgesDelete = useCallback(() => takeSnapshot(), [takeSnapshot]);
+
+  const groupSelection = useCallback(() => {
+    const selected = nodes.filter((n) => n.selected && !isTemplateNode(n));
+    if (!selected.length) {
+      alert('Gruplamak için önce node seçin.');
+      return;
+    }
+    if (selected.some((n) => isGroupNode(n) || findGroupOf(nodes, n.id))) {
+      alert('❌ Seçimde bir grup ya da başka bir gruba ait node var. İç içe gruplar desteklenmiyor.');
+      return;
+    }
+    const label = prompt('Grup adı:', 'Yeni Grup')?.trim();
+    if (!label) return;
+
+    const group = createGroupNode(crypto?.randomUUID?.() ?? String(Date.now()), label, selected);
+    takeSnapshot();
+    setNodes((nds) => [...nds, group]);
+  }, [nodes, setNodes, takeSnapshot]);
+
+  const applyAutoLayout = useCallback(() => {
+    const positions = computeLayeredLayout(nodes, edges, {
+      selectionOnly: layoutSelectionOnly,
+      keepPinned: layoutKeepPinned,
+    });
+    if (positions.size === 0) {
+      if (layoutSelectionOnly) alert('Yerleşim için önce node seçin.');
+      return;
+    }
+
+    takeSnapshot();
+    setNodes((nds) =>
+      nds.map((n) => {
+        const position = positions.get(n.id);
+        return position ? { ...n, position } : n;
+      })
+    );
+
+    setTimeout(() => {
+      rf.current?.fitView({ padding: 0.2 });
+    }, 100);
+  }, [nodes, edges, layoutSelectionOnly, layoutKeepPinned, setNodes, takeSnapshot]);
+
+  const simulationStartCandidates = useMemo(
+    () => visibleNodes.filter((n) => n.data.nodeType === 'start' || n.data.nodeType === 'box'),
+    [visibleNodes]
   );
 
+  const simulationDefaultStartId = useMemo(() => {
+    const selectedNode = simulationStartCandidates.find((n) => n.selected);
+    if (selectedNode) return selectedNode.id;
+    const startNode = simulationStartCandidates.find((n) => n.type === 'start');
+    if (startNode) return startNode.id;
+    const targets = new Set(edges.map((e) => e.target));
+    return simulationStartCandidates.find((n) => !targets.has(n.id))?.id ?? null;
+  }, [simulationStartCandidates, edges]);
+
+  const centerOnNode = useCallback((nodeId: string) => {
+    const node = nodes.find((n) => n.id === nodeId);
+    if (!node || isTemplateNode(node)) return;
+    const size = getNodeSize(node);
+    rf.current?.setCenter(node.position.x + size.width / 2, node.position.y + size.height / 2, {
+      zoom: rf.current.getZoom(),
+      duration: 300,
+    });
+  }, [nodes]);
+
+  const startSimulation = useCallback((nodeId: string) => {
+    setSimulationTrail([{ nodeId, via: 'start' }]);
+    centerOnNode(nodeId);
+  }, [centerOnNode]);
+
+  const chooseSimulationStep = useCallback((choice: SimulationChoice) => {
+    const next = advanceSimulation(simulationTrail, choice, nodes, edges);
+    setSimulationTrail(next);
+    centerOnNode(next[next.length - 1].nodeId);
+  }, [simulationTrail, nodes, edges, centerOnNode]);
+
+  const stepSimulationBack = useCallback(() => {
+    setSimulationTrail((trail) => (trail.length > 1 ? trail.slice(0, -1) : trail));
+  }, []);
+
+  const closeSimulation = useCallback(() => {
+    setIsSimulating(false);
+    setSimulationTrail([]);
+  }, []);
+
+  const exportSimulationTrail = useCallback(() => {
+    const jsonStr = JSON.stringify(buildTrailExport(simulationTrail, nodes), null, 2);
+    const blob = new Blob([jsonStr], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = 'simulation-trail.json';
+    a.click();
+
+    URL.revokeObjectURL(url);
+  }, [simulationTrail, nodes]);
+
+  const focusProblem = useCallback((problem: WorkflowProblem) => {
+    const node = nodes.find((n) => n.id === problem.nodeId);
+
+    setNodes((nds) => nds.map((n) => ({ ...n, selected: n.id === problem.nodeId })));
+    setEdges((eds) => eds.map((e) => ({ ...e, selected: e.id === problem.edgeId })));
+
+    if (node && !isTemplateNode(node)) {
+      const size = getNodeSize(node);
+      rf.current?.setCenter(node.position.x + size.width / 2, node.position.y + size.height / 2, {
+        zoom: 1.2,
+        duration: 400,
+      });
+    }
+  }, [nodes, setNodes, setEdges]);
+
+  // Last pointer position over the canvas (flow coordinates), used as the paste target
+  const pointerFlowPositionRef = useRef<XYPosition | null>(null);
+
+  const onCanvasMouseMove = useCallback((event: React.MouseEvent) => {
+    const position = rf.current?.screenToFlowPosition({ x: event.clientX, y: event.clientY }) ?? null;
+    pointerFlowPositionRef.current = position;
+    if (isCollabEnabled) updatePresence({ cursor: position });
+  }, [isCollabEnabled, updatePresence]);
+
+  const onCanvasMouseLeave = useCallback(() => {
+    pointerFlowPositionRef.current = null;
+    if (isCollabEnabled) updatePresence({ cursor: null });
+  }, [isCollabEnabled, updatePresence]);
+
+  const pasteSelection = useCallback((text: string, anchor: XYPosition): boolean => {
+    const pasted = pasteClipboardPayload(text, anchor);
+    if (!pasted) return false;
+
+    takeSnapshot();
+    setNodes((nds) => {
+      let result = [...nds.map((n) => (n.selected ? { ...n, selected: false } : n)), ...pasted.nodes];
+      if (activeGroupId) {
+        // Pasted groups keep their own members; everything else joins the opened group
+        const topLevel = pasted.nodes.filter((n) => !isGroupNode(n) && !findGroupOf(pasted.nodes, n.id));
+        result = addGroupMembers(result, activeGroupId, topLevel.map((n) => n.id));
+      }
+      // Pasted jump/land pairs get a color of their own so they don't look linked to the originals
+      pasted.nodes.filter((n) => n.data.nodeType === 'land').forEach((land) => {
+        const colorIndex = nextJumpLandColorIndex(result.filter((n) => n.id !== land.id));
+        result.forEach((n, i) => {
+          const isPair = n.id === land.id || (n.data.nodeType === 'jump' && (n.data as JumpData).landId === land.id);
+          if (isPair) result[i] = { ...n, data: { ...(n.data as JumpData | LandData), colorIndex } };
+        });
+      });
+      return result;
+    });
+    setEdges((eds) => [...eds.map((e) => (e.selected ? { ...e, selected: false } : e)), ...pasted.edges]);
+    if (pasted.unlinkedJumpIds.length) {
+      alert(`⚠️ ${pasted.unlinkedJumpIds.length} jump node, bağlı olduğu land olmadan kopyalandı. Bağlantıları kaldırıldı; yeni bir land seçin.`);
+    }
+    return true;
+  }, [activeGroupId, setNodes, setEdges, takeSnapshot]);
+
+  // Ctrl+C / Ctrl+V go through the copy/paste events so the payload reaches the
+  // system clipboard (and other tabs) without a clipboard permission prompt
+  useEffect(() => {
+    if (!isActive) return;
+    const canHandle = (event: Event) =>
+      !previewRevision && !isTypingTarget(event.target) && !window.getSelection()?.toString();
+
+    const onCopy = (event: ClipboardEvent) => {
+      if (!canHandle(event)) return;
+      const payload = buildClipboardPayload(nodes, edges);
+      if (!payload) return;
+      event.clipboardData?.setData('text/plain', payload);
+      event.preventDefault();
+    };
+
+    const onPaste = (event: ClipboardEvent) => {
+      if (!canHandle(event)) return;
+      const text = event.clipboardData?.getData('text/plain');
+      const anchor = pointerFlowPositionRef.current
+        ?? rf.current?.screenToFlowPosition({ x: window.innerWidth / 2, y: window.innerHeight / 2 });
+      if (text && anchor && pasteSelection(text, anchor)) event.preventDefault();
+    };
+
+    // Ctrl+D duplicates next to the original without touching the clipboard
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || event.key.toLowerCase() !== 'd' || !canHandle(event)) return;
+      event.preventDefault();
+      const payload = buildClipboardPayload(nodes, edges);
+      if (!payload) return;
+      const selected = nodes.filter((n) => n.selected && !isTemplateNode(n));
+      pasteSelection(payload, {
+        x: Math.min(...selected.map((n) => n.position.x)) + 40,
+        y: Math.min(...selected.map((n) => n.position.y)) + 40,
+      });
+    };
+
+    document.addEventListener('copy', onCopy);
+    document.addEventListener('paste', onPaste);
+    document.addEventListener('keydown', onKeyDown);
+    return () => {
+      document.removeEventListener('copy', onCopy);
+      document.removeEventListener('paste', onPaste);
+      document.removeEventListener('keydown', onKeyDown);
+    };
+  }, [isActive, previewRevision, nodes, edges, pasteSelection]);
+
+  // Screen center of this editor's canvas, in flow coordinates
+  const getCanvasCenter = useCallback((): XYPosition | undefined => {
+    const bounds = containerRef.current?.getBoundingClientRect();
+    if (!bounds) return undefined;
+    return rf.current?.screenToFlowPosition({ x: bounds.left + bounds.width / 2, y: bounds.top + bounds.height / 2 });
+  }, []);
+
+  const onNodeDragStart = useCallback(() => {
+    beginDrag();
+    setNodesBeforeDrag(nodes);
+  }, [beginDrag, nodes]);
+
+  const onNodeDrag = useCallback((event: React.MouseEvent) => {
+    if (onDragOverTab) onDragOverTab(findWorkflowTabAt(event.clientX, event.clientY));
+  }, [onDragOverTab]);
+
+  // Dropping a selection on another tab's header moves it there; with Ctrl/⌘ held it is copied.
+  // The nodes snap back and only leave this tab once the target has pasted them.
+  const onNodeDragStop = useCallback((event: React.MouseEvent) => {
+    setNodesBeforeDrag(null);
+    const targetId = onNodesDraggedToTab ? findWorkflowTabAt(event.clientX, event.clientY) : null;
+    onDragOverTab?.(null);
+    const payload = workflowId && targetId && targetId !== workflowId ? buildClipboardPayload(nodes, edges) : null;
+    if (!workflowId || !targetId || !payload) {
+      endDrag();
+      return;
+    }
+
+    cancelDrag();
+    onNodesDraggedToTab!({
+      sourceId: workflowId,
+      targetId,
+      payload,
+      movedNodeIds: event.ctrlKey || event.metaKey ? null : [...getClipboardSelectionIds(nodes)],
+    });
+  }, [onDragOverTab, onNodesDraggedToTab, workflowId, nodes, edges, endDrag, cancelDrag]);
+
+  // Nodes dropped on this tab land in the middle of the canvas once it has loaded
+  useEffect(() => {
+    if (!incomingNodes || !isActive || isLoading) return;
+    if (error || previewRevision) {
+      alert('❌ Node\'lar bu sekmeye eklenemedi: ' + (error ? 'iş akışı yüklenemedi.' : 'revizyon önizlemesi açık.'));
+      onIncomingNodesPasted?.(false);
+      return;
+    }
+    const anchor = getCanvasCenter();
+    if (!anchor) return;
+    const ok = pasteSelection(incomingNodes, anchor);
+    if (!ok) alert('❌ Node\'lar bu sekmeye eklenemedi.');
+    onIncomingNodesPasted?.(ok);
+  }, [incomingNodes, isActive, isLoading, error, previewRevision, getCanvasCenter, pasteSelection, onIncomingNodesPasted]);
+
+  useEffect(() => {
+    if (!nodesToRemove) return;
+    const movedIds = new Set(nodesToRemove);
+    takeSnapshot();
+    setNodes((nds) => nds.flatMap((n) => {
+      if (movedIds.has(n.id)) return [];
+      if (!isGroupNode(n)) return [n];
+      const groupData = n.data as GroupData;
+      if (!groupData.memberIds.some((id) => movedIds.has(id))) return [n];
+      return [{ ...n, data: { ...groupData, memberIds: groupData.memberIds.filter((id) => !movedIds.has(id)) } }];
+    }));
+    setEdges((eds) => eds.filter((e) => !movedIds.has(e.source) && !movedIds.has(e.target)));
+    onNodesRemoved?.();
+  }, [nodesToRemove, takeSnapshot, setNodes, setEdges, onNodesRemoved]);
+
+  const stepFindResult = useCallback((direction: 1 | -1) => {
+    const ids = findResult.matchIds;
+    if (!ids.length) return;
+    const next = activeFindIndex < 0
+      ? (direction === 1 ? 0 : ids.length - 1)
+      : (activeFindIndex + direction + ids.length) % ids.length;
+    setFindIndex(next);
+
+    const node = nodes.find((n) => n.id === ids[next]);
+    if (node) {
+      const size = getNodeSize(node);
+      rf.current?.setCenter(node.position.x + size.width / 2, node.position.y + size.height / 2, {
+        zoom: Math.max(rf.current.getZoom(), 1),
+        duration: 300,
+      });
+    }
+  }, [findResult, activeFindIndex, nodes]);
+
+  // Ctrl+F opens (or refocuses) the find bar instead of the browser search
+  useEffect(() => {
+    if (!isActive) return;
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || event.key.toLowerCase() !== 'f') return;
+      event.preventDefault();
+      setIsFindOpen(true);
+      setTimeout(() => findInputRef.current?.select(), 0);
+    };
+    document.addEventListener('keydown', onKeyDown);
+    return () => document.removeEventListener('keydown', onKeyDown);
+  }, [isActive]);
+
+  const focusDiffItem = useCallback((item: WorkflowDiffItem) => {
+    const node = item.nodeId && isDiffGhostId(item.nodeId)
+      ? workflowDiff?.removedNodes.find((n) => n.id === item.nodeId)
+      : nodes.find((n) => n.id === item.nodeId);
+
+    setNodes((nds) => nds.map((n) => ({ ...n, selected: n.id === item.nodeId })));
+    setEdges((eds) => eds.map((e) => ({ ...e, selected: e.id === item.edgeId })));
+
+    if (node && !isTemplateNode(node)) {
+      const size = getNodeSize(node);
+      rf.current?.setCenter(node.position.x + size.width / 2, node.position.y + size.height / 2, {
+        zoom: 1.2,
+        duration: 400,
+      });
+    }
+  }, [nodes, workflowDiff, setNodes, setEdges]);
+
+  // Pin state follows the first selected node: pin all if it is unpinned, otherwise unpin all
+  const togglePinSelected = useCallback(() => {
+    const selected = nodes.filter((n) => n.selected && !isTemplateNode(n));
+    if (!selected.length) return;
+    const pinned = !selected[0].data.pinned;
+
+    takeSnapshot();
+    setNodes((nds) =>
+      nds.map((n) =>
+        n.selected && !isTemplateNode(n)
+          ? { ...n, data: { ...n.data, pinned: pinned || undefined } }
+          : n
+      )
+    );
+  }, [nodes, setNodes, takeSnapshot]);
+
   const closeModal = useCallback(() => {
     setIsModalOpen(false);
     setEditingNodeId(null);
@@ -897,6 +2166,7 @@ export default function App() {
     const adTrimmed = formAd.trim() || 'ISIMSIZ';
     const aciklamaVal = formAciklama;
 
+    takeSnapshot();
     setNodes((nds) =>
       nds.map((n) => {
         if (n.id !== editingNodeId) return n;
@@ -923,11 +2193,12 @@ export default function App() {
     );
 
     closeModal();
-  }, [editingNodeId, formAd, formAciklama, setNodes, closeModal]);
+  }, [editingNodeId, formAd, formAciklama, setNodes, closeModal, takeSnapshot]);
 
   const saveJumpLandNode = useCallback(() => {
     if (!editingNodeId) return;
 
+    takeSnapshot();
     setNodes((nds) => {
       return nds.map((n) => {
         if (n.id === editingNodeId) {
@@ -939,6 +2210,7 @@ export default function App() {
                 nodeType: 'jump' as const,
                 landId: selectedLandId || undefined,
                 colorIndex: jumpLandColorIndex,
+                pinned: n.data.pinned,
               },
             };
           } else if (n.data.nodeType === 'land') {
@@ -948,6 +2220,7 @@ export default function App() {
               data: {
                 nodeType: 'land' as const,
                 colorIndex: jumpLandColorIndex,
+                pinned: n.data.pinned,
               },
             };
           }
@@ -957,17 +2230,80 @@ export default function App() {
     });
 
     closeJumpLandModal();
-  }, [editingNodeId, selectedLandId, jumpLandColorIndex, setNodes, closeJumpLandModal]);
+  }, [editingNodeId, selectedLandId, jumpLandColorIndex, setNodes, closeJumpLandModal, takeSnapshot]);
 
-  const onModalKeyDown = useCallback(
-    (e: React.KeyboardEvent) => {
-      if (e.key === 'Escape') closeModal();
-      if (e.key === 'Enter') saveNode();
-    },
-    [closeModal, saveNode]
-  );
+  const isTerminalModalOpen = editingNodeType === 'start' || editingNodeType === 'end';
 
-  const onJumpLandModalKeyDown = useCallback(
+  const closeNodeSettingsModal = useCallback(() => {
+    setEditingNodeId(null);
+    setEditingNodeType(null);
+  }, []);
+
+  const saveTerminalNode = useCallback(() => {
+    if (!editingNodeId) return;
+    const name = formTerminalName.trim() || undefined;
+
+    takeSnapshot();
+    setNodes((nds) =>
+      nds.map((n) => {
+        if (n.id !== editingNodeId) return n;
+        if (n.data.nodeType === 'start') return { ...n, data: { ...n.data, label: name } };
+        if (n.data.nodeType === 'end') return { ...n, data: { ...n.data, outcomeName: name } };
+        return n;
+      })
+    );
+
+    closeNodeSettingsModal();
+  }, [editingNodeId, formTerminalName, setNodes, closeNodeSettingsModal, takeSnapshot]);
+
+  const onTerminalModalKeyDown = useCallback(
+    (e: React.KeyboardEvent) => {
+      if (e.key === 'Escape') closeNodeSettingsModal();
+      if (e.key === 'Enter') saveTerminalNode();
+    },
+    [closeNodeSettingsModal, saveTerminalNode]
+  );
+
+  const saveGatewayNode = useCallback(() => {
+    if (!editingNodeId) return;
+
+    takeSnapshot();
+    setNodes((nds) =>
+      nds.map((n) =>
+        n.id === editingNodeId && n.data.nodeType === 'gateway'
+          ? { ...n, data: { ...n.data, kind: formGatewayKind, mode: formGatewayMode } }
+          : n
+      )
+    );
+
+    closeNodeSettingsModal();
+  }, [editingNodeId, formGatewayKind, formGatewayMode, setNodes, closeNodeSettingsModal, takeSnapshot]);
+
+  const onGatewayModalKeyDown = useCallback(
+    (e: React.KeyboardEvent) => {
+      if (e.key === 'Escape') closeNodeSettingsModal();
+      if (e.key === 'Enter') saveGatewayNode();
+    },
+    [closeNodeSettingsModal, saveGatewayNode]
+  );
+
+  const onModalKeyDown = useCallback(
+    (e: React.KeyboardEvent) => {
+      if (e.key === 'Escape') closeModal();
+      if (e.key === 'Enter') saveNode();
+    },
+    [closeModal, saveNode]
+  );
+
+  const onEdgeModalKeyDown = useCallback(
+    (e: React.KeyboardEvent) => {
+      if (e.key === 'Escape') closeEdgeModal();
+      if (e.key === 'Enter') saveEdge();
+    },
+    [closeEdgeModal, saveEdge]
+  );
+
+  const onJumpLandModalKeyDown = useCallback(
     (e: React.KeyboardEvent) => {
       if (e.key === 'Escape') closeJumpLandModal();
       if (e.key === 'Enter') saveJumpLandNode();
@@ -975,13 +2311,26 @@ export default function App() {
     [closeJumpLandModal, saveJumpLandNode]
   );
 
+  // Also shown over the error and no-token pages, so a draft survives a failed load
+  const draftRestoreDialog = draftOffer && (
+    <DraftRestoreDialog
+      savedAt={draftOffer.savedAt}
+      baseLabel={serverSnapshot ? 'Sunucudaki kopya' : isLoadFailed ? 'Boş kanvas' : 'Mevcut kanvas'}
+      items={draftOffer.items}
+      movedCount={draftOffer.movedCount}
+      discardLabel={isLoadFailed ? 'Şimdi Değil' : undefined}
+      onRestore={restoreDraft}
+      onDiscard={dropDraft}
+    />
+  );
+
   // Show unauthorized page if no token - but allow static data or new start
   if (isUnauthorized && !nodes.length) {
     return (
       <div
         style={{
-          width: '100vw',
-          height: '100vh',
+          width: '100%',
+          height: '100%',
           display: 'flex',
           alignItems: 'center',
           justifyContent: 'center',
@@ -991,6 +2340,7 @@ export default function App() {
           gap: 20,
         }}
       >
+        {draftRestoreDialog}
         <div style={{ fontSize: 72 }}>🔒</div>
         <div style={{ fontSize: 28, fontWeight: 700 }}>Yetkisiz Erişim</div>
         <div style={{ fontSize: 16, color: '#888', textAlign: 'center', maxWidth: 400, marginBottom: 8 }}>
@@ -1009,6 +2359,7 @@ export default function App() {
               setNodes([]);
               setEdges([]);
               setDataSource(null);
+              clearHistory();
             }}
             style={{
               padding: '12px 24px',
@@ -1047,8 +2398,8 @@ export default function App() {
     return (
       <div
         style={{
-          width: '100vw',
-          height: '100vh',
+          width: '100%',
+          height: '100%',
           display: 'flex',
           alignItems: 'center',
           justifyContent: 'center',
@@ -1078,8 +2429,8 @@ export default function App() {
     return (
       <div
         style={{
-          width: '100vw',
-          height: '100vh',
+          width: '100%',
+          height: '100%',
           display: 'flex',
           alignItems: 'center',
           justifyContent: 'center',
@@ -1089,6 +2440,7 @@ export default function App() {
           gap: 16,
         }}
       >
+        {draftRestoreDialog}
         <div style={{ fontSize: 48 }}>⚠️</div>
         <div style={{ fontSize: 18, color: '#ff5252' }}>Hata: {error}</div>
         <div style={{ fontSize: 14, color: '#aaa', marginTop: 8 }}>
@@ -1110,6 +2462,23 @@ export default function App() {
           >
             Dinamik (Tekrar Dene)
           </button>
+          {onOpenBrowser && (
+            <button
+              onClick={onOpenBrowser}
+              style={{
+                padding: '12px 24px',
+                borderRadius: 8,
+                border: '2px solid #4fc3f7',
+                background: 'transparent',
+                color: '#4fc3f7',
+                fontSize: 14,
+                fontWeight: 600,
+                cursor: 'pointer',
+              }}
+            >
+              📂 İş Akışı Listesi
+            </button>
+          )}
           <button
             onClick={() => {
               setError(null);
@@ -1149,19 +2518,35 @@ export default function App() {
   }
 
   return (
-    <div style={{ width: '100vw', height: '100vh' }} onClick={closeContextMenu}>
+    <div ref={containerRef} style={{ width: '100%', height: '100%' }} onClick={closeContextMenu}>
       <ReactFlow
         onInit={onInit}
         nodeTypes={nodeTypes}
-        nodes={visibleNodes}
-        edges={edges}
-        onNodesChange={onNodesChange}
-        onEdgesChange={onEdgesChange}
+        edgeTypes={edgeTypes}
+        nodes={previewRevision ? previewRevision.nodes.filter(n => !isTemplateNode(n)) : searchedNodes}
+        edges={previewRevision ? previewRevision.edges : searchedEdges}
+        onNodesChange={previewRevision ? undefined : onNodesChange}
+        onEdgesChange={previewRevision ? undefined : onEdgesChange}
+        nodesDraggable={!previewRevision}
+        nodesConnectable={!previewRevision}
+        elementsSelectable={!previewRevision}
         onNodesDelete={onNodesDelete}
+        onEdgesDelete={onEdgesDelete}
+        deleteKeyCode={isActive ? 'Backspace' : null}
+        onNodeDragStart={onNodeDragStart}
+        onNodeDrag={onNodeDrag}
+        onNodeDragStop={onNodeDragStop}
+        onSelectionDragStart={onNodeDragStart}
+        onSelectionDrag={onNodeDrag}
+        onSelectionDragStop={onNodeDragStop}
         onConnect={onConnect}
-        onPaneContextMenu={onPaneContextMenu}
-        onNodeDoubleClick={onNodeDoubleClick}
-        onEdgeDoubleClick={onEdgeDoubleClick}
+        onPaneContextMenu={previewRevision ? (e) => e.preventDefault() : onPaneContextMenu}
+        onDragOver={previewRevision ? undefined : onCanvasDragOver}
+        onDrop={previewRevision ? undefined : onCanvasDrop}
+        onMouseMove={onCanvasMouseMove}
+        onMouseLeave={onCanvasMouseLeave}
+        onNodeDoubleClick={previewRevision ? undefined : onNodeDoubleClick}
+        onEdgeDoubleClick={previewRevision ? undefined : onEdgeDoubleClick}
         selectionOnDrag
         selectionMode={SelectionMode.Partial}
         panOnDrag={[1, 2]}
@@ -1179,6 +2564,10 @@ export default function App() {
               const colorSet = JUMP_LAND_COLORS[landData.colorIndex % JUMP_LAND_COLORS.length];
               return colorSet.land;
             }
+            if (node.type === 'gateway') return (node.data as GatewayData).kind === 'and' ? '#7e57c2' : '#ffa000';
+            if (node.type === 'group') return 'rgba(79, 195, 247, 0.3)';
+            if (node.type === 'start') return '#43a047';
+            if (node.type === 'end') return '#e53935';
             return '#4fc3f7';
           }}
           nodeStrokeColor="#0288d1"
@@ -1194,6 +2583,422 @@ export default function App() {
         />
         <Controls />
         <Background />
+        <Panel position="top-left">
+          <div
+            onClick={(e) => e.stopPropagation()}
+            style={{
+              display: 'flex',
+              gap: 4,
+              padding: 4,
+              background: '#1a1a2e',
+              border: '1px solid #4fc3f7',
+              borderRadius: 8,
+              boxShadow: '0 4px 16px rgba(0,0,0,0.4)',
+            }}
+          >
+            {onOpenBrowser && (
+              <>
+                <button
+                  onClick={onOpenBrowser}
+                  title="İş akışı listesine dön"
+                  style={{
+                    maxWidth: 220,
+                    padding: '6px 12px',
+                    background: 'transparent',
+                    border: 'none',
+                    color: '#fff',
+                    fontSize: 13,
+                    fontWeight: 600,
+                    cursor: 'pointer',
+                    overflow: 'hidden',
+                    textOverflow: 'ellipsis',
+                    whiteSpace: 'nowrap',
+                  }}
+                >
+                  📂 {workflowName || 'İş Akışları'}
+                </button>
+                <div style={{ width: 1, background: '#4fc3f7', opacity: 0.3 }} />
+              </>
+            )}
+            <button
+              onClick={undo}
+              disabled={!isUndoEnabled}
+              title="Geri Al (Ctrl+Z)"
+              style={{
+                padding: '6px 12px',
+                background: 'transparent',
+                border: 'none',
+                color: isUndoEnabled ? '#fff' : '#555',
+                fontSize: 13,
+                cursor: isUndoEnabled ? 'pointer' : 'default',
+              }}
+            >
+              ↶ Geri Al
+            </button>
+            <button
+              onClick={redo}
+              disabled={!isRedoEnabled}
+              title="Yinele (Ctrl+Shift+Z)"
+              style={{
+                padding: '6px 12px',
+                background: 'transparent',
+                border: 'none',
+                color: isRedoEnabled ? '#fff' : '#555',
+                fontSize: 13,
+                cursor: isRedoEnabled ? 'pointer' : 'default',
+              }}
+            >
+              ↷ Yinele
+            </button>
+            <div style={{ width: 1, background: '#4fc3f7', opacity: 0.3 }} />
+            <button
+              onClick={groupSelection}
+              title="Seçili node'ları adlandırılmış bir grupta topla"
+              style={{
+                padding: '6px 12px',
+                background: 'transparent',
+                border: 'none',
+                color: '#fff',
+                fontSize: 13,
+                cursor: 'pointer',
+              }}
+            >
+              🗂 Grupla
+            </button>
+            <button
+              onClick={applyAutoLayout}
+              title="Soldan sağa katmanlı yerleşim"
+              style={{
+                padding: '6px 12px',
+                background: 'transparent',
+                border: 'none',
+                color: '#fff',
+                fontSize: 13,
+                cursor: 'pointer',
+              }}
+            >
+              ⇶ Otomatik Yerleşim
+            </button>
+            <label style={{ display: 'flex', alignItems: 'center', gap: 4, fontSize: 12, color: '#ccc' }}>
+              <input
+                type="checkbox"
+                checked={layoutSelectionOnly}
+                onChange={(e) => setLayoutSelectionOnly(e.target.checked)}
+              />
+              Sadece seçili
+            </label>
+            <label style={{ display: 'flex', alignItems: 'center', gap: 4, fontSize: 12, color: '#ccc' }}>
+              <input
+                type="checkbox"
+                checked={layoutKeepPinned}
+                onChange={(e) => setLayoutKeepPinned(e.target.checked)}
+              />
+              Sabitleri koru
+            </label>
+            <button
+              onClick={togglePinSelected}
+              title="Seçili node'ları sabitle / sabitlemeyi kaldır"
+              style={{
+                padding: '6px 12px',
+                background: 'transparent',
+                border: 'none',
+                color: '#fff',
+                fontSize: 13,
+                cursor: 'pointer',
+              }}
+            >
+              📌 Sabitle
+            </button>
+            <div style={{ width: 1, background: '#4fc3f7', opacity: 0.3 }} />
+            <button
+              onClick={() => setIsValidationPanelOpen((open) => !open)}
+              title="Doğrulama panelini aç/kapat"
+              style={{
+                padding: '6px 12px',
+                background: isValidationPanelOpen ? '#2a2a4e' : 'transparent',
+                border: 'none',
+                color: problemErrorCount > 0 ? '#ff5252' : problems.length > 0 ? '#ffb74d' : '#81c784',
+                fontSize: 13,
+                cursor: 'pointer',
+              }}
+            >
+              {problemErrorCount > 0 ? '⛔' : problems.length > 0 ? '⚠️' : '✅'} Doğrulama ({problems.length})
+            </button>
+            <button
+              onClick={() => (isSimulating ? closeSimulation() : setIsSimulating(true))}
+              title="Seçilen node'dan başlayarak akışı adım adım izle"
+              style={{
+                padding: '6px 12px',
+                background: isSimulating ? '#2a2a4e' : 'transparent',
+                border: 'none',
+                color: isSimulating ? '#ffeb3b' : '#fff',
+                fontSize: 13,
+                cursor: 'pointer',
+              }}
+            >
+              ▶ Simüle Et
+            </button>
+            <button
+              onClick={toggleHistoryPanel}
+              title="Sunucu kayıt geçmişi"
+              style={{
+                padding: '6px 12px',
+                background: isHistoryPanelOpen ? '#2a2a4e' : 'transparent',
+                border: 'none',
+                color: '#fff',
+                fontSize: 13,
+                cursor: 'pointer',
+              }}
+            >
+              🕘 Geçmiş
+            </button>
+            <button
+              onClick={() => setIsDiffPanelOpen((open) => !open)}
+              title="Kanvası bir revizyon, dosya veya son sunucu haliyle karşılaştır"
+              style={{
+                padding: '6px 12px',
+                background: isDiffPanelOpen ? '#2a2a4e' : 'transparent',
+                border: 'none',
+                color: diffBase ? '#ffa726' : '#fff',
+                fontSize: 13,
+                cursor: 'pointer',
+              }}
+            >
+              ⇄ Karşılaştır
+            </button>
+            <button
+              onClick={() => setIsPaletteOpen((open) => !open)}
+              title="Aranabilir node paleti"
+              style={{
+                padding: '6px 12px',
+                background: isPaletteOpen ? '#2a2a4e' : 'transparent',
+                border: 'none',
+                color: '#fff',
+                fontSize: 13,
+                cursor: 'pointer',
+              }}
+            >
+              🧩 Palet
+            </button>
+            <button
+              onClick={() => setIsTemplatePanelOpen((open) => !open)}
+              title="İşlem türü şablonlarını yönet"
+              style={{
+                padding: '6px 12px',
+                background: isTemplatePanelOpen ? '#2a2a4e' : 'transparent',
+                border: 'none',
+                color: '#fff',
+                fontSize: 13,
+                cursor: 'pointer',
+              }}
+            >
+              📚 Şablonlar
+            </button>
+            <button
+              onClick={() => setIsCollabEnabled((on) => !on)}
+              title="Aynı iş akışını diğer kullanıcılarla canlı düzenle"
+              style={{
+                padding: '6px 12px',
+                background: isCollabEnabled ? '#2a2a4e' : 'transparent',
+                border: 'none',
+                color: collabStatus === 'connected' ? '#81c784' : '#fff',
+                fontSize: 13,
+                cursor: 'pointer',
+              }}
+            >
+              👥 Ortak{isCollabEnabled && collabPeers.length > 0 ? ` (${collabPeers.length + 1})` : ''}
+            </button>
+          </div>
+        </Panel>
+        {isPaletteOpen && !previewRevision && (
+          // Second top-left panel, pushed below the toolbar
+          <Panel position="top-left" style={{ marginTop: 64 }}>
+            <NodePalette
+              templates={templates}
+              recentTemplateIds={recentTemplateIds}
+              onInsert={addPaletteItemAtCenter}
+              onClose={() => setIsPaletteOpen(false)}
+            />
+          </Panel>
+        )}
+        {isCollabEnabled && <RemoteCursors peers={collabPeers} nodes={nodes} />}
+        {isSimulating && (
+          <Panel position="bottom-center">
+            <SimulationPanel
+              nodes={nodes}
+              startCandidates={simulationStartCandidates}
+              defaultStartId={simulationDefaultStartId}
+              trail={simulationTrail}
+              choices={simulationChoices}
+              onStart={startSimulation}
+              onChoose={chooseSimulationStep}
+              onBack={stepSimulationBack}
+              onExport={exportSimulationTrail}
+              onClose={closeSimulation}
+            />
+          </Panel>
+        )}
+        {(isValidationPanelOpen || isHistoryPanelOpen || isDiffPanelOpen || isCollabEnabled || isTemplatePanelOpen) && (
+          <Panel position="top-right">
+            <div style={{ display: 'flex', flexDirection: 'column', gap: 8 }}>
+              {isValidationPanelOpen && (
+                <ValidationPanel
+                  problems={problems}
+                  blockSaveOnErrors={blockSaveOnErrors}
+                  onBlockSaveOnErrorsChange={setBlockSaveOnErrors}
+                  onSelectProblem={focusProblem}
+                  onClose={() => setIsValidationPanelOpen(false)}
+                />
+              )}
+              {isHistoryPanelOpen && (
+                <RevisionHistoryPanel
+                  revisions={revisions}
+                  isLoading={revisionsLoading}
+                  error={revisionsError}
+                  previewRevisionNumber={previewRevision?.number ?? null}
+                  onRefresh={loadRevisions}
+                  onPreview={previewRevisionOnCanvas}
+                  onCompare={compareWithRevision}
+                  onRestore={restoreRevisionFromServer}
+                  onClose={() => {
+                    setIsHistoryPanelOpen(false);
+                    setPreviewRevision(null);
+                  }}
+                />
+              )}
+              {isCollabEnabled && (
+                <CollabPanel
+                  status={collabStatus}
+                  self={collabSelf}
+                  peers={collabPeers}
+                  nodes={nodes}
+                  onRename={renameSelf}
+                  onClose={() => setIsCollabEnabled(false)}
+                />
+              )}
+              {isTemplatePanelOpen && (
+                <TemplateLibraryPanel
+                  templates={templates}
+                  usage={templateUsage}
+                  onCreate={createTemplate}
+                  onUpdate={updateTemplate}
+                  onDelete={deleteTemplate}
+                  onClose={() => setIsTemplatePanelOpen(false)}
+                />
+              )}
+              {isDiffPanelOpen && (
+                <DiffPanel
+                  baseLabel={diffBase?.label ?? null}
+                  items={workflowDiff?.items ?? []}
+                  canCompareWithServer={Boolean(serverSnapshot)}
+                  onCompareWithServer={compareWithServer}
+                  onCompareWithFile={() => compareFileInputRef.current?.click()}
+                  onSelectItem={focusDiffItem}
+                  onClear={() => setDiffBase(null)}
+                  onClose={() => {
+                    setIsDiffPanelOpen(false);
+                    setDiffBase(null);
+                  }}
+                />
+              )}
+            </div>
+          </Panel>
+        )}
+        {(isFindOpen || openGroup) && !previewRevision && (
+          <Panel position="top-center">
+            <div style={{ display: 'flex', flexDirection: 'column', alignItems: 'center', gap: 8 }}>
+              {openGroup && (
+                <div
+                  onClick={(e) => e.stopPropagation()}
+                  style={{
+                    display: 'flex',
+                    alignItems: 'center',
+                    gap: 8,
+                    padding: '6px 12px',
+                    background: '#1a1a2e',
+                    border: '1px solid #4fc3f7',
+                    borderRadius: 8,
+                    boxShadow: '0 4px 16px rgba(0,0,0,0.4)',
+                    color: '#fff',
+                    fontSize: 13,
+                  }}
+                >
+                  <button
+                    onClick={closeGroupWorkflow}
+                    title="Ana akışa dön"
+                    style={{ padding: 0, background: 'transparent', border: 'none', color: '#4fc3f7', fontSize: 13, cursor: 'pointer' }}
+                  >
+                    ← Ana akış
+                  </button>
+                  <span style={{ color: '#888' }}>›</span>
+                  <span style={{ fontWeight: 700 }}>🗂 {(openGroup.data as GroupData).label}</span>
+                </div>
+              )}
+              {isFindOpen && (
+                <FindBar
+                  inputRef={findInputRef}
+                  query={findQuery}
+                  isRegex={findIsRegex}
+                  linkedLandId={findLandId}
+                  lands={getLandNodesWithLabels()}
+                  matchCount={findResult.matchIds.length}
+                  activeIndex={activeFindIndex}
+                  error={findResult.error}
+                  onQueryChange={(query) => {
+                    setFindQuery(query);
+                    setFindIndex(-1);
+                  }}
+                  onRegexChange={(isRegex) => {
+                    setFindIsRegex(isRegex);
+                    setFindIndex(-1);
+                  }}
+                  onLinkedLandChange={(landId) => {
+                    setFindLandId(landId);
+                    setFindIndex(-1);
+                  }}
+                  onStep={stepFindResult}
+                  onClose={() => {
+                    setIsFindOpen(false);
+                    setFindIndex(-1);
+                  }}
+                />
+              )}
+            </div>
+          </Panel>
+        )}
+        {previewRevision && (
+          <Panel position="top-center">
+            <div
+              onClick={(e) => e.stopPropagation()}
+              style={{
+                display: 'flex',
+                alignItems: 'center',
+                gap: 10,
+                padding: '8px 12px',
+                background: '#ff9800',
+                color: '#1a1a2e',
+                borderRadius: 8,
+                fontSize: 13,
+                fontWeight: 600,
+                boxShadow: '0 4px 16px rgba(0,0,0,0.4)',
+              }}
+            >
+              👁 Revizyon #{previewRevision.number} önizleniyor (salt okunur)
+              <button
+                onClick={() => restoreRevisionFromServer(previewRevision.number)}
+                style={{ padding: '4px 10px', borderRadius: 6, border: 'none', background: '#1a1a2e', color: '#fff', cursor: 'pointer' }}
+              >
+                ↺ Geri Yükle
+              </button>
+              <button
+                onClick={() => setPreviewRevision(null)}
+                style={{ padding: '4px 10px', borderRadius: 6, border: '1px solid #1a1a2e', background: 'transparent', color: '#1a1a2e', cursor: 'pointer' }}
+              >
+                Önizlemeyi Kapat
+              </button>
+            </div>
+          </Panel>
+        )}
       </ReactFlow>
 
       {isModalOpen && (
@@ -1226,6 +3031,14 @@ export default function App() {
             <div style={{ fontSize: 18, fontWeight: 700, marginBottom: 12 }}>
               İşlem Tür
             </div>
+            {collabPeers.some((peer) => editingNodeId && peer.editingNodeId === editingNodeId) && (
+              <div style={{ marginBottom: 12, fontSize: 12, color: '#ffb74d' }}>
+                ✎ Bu node'u şu anda düzenleyenler:{' '}
+                {collabPeers.filter((peer) => peer.editingNodeId === editingNodeId).map((peer) => (
+                  <span key={peer.id} style={{ color: peer.color, fontWeight: 600 }}>{peer.name} </span>
+                ))}
+              </div>
+            )}
 
             <div style={{ display: 'flex', flexDirection: 'column', gap: 12 }}>
               <label style={{ display: 'flex', flexDirection: 'column', gap: 6 }}>
@@ -1265,28 +3078,402 @@ export default function App() {
                   style={{
                     padding: '10px 12px',
                     borderRadius: 8,
-                    border: '1px solid #999',
-                    background: '#e0e0e0',
-                    color: '#333',
-                    cursor: 'pointer',
+                    border: '1px solid #999',
+                    background: '#e0e0e0',
+                    color: '#333',
+                    cursor: 'pointer',
+                  }}
+                >
+                  İptal
+                </button>
+
+                <button
+                  onClick={saveNode}
+                  style={{
+                    padding: '10px 12px',
+                    borderRadius: 8,
+                    border: '1px solid #333',
+                    background: '#333',
+                    color: '#fff',
+                    cursor: 'pointer',
+                  }}
+                >
+                  Kaydet
+                </button>
+              </div>
+
+              <div style={{ fontSize: 12, opacity: 0.7 }}>İpucu: Enter = Kaydet, Esc = Kapat</div>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {isTerminalModalOpen && (
+        <div
+          onClick={closeNodeSettingsModal}
+          style={{
+            position: 'fixed',
+            inset: 0,
+            background: 'rgba(0,0,0,0.45)',
+            display: 'flex',
+            alignItems: 'center',
+            justifyContent: 'center',
+            padding: 16,
+            zIndex: 9999,
+          }}
+        >
+          <div
+            onClick={(e) => e.stopPropagation()}
+            onKeyDown={onTerminalModalKeyDown}
+            tabIndex={-1}
+            style={{
+              width: 400,
+              maxWidth: '100%',
+              background: editingNodeType === 'start' ? '#43a047' : '#e53935',
+              borderRadius: 12,
+              padding: 16,
+              boxShadow: '0 10px 30px rgba(0,0,0,0.25)',
+              color: '#fff',
+            }}
+          >
+            <div style={{ fontSize: 18, fontWeight: 700, marginBottom: 12 }}>
+              {editingNodeType === 'start' ? '🟢 Başlangıç' : '🔴 Bitiş'}
+            </div>
+
+            <div style={{ display: 'flex', flexDirection: 'column', gap: 12 }}>
+              <label style={{ display: 'flex', flexDirection: 'column', gap: 6 }}>
+                <span style={{ fontSize: 12, fontWeight: 600 }}>
+                  {editingNodeType === 'start' ? 'Ad' : 'Sonuç adı'}
+                </span>
+                <input
+                  autoFocus
+                  value={formTerminalName}
+                  onChange={(e) => setFormTerminalName(e.target.value)}
+                  placeholder={editingNodeType === 'start' ? 'Örn: Başvuru' : 'Örn: ONAYLANDI'}
+                  style={{
+                    padding: '10px 12px',
+                    borderRadius: 8,
+                    border: '1px solid #ccc',
+                    outline: 'none',
+                  }}
+                />
+              </label>
+
+              <div style={{ display: 'flex', gap: 8, justifyContent: 'flex-end', marginTop: 4 }}>
+                <button
+                  onClick={closeNodeSettingsModal}
+                  style={{
+                    padding: '10px 12px',
+                    borderRadius: 8,
+                    border: '1px solid rgba(255,255,255,0.5)',
+                    background: 'rgba(255,255,255,0.2)',
+                    color: '#fff',
+                    cursor: 'pointer',
+                  }}
+                >
+                  İptal
+                </button>
+
+                <button
+                  onClick={saveTerminalNode}
+                  style={{
+                    padding: '10px 12px',
+                    borderRadius: 8,
+                    border: '1px solid #333',
+                    background: '#333',
+                    color: '#fff',
+                    cursor: 'pointer',
+                  }}
+                >
+                  Kaydet
+                </button>
+              </div>
+
+              <div style={{ fontSize: 12, opacity: 0.8 }}>İpucu: Enter = Kaydet, Esc = Kapat</div>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {editingNodeType === 'gateway' && (
+        <div
+          onClick={closeNodeSettingsModal}
+          style={{
+            position: 'fixed',
+            inset: 0,
+            background: 'rgba(0,0,0,0.45)',
+            display: 'flex',
+            alignItems: 'center',
+            justifyContent: 'center',
+            padding: 16,
+            zIndex: 9999,
+          }}
+        >
+          <div
+            onClick={(e) => e.stopPropagation()}
+            onKeyDown={onGatewayModalKeyDown}
+            tabIndex={-1}
+            style={{
+              width: 400,
+              maxWidth: '100%',
+              background: formGatewayKind === 'and' ? '#7e57c2' : '#ffa000',
+              borderRadius: 12,
+              padding: 16,
+              boxShadow: '0 10px 30px rgba(0,0,0,0.25)',
+              color: '#fff',
+            }}
+          >
+            <div style={{ fontSize: 18, fontWeight: 700, marginBottom: 12 }}>
+              ◆ Geçit
+            </div>
+
+            <div style={{ display: 'flex', flexDirection: 'column', gap: 12 }}>
+              <label style={{ display: 'flex', flexDirection: 'column', gap: 6 }}>
+                <span style={{ fontSize: 12, fontWeight: 600 }}>Tür</span>
+                <select
+                  autoFocus
+                  value={formGatewayKind}
+                  onChange={(e) => setFormGatewayKind(e.target.value as GatewayKind)}
+                  style={{
+                    padding: '10px 12px',
+                    borderRadius: 8,
+                    border: '1px solid #ccc',
+                    outline: 'none',
+                    fontSize: 14,
+                  }}
+                >
+                  <option value="xor">XOR - tek dal (özel)</option>
+                  <option value="and">AND - tüm dallar (paralel)</option>
+                </select>
+              </label>
+
+              <label style={{ display: 'flex', flexDirection: 'column', gap: 6 }}>
+                <span style={{ fontSize: 12, fontWeight: 600 }}>Yön</span>
+                <select
+                  value={formGatewayMode}
+                  onChange={(e) => setFormGatewayMode(e.target.value as GatewayMode)}
+                  style={{
+                    padding: '10px 12px',
+                    borderRadius: 8,
+                    border: '1px solid #ccc',
+                    outline: 'none',
+                    fontSize: 14,
+                  }}
+                >
+                  <option value="split">Ayrılma (split)</option>
+                  <option value="join">Birleşme (join)</option>
+                </select>
+              </label>
+
+              <div style={{ display: 'flex', gap: 8, justifyContent: 'flex-end', marginTop: 4 }}>
+                <button
+                  onClick={closeNodeSettingsModal}
+                  style={{
+                    padding: '10px 12px',
+                    borderRadius: 8,
+                    border: '1px solid rgba(255,255,255,0.5)',
+                    background: 'rgba(255,255,255,0.2)',
+                    color: '#fff',
+                    cursor: 'pointer',
+                  }}
+                >
+                  İptal
+                </button>
+
+                <button
+                  onClick={saveGatewayNode}
+                  style={{
+                    padding: '10px 12px',
+                    borderRadius: 8,
+                    border: '1px solid #333',
+                    background: '#333',
+                    color: '#fff',
+                    cursor: 'pointer',
+                  }}
+                >
+                  Kaydet
+                </button>
+              </div>
+
+              <div style={{ fontSize: 12, opacity: 0.8 }}>İpucu: Enter = Kaydet, Esc = Kapat</div>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {transitionImportSheets && (
+        <TransitionImportDialog
+          sheets={transitionImportSheets}
+          existingTemplateNames={existingTemplateNames}
+          onImport={applyTransitionImport}
+          onClose={() => setTransitionImportSheets(null)}
+        />
+      )}
+
+      {importErrors && (
+        <ImportErrorDialog
+          fileName={importErrors.fileName}
+          issues={importErrors.issues}
+          onClose={() => setImportErrors(null)}
+        />
+      )}
+
+      {isImageExportOpen && (
+        <ImageExportDialog
+          hasSelection={searchedNodes.some((n) => n.selected)}
+          defaultTitle={workflowName || 'İş Akışı'}
+          onExport={exportImage}
+          onClose={() => setIsImageExportOpen(false)}
+        />
+      )}
+
+      {draftRestoreDialog}
+
+      {saveConflict && (
+        <SaveConflictDialog
+          serverVersion={saveConflict.version}
+          conflicts={saveConflictChanges?.conflicts ?? []}
+          mineOnly={saveConflictChanges?.mineOnly ?? []}
+          theirsOnly={saveConflictChanges?.theirsOnly ?? []}
+          hasBase={Boolean(saveConflictChanges)}
+          onReload={reloadConflictingState}
+          onForceOverwrite={forceOverwriteConflict}
+          onCompareOnCanvas={compareConflictOnCanvas}
+          onClose={() => setSaveConflict(null)}
+        />
+      )}
+
+      {editingEdgeId && (
+        <div
+          onClick={closeEdgeModal}
+          style={{
+            position: 'fixed',
+            inset: 0,
+            background: 'rgba(0,0,0,0.45)',
+            display: 'flex',
+            alignItems: 'center',
+            justifyContent: 'center',
+            padding: 16,
+            zIndex: 9999,
+          }}
+        >
+          <div
+            onClick={(e) => e.stopPropagation()}
+            onKeyDown={onEdgeModalKeyDown}
+            tabIndex={-1}
+            style={{
+              width: 480,
+              maxWidth: '100%',
+              background: '#1a1a2e',
+              border: '1px solid #4fc3f7',
+              borderRadius: 12,
+              padding: 16,
+              boxShadow: '0 10px 30px rgba(0,0,0,0.25)',
+              color: '#fff',
+            }}
+          >
+            <div style={{ fontSize: 18, fontWeight: 700, marginBottom: 12 }}>
+              Geçiş
+            </div>
+
+            <div style={{ display: 'flex', flexDirection: 'column', gap: 12 }}>
+              <label style={{ display: 'flex', flexDirection: 'column', gap: 6 }}>
+                <span style={{ fontSize: 12, fontWeight: 600 }}>Etiket</span>
+                <input
+                  autoFocus
+                  value={formEdgeLabel}
+                  onChange={(e) => setFormEdgeLabel(e.target.value)}
+                  placeholder="Örn: Onaylandı"
+                  style={{
+                    padding: '10px 12px',
+                    borderRadius: 8,
+                    border: '1px solid #ccc',
+                    outline: 'none',
+                  }}
+                />
+              </label>
+
+              <label style={{ display: 'flex', flexDirection: 'column', gap: 6 }}>
+                <span style={{ fontSize: 12, fontWeight: 600 }}>Sonuç kodu</span>
+                <input
+                  value={formEdgeOutcome}
+                  onChange={(e) => setFormEdgeOutcome(e.target.value)}
+                  list="edge-outcome-suggestions"
+                  placeholder="Örn: ONAY"
+                  style={{
+                    padding: '10px 12px',
+                    borderRadius: 8,
+                    border: '1px solid #ccc',
+                    outline: 'none',
+                  }}
+                />
+                <datalist id="edge-outcome-suggestions">
+                  {OUTCOME_SUGGESTIONS.map((outcome) => (
+                    <option key={outcome} value={outcome} />
+                  ))}
+                </datalist>
+              </label>
+
+              <label style={{ display: 'flex', flexDirection: 'column', gap: 6 }}>
+                <span style={{ fontSize: 12, fontWeight: 600 }}>Koşul (opsiyonel)</span>
+                <input
+                  value={formEdgeGuard}
+                  onChange={(e) => setFormEdgeGuard(e.target.value)}
+                  placeholder="Örn: belgeSayisi > 0"
+                  style={{
+                    padding: '10px 12px',
+                    borderRadius: 8,
+                    border: '1px solid #ccc',
+                    outline: 'none',
+                    fontFamily: 'monospace',
                   }}
-                >
-                  İptal
-                </button>
+                />
+              </label>
 
+              <div style={{ display: 'flex', gap: 8, justifyContent: 'space-between', marginTop: 4 }}>
                 <button
-                  onClick={saveNode}
+                  onClick={deleteEditingEdge}
                   style={{
                     padding: '10px 12px',
                     borderRadius: 8,
-                    border: '1px solid #333',
-                    background: '#333',
-                    color: '#fff',
+                    border: '1px solid #c62828',
+                    background: 'transparent',
+                    color: '#ff5252',
                     cursor: 'pointer',
                   }}
                 >
-                  Kaydet
+                  🗑 Bağlantıyı Sil
                 </button>
+
+                <div style={{ display: 'flex', gap: 8 }}>
+                  <button
+                    onClick={closeEdgeModal}
+                    style={{
+                      padding: '10px 12px',
+                      borderRadius: 8,
+                      border: '1px solid #999',
+                      background: '#e0e0e0',
+                      color: '#333',
+                      cursor: 'pointer',
+                    }}
+                  >
+                    İptal
+                  </button>
+
+                  <button
+                    onClick={saveEdge}
+                    style={{
+                      padding: '10px 12px',
+                      borderRadius: 8,
+                      border: '1px solid #4fc3f7',
+                      background: '#4fc3f7',
+                      color: '#1a1a2e',
+                      cursor: 'pointer',
+                    }}
+                  >
+                    Kaydet
+                  </button>
+                </div>
               </div>
 
               <div style={{ fontSize: 12, opacity: 0.7 }}>İpucu: Enter = Kaydet, Esc = Kapat</div>
@@ -1461,7 +3648,7 @@ export default function App() {
         >
           {/* Yeni Node Ekle - standalone button */}
           <button
-            onClick={addNewEmptyNode}
+            onClick={() => addFromContextMenu({ kind: 'box' })}
             style={{
               width: '100%',
               padding: '12px 16px',
@@ -1547,7 +3734,7 @@ export default function App() {
                   templates.map((template, index) => (
                     <button
                       key={`${template.id}-${index}`}
-                      onClick={() => addNodeFromTemplate(template)}
+                      onClick={() => addFromContextMenu({ kind: 'template', template })}
                       style={{
                         width: '100%',
                         padding: '10px 16px',
@@ -1575,7 +3762,7 @@ export default function App() {
           <div style={{ height: 1, background: '#4fc3f7', opacity: 0.3 }} />
 
           <button
-            onClick={addJumpNode}
+            onClick={() => addFromContextMenu({ kind: 'jump' })}
             style={{
               width: '100%',
               padding: '12px 16px',
@@ -1606,7 +3793,7 @@ export default function App() {
           </button>
 
           <button
-            onClick={addLandNode}
+            onClick={() => addFromContextMenu({ kind: 'land' })}
             style={{
               width: '100%',
               padding: '12px 16px',
@@ -1636,6 +3823,83 @@ export default function App() {
             </span>
           </button>
 
+          <button
+            onClick={() => addTerminalNode('start')}
+            style={{
+              width: '100%',
+              padding: '12px 16px',
+              background: 'transparent',
+              border: 'none',
+              color: '#fff',
+              fontSize: 14,
+              textAlign: 'left',
+              cursor: 'pointer',
+              display: 'flex',
+              alignItems: 'center',
+              gap: 10,
+            }}
+            onMouseEnter={(e) => (e.currentTarget.style.background = '#2a2a4e')}
+            onMouseLeave={(e) => (e.currentTarget.style.background = 'transparent')}
+          >
+            <span style={{ fontSize: 18 }}>🟢</span>
+            Başlangıç Ekle
+          </button>
+
+          <button
+            onClick={() => addTerminalNode('end')}
+            style={{
+              width: '100%',
+              padding: '12px 16px',
+              background: 'transparent',
+              border: 'none',
+              color: '#fff',
+              fontSize: 14,
+              textAlign: 'left',
+              cursor: 'pointer',
+              display: 'flex',
+              alignItems: 'center',
+              gap: 10,
+            }}
+            onMouseEnter={(e) => (e.currentTarget.style.background = '#2a2a4e')}
+            onMouseLeave={(e) => (e.currentTarget.style.background = 'transparent')}
+          >
+            <span style={{ fontSize: 18 }}>🔴</span>
+            Bitiş Ekle
+          </button>
+
+          <div style={{ padding: '8px 16px', color: '#fff', fontSize: 14 }}>
+            <div style={{ display: 'flex', alignItems: 'center', gap: 10, marginBottom: 6 }}>
+              <span style={{ fontSize: 18 }}>◆</span>
+              Geçit Ekle
+            </div>
+            <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: 4 }}>
+              {([
+                ['xor', 'split', 'XOR Ayrılma'],
+                ['xor', 'join', 'XOR Birleşme'],
+                ['and', 'split', 'AND Ayrılma'],
+                ['and', 'join', 'AND Birleşme'],
+              ] as const).map(([kind, mode, title]) => (
+                <button
+                  key={`${kind}-${mode}`}
+                  onClick={() => addGatewayNode(kind, mode)}
+                  style={{
+                    padding: '6px 8px',
+                    borderRadius: 6,
+                    border: `1px solid ${kind === 'and' ? '#7e57c2' : '#ffa000'}`,
+                    background: 'transparent',
+                    color: '#fff',
+                    fontSize: 11,
+                    cursor: 'pointer',
+                  }}
+                  onMouseEnter={(e) => (e.currentTarget.style.background = '#2a2a4e')}
+                  onMouseLeave={(e) => (e.currentTarget.style.background = 'transparent')}
+                >
+                  {title}
+                </button>
+              ))}
+            </div>
+          </div>
+
           <div style={{ height: 1, background: '#4fc3f7', opacity: 0.3 }} />
 
           <button
@@ -1705,6 +3969,220 @@ export default function App() {
             <span style={{ fontSize: 18 }}>📥</span>
             JSON İçe Aktar
           </button>
+          <div style={{ height: 1, background: '#4fc3f7', opacity: 0.3 }} />
+          <button
+            onClick={exportBpmn}
+            style={{
+              width: '100%',
+              padding: '12px 16px',
+              background: 'transparent',
+              border: 'none',
+              color: '#fff',
+              fontSize: 14,
+              textAlign: 'left',
+              cursor: 'pointer',
+              display: 'flex',
+              alignItems: 'center',
+              gap: 10,
+            }}
+            onMouseEnter={(e) => (e.currentTarget.style.background = '#2a2a4e')}
+            onMouseLeave={(e) => (e.currentTarget.style.background = 'transparent')}
+          >
+            <span style={{ fontSize: 18 }}>📤</span>
+            BPMN Olarak Dışa Aktar
+          </button>
+          <div style={{ height: 1, background: '#4fc3f7', opacity: 0.3 }} />
+          <button
+            onClick={handleBpmnImportClick}
+            style={{
+              width: '100%',
+              padding: '12px 16px',
+              background: 'transparent',
+              border: 'none',
+              color: '#fff',
+              fontSize: 14,
+              textAlign: 'left',
+              cursor: 'pointer',
+              display: 'flex',
+              alignItems: 'center',
+              gap: 10,
+            }}
+            onMouseEnter={(e) => (e.currentTarget.style.background = '#2a2a4e')}
+            onMouseLeave={(e) => (e.currentTarget.style.background = 'transparent')}
+          >
+            <span style={{ fontSize: 18 }}>📥</span>
+            BPMN İçe Aktar
+          </button>
+          <div style={{ height: 1, background: '#4fc3f7', opacity: 0.3 }} />
+          <button
+            onClick={() => exportTransitionTable('xlsx')}
+            style={{
+              width: '100%',
+              padding: '12px 16px',
+              background: 'transparent',
+              border: 'none',
+              color: '#fff',
+              fontSize: 14,
+              textAlign: 'left',
+              cursor: 'pointer',
+              display: 'flex',
+              alignItems: 'center',
+              gap: 10,
+            }}
+            onMouseEnter={(e) => (e.currentTarget.style.background = '#2a2a4e')}
+            onMouseLeave={(e) => (e.currentTarget.style.background = 'transparent')}
+          >
+            <span style={{ fontSize: 18 }}>📊</span>
+            Geçiş Tablosu Olarak Dışa Aktar (Excel)
+          </button>
+          <div style={{ height: 1, background: '#4fc3f7', opacity: 0.3 }} />
+          <button
+            onClick={() => exportTransitionTable('csv')}
+            style={{
+              width: '100%',
+              padding: '12px 16px',
+              background: 'transparent',
+              border: 'none',
+              color: '#fff',
+              fontSize: 14,
+              textAlign: 'left',
+              cursor: 'pointer',
+              display: 'flex',
+              alignItems: 'center',
+              gap: 10,
+            }}
+            onMouseEnter={(e) => (e.currentTarget.style.background = '#2a2a4e')}
+            onMouseLeave={(e) => (e.currentTarget.style.background = 'transparent')}
+          >
+            <span style={{ fontSize: 18 }}>📊</span>
+            Geçiş Tablosu Olarak Dışa Aktar (CSV, .zip)
+          </button>
+          <div style={{ height: 1, background: '#4fc3f7', opacity: 0.3 }} />
+          <button
+            onClick={handleTableImportClick}
+            style={{
+              width: '100%',
+              padding: '12px 16px',
+              background: 'transparent',
+              border: 'none',
+              color: '#fff',
+              fontSize: 14,
+              textAlign: 'left',
+              cursor: 'pointer',
+              display: 'flex',
+              alignItems: 'center',
+              gap: 10,
+            }}
+            onMouseEnter={(e) => (e.currentTarget.style.background = '#2a2a4e')}
+            onMouseLeave={(e) => (e.currentTarget.style.background = 'transparent')}
+          >
+            <span style={{ fontSize: 18 }}>📥</span>
+            Geçiş Tablosu İçe Aktar (CSV / Excel)
+          </button>
+          <div style={{ height: 1, background: '#4fc3f7', opacity: 0.3 }} />
+          <button
+            onClick={openImageExport}
+            style={{
+              width: '100%',
+              padding: '12px 16px',
+              background: 'transparent',
+              border: 'none',
+              color: '#fff',
+              fontSize: 14,
+              textAlign: 'left',
+              cursor: 'pointer',
+              display: 'flex',
+              alignItems: 'center',
+              gap: 10,
+            }}
+            onMouseEnter={(e) => (e.currentTarget.style.background = '#2a2a4e')}
+            onMouseLeave={(e) => (e.currentTarget.style.background = 'transparent')}
+          >
+            <span style={{ fontSize: 18 }}>🖼️</span>
+            Görüntü / PDF Olarak Dışa Aktar
+          </button>
+          <div style={{ height: 1, background: '#4fc3f7', opacity: 0.3 }} />
+          <div style={{ display: 'flex' }}>
+            <button
+              onClick={() => exportDiagramText('mermaid', 'file')}
+              style={{
+                flex: 1,
+                padding: '12px 16px',
+                background: 'transparent',
+                border: 'none',
+                color: '#fff',
+                fontSize: 14,
+                textAlign: 'left',
+                cursor: 'pointer',
+                display: 'flex',
+                alignItems: 'center',
+                gap: 10,
+              }}
+              onMouseEnter={(e) => (e.currentTarget.style.background = '#2a2a4e')}
+              onMouseLeave={(e) => (e.currentTarget.style.background = 'transparent')}
+            >
+              <span style={{ fontSize: 18 }}>📤</span>
+              Mermaid Akış Şeması Olarak Dışa Aktar
+            </button>
+            <button
+              onClick={() => exportDiagramText('mermaid', 'clipboard')}
+              title="Panoya kopyala"
+              style={{
+                padding: '12px 14px',
+                background: 'transparent',
+                border: 'none',
+                borderLeft: '1px solid rgba(79, 195, 247, 0.3)',
+                color: '#fff',
+                fontSize: 16,
+                cursor: 'pointer',
+              }}
+              onMouseEnter={(e) => (e.currentTarget.style.background = '#2a2a4e')}
+              onMouseLeave={(e) => (e.currentTarget.style.background = 'transparent')}
+            >
+              📋
+            </button>
+          </div>
+          <div style={{ height: 1, background: '#4fc3f7', opacity: 0.3 }} />
+          <div style={{ display: 'flex' }}>
+            <button
+              onClick={() => exportDiagramText('dot', 'file')}
+              style={{
+                flex: 1,
+                padding: '12px 16px',
+                background: 'transparent',
+                border: 'none',
+                color: '#fff',
+                fontSize: 14,
+                textAlign: 'left',
+                cursor: 'pointer',
+                display: 'flex',
+                alignItems: 'center',
+                gap: 10,
+              }}
+              onMouseEnter={(e) => (e.currentTarget.style.background = '#2a2a4e')}
+              onMouseLeave={(e) => (e.currentTarget.style.background = 'transparent')}
+            >
+              <span style={{ fontSize: 18 }}>📤</span>
+              DOT Olarak Dışa Aktar
+            </button>
+            <button
+              onClick={() => exportDiagramText('dot', 'clipboard')}
+              title="Panoya kopyala"
+              style={{
+                padding: '12px 14px',
+                background: 'transparent',
+                border: 'none',
+                borderLeft: '1px solid rgba(79, 195, 247, 0.3)',
+                color: '#fff',
+                fontSize: 16,
+                cursor: 'pointer',
+              }}
+              onMouseEnter={(e) => (e.currentTarget.style.background = '#2a2a4e')}
+              onMouseLeave={(e) => (e.currentTarget.style.background = 'transparent')}
+            >
+              📋
+            </button>
+          </div>
         </div>
       )}
 
@@ -1715,6 +4193,28 @@ export default function App() {
         onChange={importJson}
         style={{ display: 'none' }}
       />
+      <input
+        ref={tableFileInputRef}
+        type="file"
+        accept=".csv,.xlsx,.zip,.txt"
+        multiple
+        onChange={importTransitionTable}
+        style={{ display: 'none' }}
+      />
+      <input
+        ref={bpmnFileInputRef}
+        type="file"
+        accept=".bpmn,.xml"
+        onChange={importBpmn}
+        style={{ display: 'none' }}
+      />
+      <input
+        ref={compareFileInputRef}
+        type="file"
+        accept=".json"
+        onChange={compareWithFile}
+        style={{ display: 'none' }}
+      />
     </div>
   );
 }
@@ -0,0 +1,107 @@
+import type { Node } from 'reactflow';
+import { getSimulationNodeName } from './simulation';
+import type { CollabStatus, CollabUser, RemotePeer } from './useCollaboration';
+import type { NodeData } from './workflow';
+
+type CollabPanelProps = {
+  status: CollabStatus;
+  self: CollabUser;
+  peers: RemotePeer[];
+  nodes: Node<NodeData>[];
+  onRename: (name: string) => void;
+  onClose: () => void;
+};
+
+const STATUS_TEXT: Record<CollabStatus, { text: string; color: string }> = {
+  off: { text: 'Kapalı', color: '#888' },
+  connecting: { text: 'Bağlanıyor...', color: '#ffb74d' },
+  connected: { text: 'Bağlı', color: '#81c784' },
+  disconnected: { text: 'Bağlantı koptu, yeniden deneniyor...', color: '#ff5252' },
+};
+
+export default function CollabPanel({ status, self, peers, nodes, onRename, onClose }: CollabPanelProps) {
+  return (
+    <div
+      onClick={(e) => e.stopPropagation()}
+      style={{
+        width: 320,
+        maxHeight: '70vh',
+        display: 'flex',
+        flexDirection: 'column',
+        background: '#1a1a2e',
+        border: '1px solid #4fc3f7',
+        borderRadius: 8,
+        boxShadow: '0 4px 16px rgba(0,0,0,0.4)',
+        color: '#fff',
+      }}
+    >
+      <div
+        style={{
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'space-between',
+          padding: '10px 12px',
+          borderBottom: '1px solid rgba(79, 195, 247, 0.3)',
+        }}
+      >
+        <span style={{ fontSize: 14, fontWeight: 700 }}>
+          👥 Ortak Düzenleme
+          <span style={{ marginLeft: 8, fontSize: 12, color: STATUS_TEXT[status].color }}>{STATUS_TEXT[status].text}</span>
+        </span>
+        <button
+          onClick={onClose}
+          title="Ortak düzenlemeden çık"
+          style={{ padding: '2px 8px', background: 'transparent', border: 'none', color: '#888', cursor: 'pointer' }}
+        >
+          ✕
+        </button>
+      </div>
+
+      <label style={{ display: 'flex', alignItems: 'center', gap: 8, padding: '8px 12px', fontSize: 12 }}>
+        <span style={{ width: 10, height: 10, borderRadius: '50%', background: self.color, flexShrink: 0 }} />
+        <input
+          value={self.name}
+          onChange={(e) => onRename(e.target.value)}
+          title="Diğer kullanıcılara görünen adınız"
+          style={{ flex: 1, minWidth: 0, padding: '4px 8px', borderRadius: 6, border: '1px solid #ccc', fontSize: 12 }}
+        />
+        <span style={{ color: '#888' }}>(siz)</span>
+      </label>
+
+      <div style={{ overflowY: 'auto', flex: 1, borderTop: '1px solid rgba(79, 195, 247, 0.3)' }}>
+        {peers.length === 0 && (
+          <div style={{ padding: '12px 16px', color: '#888', fontSize: 12, textAlign: 'center' }}>
+            Başka kimse bağlı değil
+          </div>
+        )}
+        {peers.map((peer) => {
+          const editingNode = nodes.find((n) => n.id === peer.editingNodeId);
+          return (
+            <div
+              key={peer.id}
+              style={{
+                display: 'flex',
+                alignItems: 'center',
+                gap: 8,
+                padding: '8px 12px',
+                borderBottom: '1px solid rgba(79, 195, 247, 0.1)',
+                fontSize: 12,
+              }}
+            >
+              <span style={{ width: 10, height: 10, borderRadius: '50%', background: peer.color, flexShrink: 0 }} />
+              <span style={{ flex: 1, wordBreak: 'break-all' }}>
+                {peer.name}
+                {editingNode && (
+                  <span style={{ color: '#aaa' }}> — ✎ {getSimulationNodeName(editingNode)}</span>
+                )}
+                {!editingNode && peer.selectedNodeIds.length > 0 && (
+                  <span style={{ color: '#aaa' }}> — {peer.selectedNodeIds.length} seçili</span>
+                )}
+              </span>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,153 @@
+import { DIFF_STATUS_COLORS, type DiffStatus, type WorkflowDiffItem } from './diff';
+
+type DiffPanelProps = {
+  baseLabel: string | null;  // null until a comparison source is picked
+  items: WorkflowDiffItem[];
+  canCompareWithServer: boolean;
+  onCompareWithServer: () => void;
+  onCompareWithFile: () => void;
+  onSelectItem: (item: WorkflowDiffItem) => void;
+  onClear: () => void;
+  onClose: () => void;
+};
+
+const STATUS_ICONS: Record<DiffStatus, string> = {
+  added: '＋',
+  removed: '−',
+  modified: '✎',
+  relinked: '⤳',
+};
+
+const STATUS_LABELS: Record<DiffStatus, string> = {
+  added: 'eklendi',
+  removed: 'silindi',
+  modified: 'değişti',
+  relinked: 'bağlantı',
+};
+
+const smallButtonStyle: React.CSSProperties = {
+  padding: '4px 8px',
+  borderRadius: 6,
+  border: '1px solid rgba(79, 195, 247, 0.5)',
+  background: 'transparent',
+  color: '#fff',
+  fontSize: 11,
+  cursor: 'pointer',
+};
+
+export default function DiffPanel({
+  baseLabel,
+  items,
+  canCompareWithServer,
+  onCompareWithServer,
+  onCompareWithFile,
+  onSelectItem,
+  onClear,
+  onClose,
+}: DiffPanelProps) {
+  const counts = (Object.keys(STATUS_ICONS) as DiffStatus[])
+    .map((status) => ({ status, count: items.filter((item) => item.status === status).length }))
+    .filter(({ count }) => count > 0);
+
+  return (
+    <div
+      onClick={(e) => e.stopPropagation()}
+      style={{
+        width: 320,
+        maxHeight: '70vh',
+        display: 'flex',
+        flexDirection: 'column',
+        background: '#1a1a2e',
+        border: '1px solid #4fc3f7',
+        borderRadius: 8,
+        boxShadow: '0 4px 16px rgba(0,0,0,0.4)',
+        color: '#fff',
+      }}
+    >
+      <div
+        style={{
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'space-between',
+          padding: '10px 12px',
+          borderBottom: '1px solid rgba(79, 195, 247, 0.3)',
+        }}
+      >
+        <span style={{ fontSize: 14, fontWeight: 700, wordBreak: 'break-all' }}>
+          ⇄ Karşılaştır{baseLabel && <span style={{ fontWeight: 400, color: '#aaa' }}> — {baseLabel}</span>}
+        </span>
+        <button
+          onClick={onClose}
+          title="Kapat"
+          style={{ padding: '2px 8px', background: 'transparent', border: 'none', color: '#888', cursor: 'pointer' }}
+        >
+          ✕
+        </button>
+      </div>
+
+      <div style={{ display: 'flex', flexWrap: 'wrap', gap: 6, padding: '8px 12px' }}>
+        <button
+          onClick={onCompareWithServer}
+          disabled={!canCompareWithServer}
+          title={canCompareWithServer ? 'Sunucudan son yüklenen/kaydedilen hal' : 'Sunucudan yüklenmiş bir hal yok'}
+          style={{ ...smallButtonStyle, opacity: canCompareWithServer ? 1 : 0.4 }}
+        >
+          Son sunucu hali
+        </button>
+        <button onClick={onCompareWithFile} style={smallButtonStyle}>
+          📂 Dosya seç...
+        </button>
+        {baseLabel && (
+          <button onClick={onClear} style={smallButtonStyle}>
+            Temizle
+          </button>
+        )}
+      </div>
+
+      {!baseLabel ? (
+        <div style={{ padding: '0 12px 12px', color: '#888', fontSize: 12 }}>
+          Revizyonlarla karşılaştırmak için Geçmiş panelindeki ⇄ düğmesini kullanın.
+        </div>
+      ) : (
+        <>
+          <div style={{ display: 'flex', gap: 10, padding: '0 12px 8px', fontSize: 12 }}>
+            {counts.length === 0 && <span style={{ color: '#81c784' }}>✅ Fark yok</span>}
+            {counts.map(({ status, count }) => (
+              <span key={status} style={{ color: DIFF_STATUS_COLORS[status] }}>
+                {count} {STATUS_LABELS[status]}
+              </span>
+            ))}
+          </div>
+          <div style={{ overflowY: 'auto', flex: 1, borderTop: '1px solid rgba(79, 195, 247, 0.3)' }}>
+            {items.map((item) => (
+              <button
+                key={item.id}
+                onClick={() => onSelectItem(item)}
+                style={{
+                  width: '100%',
+                  padding: '8px 12px',
+                  background: 'transparent',
+                  border: 'none',
+                  borderBottom: '1px solid rgba(79, 195, 247, 0.1)',
+                  borderRadius: 0,
+                  color: '#fff',
+                  fontSize: 12,
+                  textAlign: 'left',
+                  cursor: 'pointer',
+                  display: 'flex',
+                  gap: 8,
+                  wordBreak: 'break-all',
+                }}
+                onMouseEnter={(e) => (e.currentTarget.style.background = '#2a2a4e')}
+                onMouseLeave={(e) => (e.currentTarget.style.background = 'transparent')}
+              >
+                <span style={{ color: DIFF_STATUS_COLORS[item.status], fontWeight: 700 }}>{STATUS_ICONS[item.status]}</span>
+                <span>{item.message}</span>
+              </button>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,120 @@
+import { DIFF_STATUS_COLORS, type WorkflowDiffItem } from './diff';
+
+type DraftRestoreDialogProps = {
+  savedAt: string;
+  baseLabel: string;          // What the draft is compared against, e.g. the server copy
+  items: WorkflowDiffItem[];
+  movedCount: number;         // Nodes that only changed position
+  discardLabel?: string;      // The discard button may only postpone, e.g. when the server copy failed to load
+  onRestore: () => void;
+  onDiscard: () => void;
+};
+
+const MAX_LISTED_ITEMS = 12;
+
+export default function DraftRestoreDialog({
+  savedAt,
+  baseLabel,
+  items,
+  movedCount,
+  discardLabel = 'Taslağı Sil',
+  onRestore,
+  onDiscard,
+}: DraftRestoreDialogProps) {
+  return (
+    <div
+      style={{
+        position: 'fixed',
+        inset: 0,
+        background: 'rgba(0,0,0,0.45)',
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        padding: 16,
+        zIndex: 9999,
+      }}
+    >
+      <div
+        // Enter is handled by the focused restore button
+        onKeyDown={(e) => {
+          if (e.key === 'Escape') onDiscard();
+        }}
+        tabIndex={-1}
+        style={{
+          width: 480,
+          maxWidth: '100%',
+          maxHeight: '85vh',
+          display: 'flex',
+          flexDirection: 'column',
+          gap: 12,
+          background: '#1a1a2e',
+          border: '1px solid #4fc3f7',
+          borderRadius: 12,
+          padding: 16,
+          boxShadow: '0 10px 30px rgba(0,0,0,0.25)',
+          color: '#fff',
+        }}
+      >
+        <div style={{ fontSize: 18, fontWeight: 700 }}>
+          💾 {new Date(savedAt).toLocaleString('tr-TR')} tarihli kaydedilmemiş taslak geri yüklensin mi?
+        </div>
+        <div style={{ fontSize: 13, color: '#ccc' }}>{baseLabel} ile farklar:</div>
+
+        <div
+          style={{
+            overflowY: 'auto',
+            padding: 8,
+            background: 'rgba(255,255,255,0.05)',
+            borderRadius: 8,
+            fontSize: 12,
+            wordBreak: 'break-all',
+          }}
+        >
+          {items.slice(0, MAX_LISTED_ITEMS).map((item) => (
+            <div key={item.id} style={{ color: DIFF_STATUS_COLORS[item.status] }}>
+              • {item.message}
+            </div>
+          ))}
+          {items.length > MAX_LISTED_ITEMS && (
+            <div style={{ color: '#aaa' }}>… ve {items.length - MAX_LISTED_ITEMS} değişiklik daha</div>
+          )}
+          {movedCount > 0 && <div style={{ color: '#aaa' }}>• {movedCount} node'un konumu değişti</div>}
+          {!items.length && !movedCount && (
+            <div style={{ color: '#aaa' }}>• İşlem türü şablonlarında ya da sabitlenmiş node'larda değişiklik var</div>
+          )}
+        </div>
+
+        <div style={{ display: 'flex', gap: 8, justifyContent: 'flex-end' }}>
+          <button
+            onClick={onDiscard}
+            style={{
+              padding: '10px 12px',
+              borderRadius: 8,
+              border: '1px solid #999',
+              background: '#e0e0e0',
+              color: '#333',
+              cursor: 'pointer',
+            }}
+          >
+            {discardLabel}
+          </button>
+          <button
+            autoFocus
+            onClick={onRestore}
+            style={{
+              padding: '10px 12px',
+              borderRadius: 8,
+              border: '1px solid #4fc3f7',
+              background: '#4fc3f7',
+              color: '#1a1a2e',
+              cursor: 'pointer',
+            }}
+          >
+            Geri Yükle
+          </button>
+        </div>
+        <div style={{ fontSize: 12, opacity: 0.7 }}>İpucu: Enter = Geri Yükle, Esc = {discardLabel}</div>
+      </div>
+    </div>
+  );
+}
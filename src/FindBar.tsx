@@ -0,0 +1,128 @@
+import type { RefObject } from 'react';
+
+type FindBarProps = {
+  inputRef: RefObject<HTMLInputElement | null>;
+  query: string;
+  isRegex: boolean;
+  linkedLandId: string | null;
+  lands: { id: string; displayName: string }[];
+  matchCount: number;
+  activeIndex: number;  // -1 until the first step
+  error: string | null;
+  onQueryChange: (query: string) => void;
+  onRegexChange: (isRegex: boolean) => void;
+  onLinkedLandChange: (landId: string | null) => void;
+  onStep: (direction: 1 | -1) => void;
+  onClose: () => void;
+};
+
+const smallButtonStyle: React.CSSProperties = {
+  padding: '4px 8px',
+  borderRadius: 6,
+  border: '1px solid rgba(79, 195, 247, 0.5)',
+  background: 'transparent',
+  color: '#fff',
+  fontSize: 11,
+  cursor: 'pointer',
+};
+
+export default function FindBar({
+  inputRef,
+  query,
+  isRegex,
+  linkedLandId,
+  lands,
+  matchCount,
+  activeIndex,
+  error,
+  onQueryChange,
+  onRegexChange,
+  onLinkedLandChange,
+  onStep,
+  onClose,
+}: FindBarProps) {
+  const hasCriteria = Boolean(linkedLandId || query.trim());
+
+  return (
+    <div
+      onClick={(e) => e.stopPropagation()}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter') {
+          e.preventDefault();
+          onStep(e.shiftKey ? -1 : 1);
+        } else if (e.key === 'Escape') {
+          onClose();
+        }
+      }}
+      style={{
+        display: 'flex',
+        alignItems: 'center',
+        gap: 6,
+        padding: '6px 8px',
+        background: '#1a1a2e',
+        border: '1px solid #4fc3f7',
+        borderRadius: 8,
+        boxShadow: '0 4px 16px rgba(0,0,0,0.4)',
+        color: '#fff',
+        fontSize: 12,
+      }}
+    >
+      <span>🔍</span>
+      <input
+        ref={inputRef}
+        autoFocus
+        value={query}
+        disabled={Boolean(linkedLandId)}
+        onChange={(e) => onQueryChange(e.target.value)}
+        placeholder={isRegex ? 'Düzenli ifade (ör. ^OI_HYG_.*RED$)' : 'Ad, etiket veya açıklama...'}
+        style={{
+          width: 240,
+          padding: '4px 8px',
+          borderRadius: 6,
+          border: `1px solid ${error ? '#ff5252' : '#ccc'}`,
+          fontSize: 12,
+          opacity: linkedLandId ? 0.4 : 1,
+        }}
+      />
+      <label title="Düzenli ifade" style={{ display: 'flex', alignItems: 'center', gap: 4, cursor: 'pointer' }}>
+        <input type="checkbox" checked={isRegex} onChange={(e) => onRegexChange(e.target.checked)} />
+        .*
+      </label>
+      <select
+        value={linkedLandId ?? ''}
+        onChange={(e) => onLinkedLandChange(e.target.value || null)}
+        title="Bir land'e bağlı jump node'larını bul"
+        style={{ padding: '3px 6px', borderRadius: 6, fontSize: 12 }}
+      >
+        <option value="">Metin ara</option>
+        {lands.map((land) => (
+          <option key={land.id} value={land.id}>
+            Jump → {land.displayName}
+          </option>
+        ))}
+      </select>
+      <span style={{ minWidth: 70, textAlign: 'center', color: error ? '#ff5252' : matchCount ? '#fff' : '#888' }} title={error ?? undefined}>
+        {error
+          ? 'Geçersiz ifade'
+          : hasCriteria
+            ? matchCount
+              ? `${activeIndex >= 0 ? activeIndex + 1 : '–'} / ${matchCount}`
+              : 'Sonuç yok'
+            : ''}
+      </span>
+      <button onClick={() => onStep(-1)} disabled={!matchCount} title="Önceki (Shift+Enter)" style={smallButtonStyle}>
+        ▲
+      </button>
+      <button onClick={() => onStep(1)} disabled={!matchCount} title="Sonraki (Enter)" style={smallButtonStyle}>
+        ▼
+      </button>
+      <button
+        onClick={onClose}
+        title="Kapat (Esc)"
+        style={{ padding: '2px 8px', background: 'transparent', border: 'none', color: '#888', cursor: 'pointer' }}
+      >
+        ✕
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,204 @@
+import { useState } from 'react';
+import type { ImageExportFormat, ImageExportOptions } from './canvasImage';
+import { PAPER_SIZES, type PaperSize } from './pdf';
+
+type ImageExportDialogProps = {
+  hasSelection: boolean;
+  defaultTitle: string;
+  onExport: (options: ImageExportOptions) => Promise<void>;
+  onClose: () => void;
+};
+
+const SCALES = [1, 2, 3, 4];
+
+const FORMATS: { value: ImageExportFormat; label: string }[] = [
+  { value: 'png', label: 'PNG' },
+  { value: 'svg', label: 'SVG' },
+  { value: 'pdf', label: 'PDF' },
+];
+
+const smallButtonStyle: React.CSSProperties = {
+  padding: '6px 12px',
+  borderRadius: 6,
+  border: '1px solid rgba(79, 195, 247, 0.5)',
+  background: 'transparent',
+  color: '#fff',
+  fontSize: 12,
+  cursor: 'pointer',
+};
+
+const fieldStyle: React.CSSProperties = {
+  display: 'flex',
+  alignItems: 'center',
+  justifyContent: 'space-between',
+  gap: 12,
+  fontSize: 13,
+};
+
+const inputStyle: React.CSSProperties = {
+  padding: '4px 8px',
+  borderRadius: 6,
+  border: '1px solid #ccc',
+  fontSize: 12,
+};
+
+export default function ImageExportDialog({ hasSelection, defaultTitle, onExport, onClose }: ImageExportDialogProps) {
+  const [options, setOptions] = useState<ImageExportOptions>({
+    format: 'png',
+    selectionOnly: hasSelection,
+    scale: 2,
+    transparent: false,
+    paperSize: 'A4',
+    title: defaultTitle,
+  });
+  const [isExporting, setIsExporting] = useState(false);
+  const isPdf = options.format === 'pdf';
+
+  const submit = async () => {
+    setIsExporting(true);
+    try {
+      await onExport(options);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div
+      style={{
+        position: 'fixed',
+        inset: 0,
+        background: 'rgba(0,0,0,0.45)',
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        padding: 16,
+        zIndex: 9999,
+      }}
+    >
+      <div
+        onKeyDown={(e) => {
+          if (e.key === 'Escape' && !isExporting) onClose();
+        }}
+        tabIndex={-1}
+        style={{
+          width: 380,
+          maxWidth: '100%',
+          display: 'flex',
+          flexDirection: 'column',
+          gap: 12,
+          background: '#1a1a2e',
+          border: '1px solid #4fc3f7',
+          borderRadius: 12,
+          padding: 16,
+          boxShadow: '0 10px 30px rgba(0,0,0,0.25)',
+          color: '#fff',
+        }}
+      >
+        <div style={{ fontSize: 18, fontWeight: 700 }}>🖼️ Görüntü / PDF olarak dışa aktar</div>
+
+        <div style={fieldStyle}>
+          <span>Biçim</span>
+          <div style={{ display: 'flex', gap: 4 }}>
+            {FORMATS.map((format) => (
+              <button
+                key={format.value}
+                onClick={() => setOptions({ ...options, format: format.value })}
+                style={{
+                  ...smallButtonStyle,
+                  background: options.format === format.value ? '#4fc3f7' : 'transparent',
+                  color: options.format === format.value ? '#1a1a2e' : '#fff',
+                }}
+              >
+                {format.label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div style={fieldStyle}>
+          <span>Kapsam</span>
+          <select
+            value={options.selectionOnly ? 'selection' : 'all'}
+            onChange={(e) => setOptions({ ...options, selectionOnly: e.target.value === 'selection' })}
+            style={inputStyle}
+          >
+            <option value="all">Tüm akış</option>
+            <option value="selection" disabled={!hasSelection}>
+              Seçili node'lar
+            </option>
+          </select>
+        </div>
+
+        {isPdf ? (
+          <>
+            <div style={fieldStyle}>
+              <span>Kağıt</span>
+              <select
+                value={options.paperSize}
+                onChange={(e) => setOptions({ ...options, paperSize: e.target.value as PaperSize })}
+                style={inputStyle}
+              >
+                {Object.keys(PAPER_SIZES).map((size) => (
+                  <option key={size} value={size}>
+                    {size}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div style={fieldStyle}>
+              <span>Başlık</span>
+              <input
+                value={options.title}
+                onChange={(e) => setOptions({ ...options, title: e.target.value })}
+                style={{ ...inputStyle, flex: 1 }}
+              />
+            </div>
+            <div style={{ fontSize: 11, color: '#aaa' }}>
+              Büyük akışlar gerçek boyutta birden çok sayfaya bölünür. Her sayfada başlık, tarih ve kayıt revizyonu yer alır.
+            </div>
+          </>
+        ) : (
+          <>
+            <div style={fieldStyle}>
+              <span>Ölçek</span>
+              <select
+                value={options.scale}
+                onChange={(e) => setOptions({ ...options, scale: Number(e.target.value) })}
+                style={inputStyle}
+              >
+                {SCALES.map((scale) => (
+                  <option key={scale} value={scale}>
+                    {scale}x
+                  </option>
+                ))}
+              </select>
+            </div>
+            <label style={{ ...fieldStyle, justifyContent: 'flex-start', cursor: 'pointer' }}>
+              <input
+                type="checkbox"
+                checked={options.transparent}
+                onChange={(e) => setOptions({ ...options, transparent: e.target.checked })}
+              />
+              Saydam arka plan
+            </label>
+          </>
+        )}
+
+        <div style={{ display: 'flex', justifyContent: 'flex-end', gap: 8 }}>
+          <button onClick={onClose} disabled={isExporting} style={smallButtonStyle}>
+            İptal
+          </button>
+          <button
+            autoFocus
+            onClick={submit}
+            disabled={isExporting}
+            style={{ ...smallButtonStyle, background: '#4fc3f7', color: '#1a1a2e', fontWeight: 700 }}
+          >
+            {isExporting ? 'Hazırlanıyor...' : 'Dışa Aktar'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
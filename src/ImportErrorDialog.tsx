@@ -0,0 +1,108 @@
+import type { FormatIssue } from './workflowFormat';
+
+type ImportErrorDialogProps = {
+  fileName: string;
+  issues: FormatIssue[];
+  onClose: () => void;
+};
+
+const MAX_LISTED_ISSUES = 50;
+
+const smallButtonStyle: React.CSSProperties = {
+  padding: '6px 12px',
+  borderRadius: 6,
+  border: '1px solid rgba(79, 195, 247, 0.5)',
+  background: 'transparent',
+  color: '#fff',
+  fontSize: 12,
+  cursor: 'pointer',
+};
+
+function formatIssue(issue: FormatIssue): string {
+  return issue.path ? `${issue.path}: ${issue.message}` : issue.message;
+}
+
+export default function ImportErrorDialog({ fileName, issues, onClose }: ImportErrorDialogProps) {
+  const copyIssues = () => {
+    navigator.clipboard.writeText(issues.map(formatIssue).join('\n')).catch((err) => {
+      console.error('Clipboard write error:', err);
+    });
+  };
+
+  return (
+    <div
+      style={{
+        position: 'fixed',
+        inset: 0,
+        background: 'rgba(0,0,0,0.45)',
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        padding: 16,
+        zIndex: 9999,
+      }}
+    >
+      <div
+        onKeyDown={(e) => {
+          if (e.key === 'Escape') onClose();
+        }}
+        tabIndex={-1}
+        style={{
+          width: 480,
+          maxWidth: '100%',
+          maxHeight: '85vh',
+          display: 'flex',
+          flexDirection: 'column',
+          gap: 12,
+          background: '#1a1a2e',
+          border: '1px solid #4fc3f7',
+          borderRadius: 12,
+          padding: 16,
+          boxShadow: '0 10px 30px rgba(0,0,0,0.25)',
+          color: '#fff',
+        }}
+      >
+        <div style={{ fontSize: 18, fontWeight: 700 }}>❌ Dosya içe aktarılamadı</div>
+        <div style={{ fontSize: 13, color: '#ccc', wordBreak: 'break-all' }}>
+          {fileName} dosyasında {issues.length} sorun bulundu. Kanvas değiştirilmedi.
+        </div>
+
+        <div
+          style={{
+            overflowY: 'auto',
+            padding: 8,
+            background: 'rgba(255,255,255,0.05)',
+            borderRadius: 8,
+            fontSize: 12,
+            wordBreak: 'break-all',
+          }}
+        >
+          {issues.slice(0, MAX_LISTED_ISSUES).map((issue, index) => (
+            <div key={index}>
+              •{' '}
+              {issue.path && <span style={{ fontFamily: 'monospace', color: '#4fc3f7' }}>{issue.path}</span>}
+              {issue.path && ': '}
+              <span style={{ color: '#ffb74d' }}>{issue.message}</span>
+            </div>
+          ))}
+          {issues.length > MAX_LISTED_ISSUES && (
+            <div style={{ color: '#aaa' }}>… ve {issues.length - MAX_LISTED_ISSUES} sorun daha</div>
+          )}
+        </div>
+
+        <div style={{ display: 'flex', justifyContent: 'flex-end', gap: 8 }}>
+          <button onClick={copyIssues} style={smallButtonStyle}>
+            📋 Listeyi Kopyala
+          </button>
+          <button
+            autoFocus
+            onClick={onClose}
+            style={{ ...smallButtonStyle, background: '#4fc3f7', color: '#1a1a2e', fontWeight: 700 }}
+          >
+            Kapat
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,179 @@
+import { useMemo, useState } from 'react';
+import { fuzzyScore, PALETTE_DRAG_TYPE, searchTemplates, type PaletteItem } from './palette';
+import type { TemplateSummary } from './templates';
+
+type NodePaletteProps = {
+  templates: TemplateSummary[];
+  recentTemplateIds: string[];
+  onInsert: (item: PaletteItem) => void;  // Keyboard/click insert, placed at the viewport center
+  onClose: () => void;
+};
+
+type PaletteEntry = {
+  key: string;
+  section: string;
+  icon: string;
+  label: string;
+  description?: string;
+  item: PaletteItem;
+};
+
+const BASIC_ENTRIES: PaletteEntry[] = [
+  { key: 'basic-box', section: 'Temel', icon: '📦', label: 'Boş kutu', item: { kind: 'box' } },
+  { key: 'basic-jump', section: 'Temel', icon: '↗️', label: 'Jump', item: { kind: 'jump' } },
+  { key: 'basic-land', section: 'Temel', icon: '↘️', label: 'Land', item: { kind: 'land' } },
+];
+
+function templateEntry(template: TemplateSummary, section: string): PaletteEntry {
+  return {
+    key: `${section}-${template.id}`,
+    section,
+    icon: '📄',
+    label: template.ad,
+    description: template.aciklama,
+    item: { kind: 'template', template },
+  };
+}
+
+export default function NodePalette({ templates, recentTemplateIds, onInsert, onClose }: NodePaletteProps) {
+  const [query, setQuery] = useState('');
+  const [activeIndex, setActiveIndex] = useState(0);
+
+  const entries = useMemo(() => {
+    if (query.trim()) {
+      return [
+        ...BASIC_ENTRIES.filter((entry) => fuzzyScore(query.trim(), entry.label) !== null),
+        ...searchTemplates(templates, query).map((t) => templateEntry(t, 'Şablonlar')),
+      ];
+    }
+    const recents = recentTemplateIds
+      .map((id) => templates.find((t) => t.id === id))
+      .filter((t): t is TemplateSummary => Boolean(t))
+      .map((t) => templateEntry(t, 'Son kullanılanlar'));
+    return [...BASIC_ENTRIES, ...recents, ...templates.map((t) => templateEntry(t, 'Şablonlar'))];
+  }, [templates, recentTemplateIds, query]);
+
+  const active = Math.min(activeIndex, entries.length - 1);
+
+  const onKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setActiveIndex(Math.min(active + 1, entries.length - 1));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setActiveIndex(Math.max(active - 1, 0));
+    } else if (e.key === 'Enter' && entries[active]) {
+      onInsert(entries[active].item);
+    } else if (e.key === 'Escape') {
+      onClose();
+    }
+  };
+
+  return (
+    <div
+      onClick={(e) => e.stopPropagation()}
+      onKeyDown={onKeyDown}
+      style={{
+        width: 280,
+        maxHeight: '65vh',
+        display: 'flex',
+        flexDirection: 'column',
+        background: '#1a1a2e',
+        border: '1px solid #4fc3f7',
+        borderRadius: 8,
+        boxShadow: '0 4px 16px rgba(0,0,0,0.4)',
+        color: '#fff',
+      }}
+    >
+      <div
+        style={{
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'space-between',
+          padding: '10px 12px',
+          borderBottom: '1px solid rgba(79, 195, 247, 0.3)',
+        }}
+      >
+        <span style={{ fontSize: 14, fontWeight: 700 }}>🧩 Palet</span>
+        <button
+          onClick={onClose}
+          title="Kapat"
+          style={{ padding: '2px 8px', background: 'transparent', border: 'none', color: '#888', cursor: 'pointer' }}
+        >
+          ✕
+        </button>
+      </div>
+
+      <div style={{ padding: '8px 12px' }}>
+        <input
+          autoFocus
+          value={query}
+          onChange={(e) => {
+            setQuery(e.target.value);
+            setActiveIndex(0);
+          }}
+          placeholder="Ara (ör. oi kontrol)..."
+          style={{
+            width: '100%',
+            padding: '6px 8px',
+            borderRadius: 6,
+            border: '1px solid #ccc',
+            fontSize: 12,
+            boxSizing: 'border-box',
+          }}
+        />
+      </div>
+
+      <div style={{ overflowY: 'auto', flex: 1, borderTop: '1px solid rgba(79, 195, 247, 0.3)' }}>
+        {entries.length === 0 && (
+          <div style={{ padding: '12px 16px', color: '#888', fontSize: 12, textAlign: 'center' }}>
+            Eşleşen öğe yok
+          </div>
+        )}
+        {entries.map((entry, index) => (
+          <div key={entry.key}>
+            {entry.section !== entries[index - 1]?.section && (
+              <div style={{ padding: '6px 12px 2px', color: '#4fc3f7', fontSize: 11, fontWeight: 700 }}>
+                {entry.section}
+              </div>
+            )}
+            <div
+              draggable
+              onDragStart={(e) => {
+                e.dataTransfer.setData(PALETTE_DRAG_TYPE, JSON.stringify(entry.item));
+                e.dataTransfer.effectAllowed = 'move';
+              }}
+              onClick={() => onInsert(entry.item)}
+              onMouseEnter={() => setActiveIndex(index)}
+              ref={index === active ? (el) => el?.scrollIntoView({ block: 'nearest' }) : undefined}
+              title={entry.description || entry.label}
+              style={{
+                display: 'flex',
+                alignItems: 'flex-start',
+                gap: 8,
+                padding: '6px 12px',
+                background: index === active ? '#2a2a4e' : 'transparent',
+                fontSize: 12,
+                cursor: 'grab',
+              }}
+            >
+              <span>{entry.icon}</span>
+              <div style={{ minWidth: 0 }}>
+                <div style={{ wordBreak: 'break-all' }}>{entry.label}</div>
+                {entry.description && (
+                  <div style={{ color: '#888', fontSize: 11, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                    {entry.description}
+                  </div>
+                )}
+              </div>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div style={{ padding: '6px 12px', borderTop: '1px solid rgba(79, 195, 247, 0.3)', color: '#888', fontSize: 11 }}>
+        İpucu: Sürükleyip kanvasa bırakın ya da ↑/↓ ile seçip Enter'a basın.
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,69 @@
+import { useViewport, type Node } from 'reactflow';
+import type { RemotePeer } from './useCollaboration';
+import type { NodeData } from './workflow';
+
+type RemoteCursorsProps = {
+  peers: RemotePeer[];
+  nodes: Node<NodeData>[];
+};
+
+// Rendered inside <ReactFlow> so flow coordinates can be mapped with the current viewport
+export default function RemoteCursors({ peers, nodes }: RemoteCursorsProps) {
+  const { x, y, zoom } = useViewport();
+
+  return (
+    <div style={{ position: 'absolute', inset: 0, pointerEvents: 'none', zIndex: 5, overflow: 'hidden' }}>
+      {peers.map((peer) => {
+        const editingNode = nodes.find((n) => n.id === peer.editingNodeId);
+        return (
+          <div key={peer.id}>
+            {editingNode && (
+              <div
+                style={{
+                  position: 'absolute',
+                  left: editingNode.position.x * zoom + x,
+                  top: editingNode.position.y * zoom + y - 22,
+                  padding: '2px 6px',
+                  borderRadius: 4,
+                  background: peer.color,
+                  color: '#fff',
+                  fontSize: 11,
+                  whiteSpace: 'nowrap',
+                }}
+              >
+                ✎ {peer.name} düzenliyor
+              </div>
+            )}
+            {peer.cursor && (
+              <div
+                style={{
+                  position: 'absolute',
+                  left: peer.cursor.x * zoom + x,
+                  top: peer.cursor.y * zoom + y,
+                  transition: 'left 80ms linear, top 80ms linear',
+                }}
+              >
+                <svg width="16" height="16" viewBox="0 0 16 16" style={{ display: 'block' }}>
+                  <path d="M0 0 L0 14 L4 10 L7 16 L9 15 L6 9 L12 9 Z" fill={peer.color} stroke="#fff" strokeWidth="1" />
+                </svg>
+                <div
+                  style={{
+                    marginLeft: 12,
+                    padding: '1px 6px',
+                    borderRadius: 4,
+                    background: peer.color,
+                    color: '#fff',
+                    fontSize: 11,
+                    whiteSpace: 'nowrap',
+                  }}
+                >
+                  {peer.name}
+                </div>
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
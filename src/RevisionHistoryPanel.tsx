@@ -0,0 +1,119 @@
+import type { RevisionSummary } from './workflow';
+
+type RevisionHistoryPanelProps = {
+  revisions: RevisionSummary[];
+  isLoading: boolean;
+  error: string | null;
+  previewRevisionNumber: number | null;
+  onRefresh: () => void;
+  onPreview: (revision: number) => void;
+  onCompare: (revision: number) => void;
+  onRestore: (revision: number) => void;
+  onClose: () => void;
+};
+
+const smallButtonStyle: React.CSSProperties = {
+  padding: '4px 8px',
+  borderRadius: 6,
+  border: '1px solid rgba(79, 195, 247, 0.5)',
+  background: 'transparent',
+  color: '#fff',
+  fontSize: 11,
+  cursor: 'pointer',
+};
+
+export default function RevisionHistoryPanel({
+  revisions,
+  isLoading,
+  error,
+  previewRevisionNumber,
+  onRefresh,
+  onPreview,
+  onCompare,
+  onRestore,
+  onClose,
+}: RevisionHistoryPanelProps) {
+  return (
+    <div
+      onClick={(e) => e.stopPropagation()}
+      style={{
+        width: 320,
+        maxHeight: '70vh',
+        display: 'flex',
+        flexDirection: 'column',
+        background: '#1a1a2e',
+        border: '1px solid #4fc3f7',
+        borderRadius: 8,
+        boxShadow: '0 4px 16px rgba(0,0,0,0.4)',
+        color: '#fff',
+      }}
+    >
+      <div
+        style={{
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'space-between',
+          padding: '10px 12px',
+          borderBottom: '1px solid rgba(79, 195, 247, 0.3)',
+        }}
+      >
+        <span style={{ fontSize: 14, fontWeight: 700 }}>🕘 Geçmiş</span>
+        <span style={{ display: 'flex', gap: 4 }}>
+          <button onClick={onRefresh} title="Yenile" style={{ ...smallButtonStyle, border: 'none' }}>
+            ⟳
+          </button>
+          <button
+            onClick={onClose}
+            title="Kapat"
+            style={{ padding: '2px 8px', background: 'transparent', border: 'none', color: '#888', cursor: 'pointer' }}
+          >
+            ✕
+          </button>
+        </span>
+      </div>
+
+      <div style={{ overflowY: 'auto', flex: 1 }}>
+        {isLoading && (
+          <div style={{ padding: '12px 16px', color: '#888', fontSize: 12, textAlign: 'center' }}>Yükleniyor...</div>
+        )}
+        {!isLoading && error && (
+          <div style={{ padding: '12px 16px', color: '#ff5252', fontSize: 12 }}>Hata: {error}</div>
+        )}
+        {!isLoading && !error && revisions.length === 0 && (
+          <div style={{ padding: '12px 16px', color: '#888', fontSize: 12, textAlign: 'center' }}>
+            Henüz kayıtlı revizyon yok
+          </div>
+        )}
+        {!isLoading && !error && revisions.map((revision) => (
+          <div
+            key={revision.number}
+            style={{
+              padding: '8px 12px',
+              borderBottom: '1px solid rgba(79, 195, 247, 0.1)',
+              background: previewRevisionNumber === revision.number ? '#2a2a4e' : 'transparent',
+              fontSize: 12,
+            }}
+          >
+            <div style={{ display: 'flex', justifyContent: 'space-between', gap: 8 }}>
+              <strong>#{revision.number}</strong>
+              <span style={{ color: '#aaa' }}>{new Date(revision.createdAt).toLocaleString('tr-TR')}</span>
+            </div>
+            <div style={{ color: '#4fc3f7' }}>{revision.author}</div>
+            {revision.message && <div style={{ color: '#ccc', wordBreak: 'break-word' }}>{revision.message}</div>}
+            <div style={{ display: 'flex', gap: 6, marginTop: 6 }}>
+              <button onClick={() => onPreview(revision.number)} style={smallButtonStyle}>
+                👁 Önizle
+              </button>
+              <button onClick={() => onCompare(revision.number)} title="Kanvasla karşılaştır" style={smallButtonStyle}>
+                ⇄ Karşılaştır
+              </button>
+              <button onClick={() => onRestore(revision.number)} style={smallButtonStyle}>
+                ↺ Geri Yükle
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,171 @@
+import { useState } from 'react';
+import { DIFF_STATUS_COLORS, type WorkflowConflict, type WorkflowDiffItem } from './diff';
+
+type SaveConflictDialogProps = {
+  serverVersion: string | null;
+  conflicts: WorkflowConflict[];
+  mineOnly: WorkflowDiffItem[];
+  theirsOnly: WorkflowDiffItem[];
+  hasBase: boolean;  // Without a common base only the server state can be offered
+  onReload: () => void;
+  onForceOverwrite: () => void;
+  onCompareOnCanvas: () => void;
+  onClose: () => void;
+};
+
+const dialogButtonStyle: React.CSSProperties = {
+  padding: '10px 12px',
+  borderRadius: 8,
+  border: '1px solid #4fc3f7',
+  background: 'transparent',
+  color: '#fff',
+  cursor: 'pointer',
+};
+
+function ChangeList({ title, items }: { title: string; items: WorkflowDiffItem[] }) {
+  return (
+    <div>
+      <div style={{ fontSize: 12, fontWeight: 600, marginBottom: 4 }}>
+        {title} ({items.length})
+      </div>
+      {items.map((item) => (
+        <div key={item.id} style={{ fontSize: 12, color: DIFF_STATUS_COLORS[item.status], wordBreak: 'break-all' }}>
+          • {item.message}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export default function SaveConflictDialog({
+  serverVersion,
+  conflicts,
+  mineOnly,
+  theirsOnly,
+  hasBase,
+  onReload,
+  onForceOverwrite,
+  onCompareOnCanvas,
+  onClose,
+}: SaveConflictDialogProps) {
+  const [showMerge, setShowMerge] = useState(false);
+
+  return (
+    <div
+      onClick={onClose}
+      style={{
+        position: 'fixed',
+        inset: 0,
+        background: 'rgba(0,0,0,0.45)',
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        padding: 16,
+        zIndex: 9999,
+      }}
+    >
+      <div
+        onClick={(e) => e.stopPropagation()}
+        onKeyDown={(e) => {
+          if (e.key === 'Escape') onClose();
+        }}
+        tabIndex={-1}
+        style={{
+          width: 560,
+          maxWidth: '100%',
+          maxHeight: '85vh',
+          display: 'flex',
+          flexDirection: 'column',
+          gap: 12,
+          background: '#1a1a2e',
+          border: '1px solid #ff9800',
+          borderRadius: 12,
+          padding: 16,
+          boxShadow: '0 10px 30px rgba(0,0,0,0.25)',
+          color: '#fff',
+        }}
+      >
+        <div style={{ fontSize: 18, fontWeight: 700 }}>⚠️ Kayıt Çakışması</div>
+        <div style={{ fontSize: 13, color: '#ccc' }}>
+          Siz düzenlerken iş akışı sunucuda başka biri tarafından değiştirildi
+          {serverVersion ? ` (sunucu sürümü ${serverVersion})` : ''}. Değişiklikleriniz kaydedilmedi.
+        </div>
+
+        {showMerge && (
+          <div
+            style={{
+              overflowY: 'auto',
+              display: 'flex',
+              flexDirection: 'column',
+              gap: 10,
+              padding: 8,
+              background: 'rgba(255,255,255,0.05)',
+              borderRadius: 8,
+            }}
+          >
+            {hasBase ? (
+              <>
+                <div>
+                  <div style={{ fontSize: 12, fontWeight: 600, marginBottom: 4, color: '#ff5252' }}>
+                    Her iki tarafta değişenler ({conflicts.length})
+                  </div>
+                  {conflicts.length === 0 && (
+                    <div style={{ fontSize: 12, color: '#81c784' }}>Aynı öğeyi değiştiren yok</div>
+                  )}
+                  {conflicts.map((conflict) => (
+                    <div key={conflict.key} style={{ fontSize: 12, marginBottom: 4, wordBreak: 'break-all' }}>
+                      {conflict.mine.map((item) => (
+                        <div key={item.id} style={{ color: DIFF_STATUS_COLORS[item.status] }}>Siz: {item.message}</div>
+                      ))}
+                      {conflict.theirs.map((item) => (
+                        <div key={item.id} style={{ color: DIFF_STATUS_COLORS[item.status] }}>Sunucu: {item.message}</div>
+                      ))}
+                    </div>
+                  ))}
+                </div>
+                <ChangeList title="Sadece sizin değişiklikleriniz" items={mineOnly} />
+                <ChangeList title="Sadece sunucudaki değişiklikler" items={theirsOnly} />
+              </>
+            ) : (
+              <div style={{ fontSize: 12, color: '#888' }}>
+                Ortak bir başlangıç hali olmadığı için değişiklikler ayrıştırılamıyor. Kanvasta karşılaştırmayı kullanın.
+              </div>
+            )}
+          </div>
+        )}
+
+        <div style={{ display: 'flex', flexWrap: 'wrap', gap: 8, justifyContent: 'flex-end' }}>
+          <button autoFocus onClick={() => setShowMerge(!showMerge)} style={dialogButtonStyle}>
+            {showMerge ? 'Listeyi Gizle' : '⇄ Birleştirme Görünümü'}
+          </button>
+          <button onClick={onCompareOnCanvas} style={dialogButtonStyle}>
+            Kanvasta Karşılaştır
+          </button>
+          <button onClick={onReload} style={dialogButtonStyle}>
+            ⟳ Sunucudakini Yükle
+          </button>
+          <button
+            onClick={onForceOverwrite}
+            style={{ ...dialogButtonStyle, border: '1px solid #c62828', color: '#ff5252' }}
+          >
+            Zorla Üzerine Yaz
+          </button>
+          <button
+            onClick={onClose}
+            style={{
+              padding: '10px 12px',
+              borderRadius: 8,
+              border: '1px solid #999',
+              background: '#e0e0e0',
+              color: '#333',
+              cursor: 'pointer',
+            }}
+          >
+            İptal
+          </button>
+        </div>
+        <div style={{ fontSize: 12, opacity: 0.7 }}>İpucu: Esc = Kapat</div>
+      </div>
+    </div>
+  );
+}
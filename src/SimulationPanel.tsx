@@ -0,0 +1,146 @@
+import { useState } from 'react';
+import type { Node } from 'reactflow';
+import { getSimulationNodeName, type SimulationChoice, type SimulationStep } from './simulation';
+import type { NodeData } from './workflow';
+
+type SimulationPanelProps = {
+  nodes: Node<NodeData>[];
+  startCandidates: Node<NodeData>[];
+  defaultStartId: string | null;
+  trail: SimulationStep[];
+  choices: SimulationChoice[];
+  onStart: (nodeId: string) => void;
+  onChoose: (choice: SimulationChoice) => void;
+  onBack: () => void;
+  onExport: () => void;
+  onClose: () => void;
+};
+
+const panelButtonStyle: React.CSSProperties = {
+  padding: '6px 10px',
+  borderRadius: 6,
+  border: '1px solid rgba(79, 195, 247, 0.5)',
+  background: 'transparent',
+  color: '#fff',
+  fontSize: 12,
+  cursor: 'pointer',
+};
+
+export default function SimulationPanel({
+  nodes,
+  startCandidates,
+  defaultStartId,
+  trail,
+  choices,
+  onStart,
+  onChoose,
+  onBack,
+  onExport,
+  onClose,
+}: SimulationPanelProps) {
+  const [startId, setStartId] = useState(defaultStartId ?? startCandidates[0]?.id ?? '');
+  const nameOf = (nodeId: string) => getSimulationNodeName(nodes.find((n) => n.id === nodeId));
+  const current = trail[trail.length - 1];
+
+  return (
+    <div
+      onClick={(e) => e.stopPropagation()}
+      style={{
+        width: 420,
+        maxHeight: '45vh',
+        display: 'flex',
+        flexDirection: 'column',
+        gap: 8,
+        padding: 12,
+        background: '#1a1a2e',
+        border: '1px solid #ffeb3b',
+        borderRadius: 8,
+        boxShadow: '0 4px 16px rgba(0,0,0,0.4)',
+        color: '#fff',
+        fontSize: 12,
+      }}
+    >
+      <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
+        <span style={{ fontSize: 14, fontWeight: 700 }}>▶ Simülasyon</span>
+        <button
+          onClick={onClose}
+          title="Simülasyonu kapat"
+          style={{ padding: '2px 8px', background: 'transparent', border: 'none', color: '#888', cursor: 'pointer' }}
+        >
+          ✕
+        </button>
+      </div>
+
+      <div style={{ display: 'flex', gap: 6 }}>
+        <select
+          value={startId}
+          onChange={(e) => setStartId(e.target.value)}
+          style={{ flex: 1, minWidth: 0, padding: '6px 8px', borderRadius: 6, border: '1px solid #ccc', fontSize: 12 }}
+        >
+          {startCandidates.map((n) => (
+            <option key={n.id} value={n.id}>
+              {getSimulationNodeName(n)}
+            </option>
+          ))}
+        </select>
+        <button onClick={() => startId && onStart(startId)} disabled={!startId} style={panelButtonStyle}>
+          {trail.length ? 'Yeniden Başlat' : 'Başlat'}
+        </button>
+      </div>
+
+      {current && (
+        <>
+          <div>
+            <span style={{ color: '#aaa' }}>Şu an: </span>
+            <strong style={{ color: '#ffeb3b', wordBreak: 'break-all' }}>{nameOf(current.nodeId)}</strong>
+          </div>
+
+          <div style={{ display: 'flex', flexDirection: 'column', gap: 4 }}>
+            {choices.length === 0 ? (
+              <span style={{ color: '#81c784' }}>⏹ Bu noktadan çıkış yok (akış sonu)</span>
+            ) : (
+              choices.map((choice) => (
+                <button
+                  key={`${choice.kind}-${choice.edgeId ?? choice.targetId}`}
+                  onClick={() => onChoose(choice)}
+                  style={{ ...panelButtonStyle, textAlign: 'left', wordBreak: 'break-all' }}
+                >
+                  {choice.pending && <span style={{ color: '#b39ddb' }}>∥ Bekleyen dal </span>}
+                  {choice.kind === 'jump' ? '⬆️ Land\'e atla → ' : '→ '}
+                  {choice.label && <span style={{ color: '#4fc3f7' }}>[{choice.label}] </span>}
+                  {nameOf(choice.targetId)}
+                </button>
+              ))
+            )}
+          </div>
+
+          <div
+            style={{
+              overflowY: 'auto',
+              flex: 1,
+              padding: 6,
+              background: 'rgba(255,255,255,0.05)',
+              borderRadius: 6,
+              wordBreak: 'break-all',
+            }}
+          >
+            {trail.map((step, index) => (
+              <div key={index} style={{ color: index === trail.length - 1 ? '#ffeb3b' : '#ccc' }}>
+                {index + 1}. {step.via === 'jump' ? '⬆️ ' : ''}{nameOf(step.nodeId)}
+              </div>
+            ))}
+          </div>
+
+          <div style={{ display: 'flex', gap: 6, justifyContent: 'flex-end' }}>
+            <button onClick={onBack} disabled={trail.length < 2} style={panelButtonStyle}>
+              ↶ Geri
+            </button>
+            <button onClick={onExport} style={panelButtonStyle}>
+              📤 İzi Dışa Aktar
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
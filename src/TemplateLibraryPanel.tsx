@@ -0,0 +1,253 @@
+import { useMemo, useState } from 'react';
+import { groupTemplatesByPrefix, normalizeSearchText, type TemplateSummary } from './templates';
+
+type TemplateLibraryPanelProps = {
+  templates: TemplateSummary[];
+  usage: Map<string, number>;
+  onCreate: (ad: string, aciklama: string) => void;
+  onUpdate: (id: string, ad: string, aciklama: string) => void;
+  onDelete: (id: string) => void;
+  onClose: () => void;
+};
+
+// null id = new template
+type TemplateForm = { id: string | null; ad: string; aciklama: string };
+
+const smallButtonStyle: React.CSSProperties = {
+  padding: '4px 8px',
+  borderRadius: 6,
+  border: '1px solid rgba(79, 195, 247, 0.5)',
+  background: 'transparent',
+  color: '#fff',
+  fontSize: 11,
+  cursor: 'pointer',
+};
+
+const inputStyle: React.CSSProperties = {
+  width: '100%',
+  padding: '6px 8px',
+  borderRadius: 6,
+  border: '1px solid #ccc',
+  fontSize: 12,
+  boxSizing: 'border-box',
+};
+
+export default function TemplateLibraryPanel({
+  templates,
+  usage,
+  onCreate,
+  onUpdate,
+  onDelete,
+  onClose,
+}: TemplateLibraryPanelProps) {
+  const [query, setQuery] = useState('');
+  const [form, setForm] = useState<TemplateForm | null>(null);
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+
+  const groups = useMemo(() => {
+    const q = normalizeSearchText(query.trim());
+    const matching = q
+      ? templates.filter((t) => normalizeSearchText(`${t.ad} ${t.aciklama}`).includes(q))
+      : templates;
+    return groupTemplatesByPrefix(matching);
+  }, [templates, query]);
+
+  const formAd = form?.ad.trim() ?? '';
+  const isDuplicate = Boolean(form && templates.some((t) => t.id !== form.id && t.ad === formAd));
+  const canSubmit = Boolean(formAd) && !isDuplicate;
+
+  const submitForm = () => {
+    if (!form || !canSubmit) return;
+    if (form.id) {
+      onUpdate(form.id, formAd, form.aciklama.trim());
+    } else {
+      onCreate(formAd, form.aciklama.trim());
+    }
+    setForm(null);
+  };
+
+  const toggleGroup = (prefix: string) => {
+    setCollapsed((current) => {
+      const next = new Set(current);
+      if (next.has(prefix)) next.delete(prefix);
+      else next.add(prefix);
+      return next;
+    });
+  };
+
+  return (
+    <div
+      onClick={(e) => e.stopPropagation()}
+      style={{
+        width: 340,
+        maxHeight: '70vh',
+        display: 'flex',
+        flexDirection: 'column',
+        background: '#1a1a2e',
+        border: '1px solid #4fc3f7',
+        borderRadius: 8,
+        boxShadow: '0 4px 16px rgba(0,0,0,0.4)',
+        color: '#fff',
+      }}
+    >
+      <div
+        style={{
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'space-between',
+          padding: '10px 12px',
+          borderBottom: '1px solid rgba(79, 195, 247, 0.3)',
+        }}
+      >
+        <span style={{ fontSize: 14, fontWeight: 700 }}>
+          📚 Şablonlar <span style={{ fontWeight: 400, color: '#aaa' }}>({templates.length})</span>
+        </span>
+        <button
+          onClick={onClose}
+          title="Kapat"
+          style={{ padding: '2px 8px', background: 'transparent', border: 'none', color: '#888', cursor: 'pointer' }}
+        >
+          ✕
+        </button>
+      </div>
+
+      <div style={{ display: 'flex', gap: 6, padding: '8px 12px' }}>
+        <input
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Ad veya açıklamada ara..."
+          style={{ ...inputStyle, flex: 1 }}
+        />
+        <button onClick={() => setForm({ id: null, ad: '', aciklama: '' })} style={smallButtonStyle}>
+          ＋ Yeni
+        </button>
+      </div>
+
+      {form && (
+        <div
+          onKeyDown={(e) => {
+            if (e.key === 'Escape') setForm(null);
+          }}
+          style={{
+            display: 'flex',
+            flexDirection: 'column',
+            gap: 6,
+            margin: '0 12px 8px',
+            padding: 8,
+            borderRadius: 6,
+            background: '#2a2a4e',
+          }}
+        >
+          <span style={{ fontSize: 12, fontWeight: 700 }}>{form.id ? 'Şablonu düzenle' : 'Yeni şablon'}</span>
+          <input
+            autoFocus
+            value={form.ad}
+            onChange={(e) => setForm({ ...form, ad: e.target.value })}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') submitForm();
+            }}
+            placeholder="Ad (ör. OI_KONTROL_TUTANAGI)"
+            style={inputStyle}
+          />
+          <textarea
+            value={form.aciklama}
+            onChange={(e) => setForm({ ...form, aciklama: e.target.value })}
+            placeholder="Açıklama"
+            rows={3}
+            style={{ ...inputStyle, resize: 'vertical', fontFamily: 'inherit' }}
+          />
+          {isDuplicate && <span style={{ fontSize: 11, color: '#ff5252' }}>Bu adla bir şablon zaten var</span>}
+          <div style={{ display: 'flex', justifyContent: 'flex-end', gap: 6 }}>
+            <button onClick={() => setForm(null)} style={smallButtonStyle}>
+              İptal
+            </button>
+            <button
+              onClick={submitForm}
+              disabled={!canSubmit}
+              style={{ ...smallButtonStyle, background: '#4fc3f7', color: '#1a1a2e', opacity: canSubmit ? 1 : 0.4 }}
+            >
+              Kaydet
+            </button>
+          </div>
+        </div>
+      )}
+
+      <div style={{ overflowY: 'auto', flex: 1, borderTop: '1px solid rgba(79, 195, 247, 0.3)' }}>
+        {groups.length === 0 && (
+          <div style={{ padding: '12px 16px', color: '#888', fontSize: 12, textAlign: 'center' }}>
+            {templates.length === 0 ? 'Şablon yok' : 'Eşleşen şablon yok'}
+          </div>
+        )}
+        {groups.map((group) => {
+          // Searching always shows the hits, even in collapsed groups
+          const isCollapsed = collapsed.has(group.prefix) && !query.trim();
+          return (
+            <div key={group.prefix}>
+              <button
+                onClick={() => toggleGroup(group.prefix)}
+                style={{
+                  width: '100%',
+                  padding: '6px 12px',
+                  background: 'rgba(79, 195, 247, 0.08)',
+                  border: 'none',
+                  borderBottom: '1px solid rgba(79, 195, 247, 0.1)',
+                  color: '#4fc3f7',
+                  fontSize: 11,
+                  fontWeight: 700,
+                  textAlign: 'left',
+                  cursor: 'pointer',
+                }}
+              >
+                {isCollapsed ? '▶' : '▼'} {group.prefix || 'Öneksiz'} ({group.templates.length})
+              </button>
+              {!isCollapsed && group.templates.map((template) => {
+                const count = usage.get(template.id) ?? 0;
+                return (
+                  <div
+                    key={template.id}
+                    style={{
+                      display: 'flex',
+                      alignItems: 'flex-start',
+                      gap: 8,
+                      padding: '8px 12px',
+                      borderBottom: '1px solid rgba(79, 195, 247, 0.1)',
+                      fontSize: 12,
+                    }}
+                  >
+                    <div style={{ flex: 1, minWidth: 0 }}>
+                      <div style={{ fontWeight: 600, wordBreak: 'break-all' }}>{template.ad}</div>
+                      {template.aciklama && (
+                        <div
+                          title={template.aciklama}
+                          style={{ color: '#aaa', fontSize: 11, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}
+                        >
+                          {template.aciklama}
+                        </div>
+                      )}
+                    </div>
+                    <span
+                      title="Bu şablondan oluşturulan kanvas node sayısı"
+                      style={{ color: count > 0 ? '#81c784' : '#888', fontSize: 11, whiteSpace: 'nowrap' }}
+                    >
+                      {count} kullanım
+                    </span>
+                    <button
+                      onClick={() => setForm({ id: template.id, ad: template.ad, aciklama: template.aciklama })}
+                      title="Düzenle"
+                      style={smallButtonStyle}
+                    >
+                      ✎
+                    </button>
+                    <button onClick={() => onDelete(template.id)} title="Sil" style={{ ...smallButtonStyle, color: '#ff5252' }}>
+                      🗑
+                    </button>
+                  </div>
+                );
+              })}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,270 @@
+import { useMemo, useState } from 'react';
+import type { Sheet } from './spreadsheet';
+import {
+  guessColumnMapping,
+  guessTemplateColumns,
+  guessTransitionColumns,
+  previewTransitionTable,
+  type TemplateField,
+  type TransitionColumnMapping,
+  type TransitionField,
+  type TransitionTablePreview,
+} from './transitionTable';
+
+type TransitionImportDialogProps = {
+  sheets: Sheet[];
+  existingTemplateNames: Set<string>;
+  onImport: (preview: TransitionTablePreview) => void;
+  onClose: () => void;
+};
+
+const MAX_LISTED_NAMES = 12;
+
+const TRANSITION_FIELDS: { field: TransitionField; label: string; required: boolean }[] = [
+  { field: 'source', label: 'İşlem türü (kaynak)', required: true },
+  { field: 'target', label: 'Sonraki işlem türü', required: true },
+  { field: 'label', label: 'Etiket', required: false },
+  { field: 'outcome', label: 'Outcome', required: false },
+  { field: 'guard', label: 'Koşul (guard)', required: false },
+];
+
+const TEMPLATE_FIELDS: { field: TemplateField; label: string; required: boolean }[] = [
+  { field: 'ad', label: 'Ad', required: true },
+  { field: 'aciklama', label: 'Açıklama', required: false },
+];
+
+const smallButtonStyle: React.CSSProperties = {
+  padding: '6px 12px',
+  borderRadius: 6,
+  border: '1px solid rgba(79, 195, 247, 0.5)',
+  background: 'transparent',
+  color: '#fff',
+  fontSize: 12,
+  cursor: 'pointer',
+};
+
+const fieldStyle: React.CSSProperties = {
+  display: 'flex',
+  alignItems: 'center',
+  justifyContent: 'space-between',
+  gap: 12,
+  fontSize: 12,
+};
+
+const selectStyle: React.CSSProperties = {
+  width: 200,
+  padding: '3px 6px',
+  borderRadius: 6,
+  fontSize: 12,
+};
+
+const sectionStyle: React.CSSProperties = {
+  display: 'flex',
+  flexDirection: 'column',
+  gap: 6,
+  padding: 8,
+  borderRadius: 8,
+  background: 'rgba(255,255,255,0.05)',
+};
+
+function ColumnSelect({
+  sheet,
+  value,
+  required,
+  onChange,
+}: {
+  sheet: Sheet | undefined;
+  value: number | null;
+  required: boolean;
+  onChange: (value: number | null) => void;
+}) {
+  const headers = sheet?.rows[0] ?? [];
+  return (
+    <select
+      value={value ?? ''}
+      onChange={(e) => onChange(e.target.value === '' ? null : Number(e.target.value))}
+      style={selectStyle}
+    >
+      {!required && <option value="">—</option>}
+      {headers.map((header, index) => (
+        <option key={index} value={index}>
+          {header || `Sütun ${index + 1}`}
+        </option>
+      ))}
+    </select>
+  );
+}
+
+export default function TransitionImportDialog({
+  sheets,
+  existingTemplateNames,
+  onImport,
+  onClose,
+}: TransitionImportDialogProps) {
+  const [mapping, setMapping] = useState<TransitionColumnMapping>(() => guessColumnMapping(sheets));
+
+  const preview = useMemo(
+    () => previewTransitionTable(sheets, mapping, existingTemplateNames),
+    [sheets, mapping, existingTemplateNames]
+  );
+
+  const transitionSheet = sheets[mapping.transitionSheet];
+  const templateSheet = mapping.templateSheet === null ? undefined : sheets[mapping.templateSheet];
+
+  return (
+    <div
+      style={{
+        position: 'fixed',
+        inset: 0,
+        background: 'rgba(0,0,0,0.45)',
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        padding: 16,
+        zIndex: 9999,
+      }}
+    >
+      <div
+        onKeyDown={(e) => {
+          if (e.key === 'Escape') onClose();
+        }}
+        tabIndex={-1}
+        style={{
+          width: 480,
+          maxWidth: '100%',
+          maxHeight: '85vh',
+          overflowY: 'auto',
+          display: 'flex',
+          flexDirection: 'column',
+          gap: 12,
+          background: '#1a1a2e',
+          border: '1px solid #4fc3f7',
+          borderRadius: 12,
+          padding: 16,
+          boxShadow: '0 10px 30px rgba(0,0,0,0.25)',
+          color: '#fff',
+        }}
+      >
+        <div style={{ fontSize: 18, fontWeight: 700 }}>📊 Geçiş tablosunu içe aktar</div>
+
+        <div style={sectionStyle}>
+          <div style={fieldStyle}>
+            <span style={{ fontWeight: 700 }}>Geçişler sayfası</span>
+            <select
+              value={mapping.transitionSheet}
+              onChange={(e) => {
+                const index = Number(e.target.value);
+                setMapping({ ...mapping, transitionSheet: index, columns: guessTransitionColumns(sheets[index]) });
+              }}
+              style={selectStyle}
+            >
+              {sheets.map((sheet, index) => (
+                <option key={index} value={index}>
+                  {sheet.name}
+                </option>
+              ))}
+            </select>
+          </div>
+          {TRANSITION_FIELDS.map(({ field, label, required }) => (
+            <div key={field} style={fieldStyle}>
+              <span>{label}</span>
+              <ColumnSelect
+                sheet={transitionSheet}
+                value={mapping.columns[field]}
+                required={required}
+                onChange={(value) => setMapping({ ...mapping, columns: { ...mapping.columns, [field]: value } })}
+              />
+            </div>
+          ))}
+        </div>
+
+        <div style={sectionStyle}>
+          <div style={fieldStyle}>
+            <span style={{ fontWeight: 700 }}>İşlem türleri sayfası</span>
+            <select
+              value={mapping.templateSheet ?? ''}
+              onChange={(e) => {
+                const index = e.target.value === '' ? null : Number(e.target.value);
+                setMapping({
+                  ...mapping,
+                  templateSheet: index,
+                  templateColumns: guessTemplateColumns(index === null ? undefined : sheets[index]),
+                });
+              }}
+              style={selectStyle}
+            >
+              <option value="">— (yok)</option>
+              {sheets.map((sheet, index) => (
+                <option key={index} value={index}>
+                  {sheet.name}
+                </option>
+              ))}
+            </select>
+          </div>
+          {templateSheet &&
+            TEMPLATE_FIELDS.map(({ field, label, required }) => (
+              <div key={field} style={fieldStyle}>
+                <span>{label}</span>
+                <ColumnSelect
+                  sheet={templateSheet}
+                  value={mapping.templateColumns[field]}
+                  required={required}
+                  onChange={(value) =>
+                    setMapping({ ...mapping, templateColumns: { ...mapping.templateColumns, [field]: value } })
+                  }
+                />
+              </div>
+            ))}
+        </div>
+
+        <div style={{ ...sectionStyle, fontSize: 12 }}>
+          <div>
+            {preview.transitions.length} geçiş, {preview.boxNames.length} kutu, {preview.templates.length} işlem türü
+          </div>
+          {preview.skippedRows > 0 && (
+            <div style={{ color: '#aaa' }}>• Kaynağı ya da hedefi boş {preview.skippedRows} satır atlanacak</div>
+          )}
+          {preview.unmatchedNames.length > 0 && (
+            <>
+              <div style={{ color: '#ffb74d' }}>
+                İşlem türleri arasında bulunamayan {preview.unmatchedNames.length} ad (kutu oluşturulur, şablona bağlanmaz):
+              </div>
+              <div style={{ color: '#ffb74d', wordBreak: 'break-all' }}>
+                {preview.unmatchedNames.slice(0, MAX_LISTED_NAMES).map((name) => (
+                  <div key={name}>• {name}</div>
+                ))}
+                {preview.unmatchedNames.length > MAX_LISTED_NAMES && (
+                  <div style={{ color: '#aaa' }}>… ve {preview.unmatchedNames.length - MAX_LISTED_NAMES} ad daha</div>
+                )}
+              </div>
+            </>
+          )}
+        </div>
+
+        <div style={{ fontSize: 11, color: '#aaa' }}>
+          Kanvastaki akışın yerini alır; mevcut şablonlar korunur. Geri almak için Ctrl+Z.
+        </div>
+
+        <div style={{ display: 'flex', justifyContent: 'flex-end', gap: 8 }}>
+          <button onClick={onClose} style={smallButtonStyle}>
+            İptal
+          </button>
+          <button
+            autoFocus
+            onClick={() => onImport(preview)}
+            disabled={!preview.transitions.length}
+            style={{
+              ...smallButtonStyle,
+              background: '#4fc3f7',
+              color: '#1a1a2e',
+              fontWeight: 700,
+              opacity: preview.transitions.length ? 1 : 0.4,
+            }}
+          >
+            İçe Aktar
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
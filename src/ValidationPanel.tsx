@@ -0,0 +1,114 @@
+import type { WorkflowProblem } from './validation';
+
+type ValidationPanelProps = {
+  problems: WorkflowProblem[];
+  blockSaveOnErrors: boolean;
+  onBlockSaveOnErrorsChange: (value: boolean) => void;
+  onSelectProblem: (problem: WorkflowProblem) => void;
+  onClose: () => void;
+};
+
+export default function ValidationPanel({
+  problems,
+  blockSaveOnErrors,
+  onBlockSaveOnErrorsChange,
+  onSelectProblem,
+  onClose,
+}: ValidationPanelProps) {
+  const errorCount = problems.filter((p) => p.severity === 'error').length;
+  const warningCount = problems.length - errorCount;
+
+  return (
+    <div
+      onClick={(e) => e.stopPropagation()}
+      style={{
+        width: 320,
+        maxHeight: '70vh',
+        display: 'flex',
+        flexDirection: 'column',
+        background: '#1a1a2e',
+        border: '1px solid #4fc3f7',
+        borderRadius: 8,
+        boxShadow: '0 4px 16px rgba(0,0,0,0.4)',
+        color: '#fff',
+      }}
+    >
+      <div
+        style={{
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'space-between',
+          padding: '10px 12px',
+          borderBottom: '1px solid rgba(79, 195, 247, 0.3)',
+        }}
+      >
+        <span style={{ fontSize: 14, fontWeight: 700 }}>
+          Doğrulama
+          <span style={{ marginLeft: 8, fontSize: 12, color: '#ff5252' }}>{errorCount} hata</span>
+          <span style={{ marginLeft: 6, fontSize: 12, color: '#ffb74d' }}>{warningCount} uyarı</span>
+        </span>
+        <button
+          onClick={onClose}
+          title="Kapat"
+          style={{ padding: '2px 8px', background: 'transparent', border: 'none', color: '#888', cursor: 'pointer' }}
+        >
+          ✕
+        </button>
+      </div>
+
+      <div style={{ overflowY: 'auto', flex: 1 }}>
+        {problems.length === 0 ? (
+          <div style={{ padding: '12px 16px', color: '#81c784', fontSize: 12, textAlign: 'center' }}>
+            ✅ Sorun bulunamadı
+          </div>
+        ) : (
+          problems.map((problem) => (
+            <button
+              key={problem.id}
+              onClick={() => onSelectProblem(problem)}
+              style={{
+                width: '100%',
+                padding: '8px 12px',
+                background: 'transparent',
+                border: 'none',
+                borderBottom: '1px solid rgba(79, 195, 247, 0.1)',
+                borderRadius: 0,
+                color: '#fff',
+                fontSize: 12,
+                textAlign: 'left',
+                cursor: 'pointer',
+                display: 'flex',
+                gap: 8,
+                wordBreak: 'break-all',
+              }}
+              onMouseEnter={(e) => (e.currentTarget.style.background = '#2a2a4e')}
+              onMouseLeave={(e) => (e.currentTarget.style.background = 'transparent')}
+            >
+              <span>{problem.severity === 'error' ? '⛔' : '⚠️'}</span>
+              <span>{problem.message}</span>
+            </button>
+          ))
+        )}
+      </div>
+
+      <label
+        style={{
+          display: 'flex',
+          alignItems: 'center',
+          gap: 6,
+          padding: '8px 12px',
+          fontSize: 12,
+          color: '#ccc',
+          borderTop: '1px solid rgba(79, 195, 247, 0.3)',
+        }}
+      >
+        <input
+          type="checkbox"
+          checked={blockSaveOnErrors}
+          onChange={(e) => onBlockSaveOnErrorsChange(e.target.checked)}
+        />
+        Hata varken sunucuya kaydetmeyi engelle
+      </label>
+    </div>
+  );
+}
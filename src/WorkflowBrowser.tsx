@@ -0,0 +1,303 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { normalizeSearchText } from './templates';
+import type { WorkflowSummary } from './workflow';
+import { getApiErrorMessage, type WorkflowApi } from './workflowApi';
+import { getWorkflowUrl } from './workflowRoute';
+
+type WorkflowBrowserProps = {
+  api: WorkflowApi;
+  onOpen: (workflowId: string) => void;
+  openWorkflowIds?: Set<string>;   // Workflows with an editor tab
+  dirtyWorkflowIds?: Set<string>;  // Open with unsaved changes
+  onDeleted?: (workflowId: string) => void;
+};
+
+const menuItemStyle: React.CSSProperties = {
+  width: '100%',
+  padding: '8px 16px',
+  background: 'transparent',
+  border: 'none',
+  color: '#fff',
+  fontSize: 13,
+  textAlign: 'left',
+  cursor: 'pointer',
+};
+
+function sortByUpdatedAt(workflows: WorkflowSummary[]): WorkflowSummary[] {
+  return [...workflows].sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+}
+
+export default function WorkflowBrowser({
+  api,
+  onOpen,
+  openWorkflowIds,
+  dirtyWorkflowIds,
+  onDeleted,
+}: WorkflowBrowserProps) {
+  const [workflows, setWorkflows] = useState<WorkflowSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [query, setQuery] = useState('');
+  const [menuWorkflowId, setMenuWorkflowId] = useState<string | null>(null);
+
+  const loadWorkflows = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+      setWorkflows(sortByUpdatedAt(await api.listWorkflows()));
+    } catch (err) {
+      setError(getApiErrorMessage(err));
+      console.error('Failed to load workflows:', err);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [api]);
+
+  useEffect(() => {
+    loadWorkflows();
+  }, [loadWorkflows]);
+
+  const filteredWorkflows = useMemo(() => {
+    const needle = normalizeSearchText(query.trim());
+    return needle ? workflows.filter((w) => normalizeSearchText(w.name).includes(needle)) : workflows;
+  }, [workflows, query]);
+
+  const createWorkflow = useCallback(async () => {
+    const name = prompt('Yeni iş akışının adı:', 'Yeni İş Akışı')?.trim();
+    if (!name) return;
+
+    try {
+      const created = await api.createWorkflow(name);
+      onOpen(created.id);
+    } catch (err) {
+      alert('❌ İş akışı oluşturulamadı: ' + getApiErrorMessage(err));
+      console.error('Workflow create error:', err);
+    }
+  }, [api, onOpen]);
+
+  const renameWorkflow = useCallback(async (workflow: WorkflowSummary) => {
+    setMenuWorkflowId(null);
+    const name = prompt('İş akışının yeni adı:', workflow.name)?.trim();
+    if (!name || name === workflow.name) return;
+
+    try {
+      const renamed = await api.renameWorkflow(workflow.id, name);
+      setWorkflows((current) => sortByUpdatedAt(current.map((w) => (w.id === renamed.id ? renamed : w))));
+    } catch (err) {
+      alert('❌ Yeniden adlandırma hatası: ' + getApiErrorMessage(err));
+      console.error('Workflow rename error:', err);
+    }
+  }, [api]);
+
+  const duplicateWorkflow = useCallback(async (workflow: WorkflowSummary) => {
+    setMenuWorkflowId(null);
+    const name = prompt('Kopyanın adı:', `${workflow.name} (kopya)`)?.trim();
+    if (!name) return;
+
+    try {
+      const copy = await api.duplicateWorkflow(workflow.id, name);
+      setWorkflows((current) => sortByUpdatedAt([...current, copy]));
+    } catch (err) {
+      alert('❌ Çoğaltma hatası: ' + getApiErrorMessage(err));
+      console.error('Workflow duplicate error:', err);
+    }
+  }, [api]);
+
+  const deleteWorkflow = useCallback(async (workflow: WorkflowSummary) => {
+    setMenuWorkflowId(null);
+    const tabNote = dirtyWorkflowIds?.has(workflow.id)
+      ? ' Açık sekmesindeki kaydedilmemiş değişiklikler de kaybolacak.'
+      : openWorkflowIds?.has(workflow.id)
+        ? ' Açık sekmesi kapatılacak.'
+        : '';
+    if (!confirm(`"${workflow.name}" iş akışı ve tüm revizyonları silinsin mi? Bu işlem geri alınamaz.${tabNote}`)) return;
+
+    try {
+      await api.deleteWorkflow(workflow.id);
+      setWorkflows((current) => current.filter((w) => w.id !== workflow.id));
+      onDeleted?.(workflow.id);
+    } catch (err) {
+      alert('❌ Silme hatası: ' + getApiErrorMessage(err));
+      console.error('Workflow delete error:', err);
+    }
+  }, [api, openWorkflowIds, dirtyWorkflowIds, onDeleted]);
+
+  return (
+    <div
+      onClick={() => setMenuWorkflowId(null)}
+      style={{
+        width: '100%',
+        height: '100%',
+        overflowY: 'auto',
+        background: '#1a1a2e',
+        color: '#fff',
+      }}
+    >
+      <div style={{ maxWidth: 760, margin: '0 auto', padding: '40px 16px', display: 'flex', flexDirection: 'column', gap: 16 }}>
+        <div style={{ display: 'flex', alignItems: 'center', gap: 12 }}>
+          <div style={{ fontSize: 28, fontWeight: 700, flex: 1 }}>📂 İş Akışları</div>
+          <button
+            onClick={createWorkflow}
+            style={{
+              padding: '10px 20px',
+              borderRadius: 8,
+              border: 'none',
+              background: '#4fc3f7',
+              color: '#1a1a2e',
+              fontSize: 14,
+              fontWeight: 600,
+              cursor: 'pointer',
+            }}
+          >
+            + Yeni İş Akışı
+          </button>
+        </div>
+
+        <input
+          autoFocus
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="İş akışı ara..."
+          style={{
+            padding: '10px 12px',
+            borderRadius: 8,
+            border: '1px solid #4fc3f7',
+            background: 'rgba(255,255,255,0.05)',
+            color: '#fff',
+            fontSize: 14,
+          }}
+        />
+
+        {isLoading && <div style={{ color: '#aaa' }}>Yükleniyor...</div>}
+
+        {error && (
+          <div style={{ display: 'flex', alignItems: 'center', gap: 12, color: '#ff5252' }}>
+            Hata: {error}
+            <button
+              onClick={loadWorkflows}
+              style={{
+                padding: '6px 12px',
+                borderRadius: 6,
+                border: '1px solid #4fc3f7',
+                background: 'transparent',
+                color: '#4fc3f7',
+                fontSize: 12,
+                cursor: 'pointer',
+              }}
+            >
+              Tekrar Dene
+            </button>
+          </div>
+        )}
+
+        {!isLoading && !error && !filteredWorkflows.length && (
+          <div style={{ color: '#aaa' }}>
+            {workflows.length ? 'Aramayla eşleşen iş akışı yok.' : 'Henüz iş akışı yok. Yeni bir tane oluşturun.'}
+          </div>
+        )}
+
+        <div style={{ display: 'flex', flexDirection: 'column', gap: 8 }}>
+          {filteredWorkflows.map((workflow) => (
+            <div
+              key={workflow.id}
+              style={{
+                position: 'relative',
+                display: 'flex',
+                alignItems: 'center',
+                gap: 8,
+                padding: '12px 16px',
+                borderRadius: 8,
+                border: '1px solid rgba(79, 195, 247, 0.3)',
+                background: 'rgba(255,255,255,0.03)',
+              }}
+            >
+              <a
+                href={getWorkflowUrl(workflow.id)}
+                onClick={(e) => {
+                  // Modified clicks keep the browser behaviour, e.g. Ctrl+click for a new tab
+                  if (e.button !== 0 || e.ctrlKey || e.metaKey || e.shiftKey || e.altKey) return;
+                  e.preventDefault();
+                  onOpen(workflow.id);
+                }}
+                style={{ flex: 1, minWidth: 0, color: '#fff', textDecoration: 'none' }}
+              >
+                <div style={{ fontSize: 15, fontWeight: 600, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                  {workflow.name}
+                </div>
+                <div style={{ fontSize: 12, color: '#aaa', marginTop: 4 }}>
+                  Son değişiklik: {new Date(workflow.updatedAt).toLocaleString('tr-TR')}
+                  {workflow.updatedBy && ` · ${workflow.updatedBy}`}
+                  {' · '}
+                  {workflow.nodeCount} node
+                  {workflow.revision !== undefined && ` · Revizyon #${workflow.revision}`}
+                </div>
+              </a>
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  setMenuWorkflowId(menuWorkflowId === workflow.id ? null : workflow.id);
+                }}
+                title="İşlemler"
+                style={{
+                  padding: '4px 10px',
+                  borderRadius: 6,
+                  border: 'none',
+                  background: 'transparent',
+                  color: '#fff',
+                  fontSize: 18,
+                  cursor: 'pointer',
+                }}
+              >
+                ⋯
+              </button>
+
+              {menuWorkflowId === workflow.id && (
+                <div
+                  onClick={(e) => e.stopPropagation()}
+                  style={{
+                    position: 'absolute',
+                    top: '100%',
+                    right: 8,
+                    zIndex: 10,
+                    minWidth: 180,
+                    padding: '4px 0',
+                    background: '#1a1a2e',
+                    border: '1px solid #4fc3f7',
+                    borderRadius: 8,
+                    boxShadow: '0 4px 16px rgba(0,0,0,0.4)',
+                  }}
+                >
+                  <button
+                    onClick={() => renameWorkflow(workflow)}
+                    onMouseEnter={(e) => (e.currentTarget.style.background = '#2a2a4e')}
+                    onMouseLeave={(e) => (e.currentTarget.style.background = 'transparent')}
+                    style={menuItemStyle}
+                  >
+                    ✏️ Yeniden Adlandır
+                  </button>
+                  <button
+                    onClick={() => duplicateWorkflow(workflow)}
+                    onMouseEnter={(e) => (e.currentTarget.style.background = '#2a2a4e')}
+                    onMouseLeave={(e) => (e.currentTarget.style.background = 'transparent')}
+                    style={menuItemStyle}
+                  >
+                    📄 Çoğalt
+                  </button>
+                  <div style={{ height: 1, background: '#4fc3f7', opacity: 0.3 }} />
+                  <button
+                    onClick={() => deleteWorkflow(workflow)}
+                    onMouseEnter={(e) => (e.currentTarget.style.background = '#2a2a4e')}
+                    onMouseLeave={(e) => (e.currentTarget.style.background = 'transparent')}
+                    style={{ ...menuItemStyle, color: '#ff5252' }}
+                  >
+                    🗑️ Sil
+                  </button>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
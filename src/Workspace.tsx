@@ -0,0 +1,221 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import App from './App';
+import WorkflowBrowser from './WorkflowBrowser';
+import { createWorkflowApi, getApiBaseUrl, type WorkflowClient } from './workflowApi';
+import { getTokenFromURL, getWorkflowIdFromURL, getWorkflowUrl } from './workflowRoute';
+import { WORKFLOW_TAB_ATTRIBUTE, type EditorStatus, type NodeTransfer } from './workflowTabs';
+
+type EditorTab = EditorStatus & {
+  // Created once per tab; a new client object would make the editor load again
+  client: WorkflowClient;
+};
+
+const tabButtonStyle: React.CSSProperties = {
+  padding: '0 4px',
+  border: 'none',
+  background: 'transparent',
+  color: '#aaa',
+  fontSize: 14,
+  cursor: 'pointer',
+};
+
+function isPlainClick(e: React.MouseEvent): boolean {
+  return e.button === 0 && !e.ctrlKey && !e.metaKey && !e.shiftKey && !e.altKey;
+}
+
+/**
+ * Picks the page for the URL. With a token, every opened workflow gets a tab
+ * whose editor stays mounted in the background, so its canvas, viewport and
+ * undo history survive switching; the first tab is the workflow list. Without
+ * a token the editor runs on its own (static data or a new local canvas).
+ */
+export default function Workspace() {
+  const [token] = useState<string | null>(() => getTokenFromURL());
+  const api = useMemo(() => (token ? createWorkflowApi(getApiBaseUrl(), token) : null), [token]);
+  const [activeId, setActiveId] = useState<string | null>(() => getWorkflowIdFromURL());
+  const [tabs, setTabs] = useState<EditorTab[]>(() => {
+    const workflowId = getWorkflowIdFromURL();
+    return api && workflowId ? [{ client: api.workflow(workflowId), name: null, isDirty: false }] : [];
+  });
+  // Tab header under a node drag
+  const [dropTargetId, setDropTargetId] = useState<string | null>(null);
+  // Nodes dragged onto a tab, waiting for its editor to paste them
+  const [transfer, setTransfer] = useState<NodeTransfer | null>(null);
+  // A move the target has pasted, waiting for the source tab to remove the nodes
+  const [completedMove, setCompletedMove] = useState<{ sourceId: string; nodeIds: string[] } | null>(null);
+
+  const showWorkflow = useCallback((id: string | null) => {
+    setActiveId(id);
+    if (!api || !id) return;
+    setTabs((current) =>
+      current.some((tab) => tab.client.workflowId === id)
+        ? current
+        : [...current, { client: api.workflow(id), name: null, isDirty: false }]
+    );
+  }, [api]);
+
+  // Browser back/forward moves between the list and the open tabs
+  useEffect(() => {
+    const onPopState = () => showWorkflow(getWorkflowIdFromURL());
+    window.addEventListener('popstate', onPopState);
+    return () => window.removeEventListener('popstate', onPopState);
+  }, [showWorkflow]);
+
+  const navigate = useCallback((id: string | null) => {
+    window.history.pushState(null, '', getWorkflowUrl(id));
+    showWorkflow(id);
+  }, [showWorkflow]);
+
+  const removeTab = useCallback((workflowId: string) => {
+    const index = tabs.findIndex((t) => t.client.workflowId === workflowId);
+    if (index < 0) return;
+
+    setTabs(tabs.filter((_, i) => i !== index));
+    // A pending transfer to this tab is dropped; a move leaves the nodes in their source
+    if (transfer?.targetId === workflowId) setTransfer(null);
+    if (activeId === workflowId) {
+      const neighbour = tabs[index + 1] ?? tabs[index - 1];
+      navigate(neighbour ? neighbour.client.workflowId : null);
+    }
+  }, [tabs, activeId, navigate, transfer]);
+
+  const closeTab = useCallback((tab: EditorTab) => {
+    const label = tab.name ?? tab.client.workflowId;
+    if (tab.isDirty && !confirm(`"${label}" sekmesinde kaydedilmemiş değişiklikler var. Sekme kapatılsın mı?`)) return;
+    removeTab(tab.client.workflowId);
+  }, [removeTab]);
+
+  const openWorkflowIds = useMemo(() => new Set(tabs.map((t) => t.client.workflowId)), [tabs]);
+  const dirtyWorkflowIds = useMemo(
+    () => new Set(tabs.filter((t) => t.isDirty).map((t) => t.client.workflowId)),
+    [tabs]
+  );
+
+  const updateTabStatus = useCallback((workflowId: string, status: EditorStatus) => {
+    setTabs((current) => {
+      const tab = current.find((t) => t.client.workflowId === workflowId);
+      if (!tab || (tab.name === status.name && tab.isDirty === status.isDirty)) return current;
+      return current.map((t) => (t === tab ? { ...t, ...status } : t));
+    });
+  }, []);
+
+  const startTransfer = useCallback((next: NodeTransfer) => {
+    setTransfer(next);
+    navigate(next.targetId);
+  }, [navigate]);
+
+  const finishTransfer = useCallback((ok: boolean) => {
+    if (ok && transfer?.movedNodeIds) setCompletedMove({ sourceId: transfer.sourceId, nodeIds: transfer.movedNodeIds });
+    setTransfer(null);
+  }, [transfer]);
+
+  const clearCompletedMove = useCallback(() => setCompletedMove(null), []);
+
+  if (!api) {
+    return (
+      <div style={{ width: '100vw', height: '100vh' }}>
+        <App api={null} />
+      </div>
+    );
+  }
+
+  const renderTabHeader = (id: string | null, label: string, tab?: EditorTab) => {
+    const isActive = activeId === id;
+    return (
+      <div
+        key={id ?? ''}
+        {...(id ? { [WORKFLOW_TAB_ATTRIBUTE]: id } : {})}
+        title={tab ? `${label}\nNode'ları buraya sürükleyerek taşıyın (Ctrl ile kopyalayın)` : undefined}
+        style={{
+          display: 'flex',
+          alignItems: 'center',
+          gap: 4,
+          maxWidth: 220,
+          padding: '0 8px 0 12px',
+          borderTop: `2px solid ${isActive ? '#4fc3f7' : 'transparent'}`,
+          background: id && dropTargetId === id ? 'rgba(79, 195, 247, 0.3)' : isActive ? '#2a2a4e' : 'transparent',
+          flexShrink: 0,
+        }}
+      >
+        <a
+          href={getWorkflowUrl(id)}
+          onClick={(e) => {
+            if (!isPlainClick(e)) return;
+            e.preventDefault();
+            if (!isActive) navigate(id);
+          }}
+          style={{
+            overflow: 'hidden',
+            textOverflow: 'ellipsis',
+            whiteSpace: 'nowrap',
+            color: isActive ? '#fff' : '#aaa',
+            fontSize: 13,
+            fontWeight: isActive ? 600 : 400,
+            textDecoration: 'none',
+            lineHeight: '34px',
+          }}
+        >
+          {label}
+        </a>
+        {tab?.isDirty && <span title="Kaydedilmemiş değişiklikler" style={{ color: '#ffb74d', fontSize: 10 }}>●</span>}
+        {tab && (
+          <button onClick={() => closeTab(tab)} title="Sekmeyi kapat" style={tabButtonStyle}>
+            ×
+          </button>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div style={{ width: '100vw', height: '100vh', display: 'flex', flexDirection: 'column' }}>
+      <div
+        style={{
+          display: 'flex',
+          height: 36,
+          overflowX: 'auto',
+          background: '#1a1a2e',
+          borderBottom: '1px solid rgba(79, 195, 247, 0.3)',
+          flexShrink: 0,
+        }}
+      >
+        {renderTabHeader(null, '📂 İş Akışları')}
+        {tabs.map((tab) => renderTabHeader(tab.client.workflowId, tab.name ?? 'Yükleniyor…', tab))}
+      </div>
+
+      <div style={{ position: 'relative', flex: 1, minHeight: 0 }}>
+        {activeId === null && (
+          <WorkflowBrowser
+            api={api}
+            onOpen={navigate}
+            openWorkflowIds={openWorkflowIds}
+            dirtyWorkflowIds={dirtyWorkflowIds}
+            // The browser already asked, unsaved changes included
+            onDeleted={removeTab}
+          />
+        )}
+        {/* Background tabs stay mounted but hidden, keeping their canvas and history */}
+        {tabs.map((tab) => {
+          const id = tab.client.workflowId;
+          const isActive = activeId === id;
+          return (
+            <div key={id} style={{ position: 'absolute', inset: 0, visibility: isActive ? 'visible' : 'hidden' }}>
+              <App
+                api={tab.client}
+                onOpenBrowser={() => navigate(null)}
+                isActive={isActive}
+                onStatusChange={updateTabStatus}
+                onDragOverTab={setDropTargetId}
+                onNodesDraggedToTab={startTransfer}
+                incomingNodes={transfer?.targetId === id ? transfer.payload : null}
+                onIncomingNodesPasted={finishTransfer}
+                nodesToRemove={completedMove?.sourceId === id ? completedMove.nodeIds : null}
+                onNodesRemoved={clearCompletedMove}
+              />
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
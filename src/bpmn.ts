@@ -0,0 +1,362 @@
+import type { Edge, Node, XYPosition } from 'reactflow';
+import { getNodeSize } from './layout';
+import type { ParsedWorkflowFile } from './workflowFile';
+import {
+  isTemplateNode,
+  type BoxData,
+  type EndData,
+  type GatewayData,
+  type JumpData,
+  type LandData,
+  type NodeData,
+  type StartData,
+  type TransitionData,
+} from './workflow';
+
+const BPMN_NS = 'http://www.omg.org/spec/BPMN/20100524/MODEL';
+const BPMNDI_NS = 'http://www.omg.org/spec/BPMN/20100524/DI';
+const DC_NS = 'http://www.omg.org/spec/DD/20100524/DC';
+const DI_NS = 'http://www.omg.org/spec/DD/20100524/DI';
+const XSI_NS = 'http://www.w3.org/2001/XMLSchema-instance';
+// Editor-only attributes (template reference, edge outcome) that BPMN has no field for
+const WF_NS = 'urn:workflow-editor';
+
+const PROCESS_ID = 'Process_1';
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export type ParsedBpmnFile = ParsedWorkflowFile & {
+  skipped: string[];  // Element names that have no node type here
+};
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+// BPMN ids are XML ids and cannot start with a digit, which UUIDs often do
+function toXmlId(id: string): string {
+  return /^[A-Za-z_][\w.-]*$/.test(id) ? id : `_${id}`;
+}
+
+function fromXmlId(id: string): string {
+  return id.startsWith('_') && UUID_PATTERN.test(id.slice(1)) ? id.slice(1) : id;
+}
+
+function attrs(values: Record<string, string | undefined>): string {
+  return Object.entries(values)
+    .filter(([, value]) => value !== undefined && value !== '')
+    .map(([key, value]) => ` ${key}="${escapeXml(value!)}"`)
+    .join('');
+}
+
+function round(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+/** Edge end points: bottom → top when the target is below, otherwise side to side. */
+function getWaypoints(source: Node<NodeData>, target: Node<NodeData>): XYPosition[] {
+  const s = getNodeSize(source);
+  const t = getNodeSize(target);
+  if (target.position.y >= source.position.y + s.height) {
+    return [
+      { x: source.position.x + s.width / 2, y: source.position.y + s.height },
+      { x: target.position.x + t.width / 2, y: target.position.y },
+    ];
+  }
+  const isRight = target.position.x >= source.position.x;
+  return [
+    { x: source.position.x + (isRight ? s.width : 0), y: source.position.y + s.height / 2 },
+    { x: target.position.x + (isRight ? 0 : t.width), y: target.position.y + t.height / 2 },
+  ];
+}
+
+/**
+ * The canvas as BPMN 2.0 XML with diagram coordinates. Boxes become tasks,
+ * edges sequence flows and jump/land pairs link throw/catch events named
+ * after the land ("Land 1", ...). Templates and groups are editor-only and
+ * left out.
+ */
+export function buildBpmnXml(nodes: Node<NodeData>[], edges: Edge<TransitionData>[]): string {
+  const flowNodes = nodes.filter((n) => !isTemplateNode(n) && n.data.nodeType !== 'group');
+  const nodeById = new Map(flowNodes.map((n) => [n.id, n]));
+  const flows = edges.filter((e) => nodeById.has(e.source) && nodeById.has(e.target));
+
+  // Link name per land, the same numbering the land picker shows
+  const linkNames = new Map<string, string>();
+  flowNodes.filter((n) => n.data.nodeType === 'land').forEach((n, index) => linkNames.set(n.id, `Land ${index + 1}`));
+
+  const elements = flowNodes.map((n) => {
+    const id = toXmlId(n.id);
+    switch (n.data.nodeType) {
+      case 'box': {
+        const boxData = n.data as BoxData;
+        const templateId = boxData.dbId && boxData.dbId !== n.id ? boxData.dbId : undefined;
+        const documentation = boxData.def?.aciklama
+          ? `\n      <bpmn:documentation>${escapeXml(boxData.def.aciklama)}</bpmn:documentation>\n    `
+          : '';
+        return `    <bpmn:task${attrs({ id, name: boxData.def?.ad || boxData.label, 'wf:templateId': templateId })}>${documentation}</bpmn:task>`;
+      }
+      case 'start':
+        return `    <bpmn:startEvent${attrs({ id, name: (n.data as StartData).label })} />`;
+      case 'end':
+        return `    <bpmn:endEvent${attrs({ id, name: (n.data as EndData).outcomeName })} />`;
+      case 'gateway': {
+        const gatewayData = n.data as GatewayData;
+        const tag = gatewayData.kind === 'and' ? 'bpmn:parallelGateway' : 'bpmn:exclusiveGateway';
+        return `    <${tag}${attrs({ id, gatewayDirection: gatewayData.mode === 'join' ? 'Converging' : 'Diverging' })} />`;
+      }
+      case 'jump': {
+        const landId = (n.data as JumpData).landId;
+        const name = landId ? linkNames.get(landId) : undefined;
+        return [
+          `    <bpmn:intermediateThrowEvent${attrs({ id, name })}>`,
+          `      <bpmn:linkEventDefinition${attrs({ id: `${id}_link`, name })} />`,
+          '    </bpmn:intermediateThrowEvent>',
+        ].join('\n');
+      }
+      default: {
+        const name = linkNames.get(n.id);
+        return [
+          `    <bpmn:intermediateCatchEvent${attrs({ id, name })}>`,
+          `      <bpmn:linkEventDefinition${attrs({ id: `${id}_link`, name })} />`,
+          '    </bpmn:intermediateCatchEvent>',
+        ].join('\n');
+      }
+    }
+  });
+
+  const sequenceFlows = flows.map((e) => {
+    const flowAttrs = attrs({
+      id: toXmlId(e.id),
+      name: typeof e.label === 'string' ? e.label : undefined,
+      sourceRef: toXmlId(e.source),
+      targetRef: toXmlId(e.target),
+      'wf:outcome': e.data?.outcome,
+    });
+    if (!e.data?.guard) return `    <bpmn:sequenceFlow${flowAttrs} />`;
+    return [
+      `    <bpmn:sequenceFlow${flowAttrs}>`,
+      `      <bpmn:conditionExpression xsi:type="bpmn:tFormalExpression">${escapeXml(e.data.guard)}</bpmn:conditionExpression>`,
+      '    </bpmn:sequenceFlow>',
+    ].join('\n');
+  });
+
+  const shapes = flowNodes.map((n) => {
+    const id = toXmlId(n.id);
+    const { width, height } = getNodeSize(n);
+    return [
+      `      <bpmndi:BPMNShape${attrs({ id: `${id}_di`, bpmnElement: id })}>`,
+      `        <dc:Bounds x="${round(n.position.x)}" y="${round(n.position.y)}" width="${width}" height="${height}" />`,
+      '      </bpmndi:BPMNShape>',
+    ].join('\n');
+  });
+
+  const diagramEdges = flows.map((e) => {
+    const id = toXmlId(e.id);
+    const waypoints = getWaypoints(nodeById.get(e.source)!, nodeById.get(e.target)!)
+      .map((p) => `        <di:waypoint x="${round(p.x)}" y="${round(p.y)}" />`);
+    return [
+      `      <bpmndi:BPMNEdge${attrs({ id: `${id}_di`, bpmnElement: id })}>`,
+      ...waypoints,
+      '      </bpmndi:BPMNEdge>',
+    ].join('\n');
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<bpmn:definitions xmlns:bpmn="${BPMN_NS}" xmlns:bpmndi="${BPMNDI_NS}" xmlns:dc="${DC_NS}" xmlns:di="${DI_NS}" xmlns:xsi="${XSI_NS}" xmlns:wf="${WF_NS}" id="Definitions_1" targetNamespace="${WF_NS}">`,
+    `  <bpmn:process id="${PROCESS_ID}" isExecutable="false">`,
+    ...elements,
+    ...sequenceFlows,
+    '  </bpmn:process>',
+    '  <bpmndi:BPMNDiagram id="BPMNDiagram_1">',
+    `    <bpmndi:BPMNPlane id="BPMNPlane_1" bpmnElement="${PROCESS_ID}">`,
+    ...shapes,
+    ...diagramEdges,
+    '    </bpmndi:BPMNPlane>',
+    '  </bpmndi:BPMNDiagram>',
+    '</bpmn:definitions>',
+    '',
+  ].join('\n');
+}
+
+// Process children that are not part of the flow; ignored without a warning
+const IGNORED_ELEMENTS = new Set([
+  'documentation',
+  'extensionElements',
+  'laneSet',
+  'textAnnotation',
+  'association',
+  'group',
+  'dataObject',
+  'dataObjectReference',
+  'dataStoreReference',
+  'ioSpecification',
+  'property',
+]);
+
+const ACTIVITY_ELEMENTS = new Set(['subProcess', 'adHocSubProcess', 'transaction', 'callActivity']);
+
+function childElements(element: Element, localName?: string): Element[] {
+  return Array.from(element.children).filter(
+    (child) => child.namespaceURI === BPMN_NS && (!localName || child.localName === localName)
+  );
+}
+
+function getDocumentation(element: Element): string {
+  return childElements(element, 'documentation').map((d) => d.textContent?.trim() ?? '').filter(Boolean).join('\n');
+}
+
+function getLinkName(element: Element): string | null {
+  const link = childElements(element, 'linkEventDefinition')[0];
+  return link ? link.getAttribute('name') ?? '' : null;
+}
+
+function flowCount(processes: Element[], xmlId: string, ref: 'sourceRef' | 'targetRef'): number {
+  return processes
+    .flatMap((process) => childElements(process, 'sequenceFlow'))
+    .filter((flow) => flow.getAttribute(ref) === xmlId).length;
+}
+
+/**
+ * Reads BPMN 2.0 XML: tasks and sub-processes become boxes, link throw/catch
+ * events jump/land pairs (matched by link name), gateways and start/end events
+ * their own node types. Other intermediate events become boxes so the flow
+ * stays connected. Returns null when the text is not BPMN with a process.
+ */
+export function parseBpmnXml(text: string): ParsedBpmnFile | null {
+  const doc = new DOMParser().parseFromString(text, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length) return null;
+
+  const processes = Array.from(doc.getElementsByTagNameNS(BPMN_NS, 'process'));
+  if (!processes.length) return null;
+
+  const bounds = new Map<string, XYPosition>();
+  Array.from(doc.getElementsByTagNameNS(BPMNDI_NS, 'BPMNShape')).forEach((shape) => {
+    const bpmnElement = shape.getAttribute('bpmnElement');
+    const bound = shape.getElementsByTagNameNS(DC_NS, 'Bounds')[0];
+    if (!bpmnElement || !bound) return;
+    const x = Number(bound.getAttribute('x'));
+    const y = Number(bound.getAttribute('y'));
+    if (Number.isFinite(x) && Number.isFinite(y)) bounds.set(bpmnElement, { x, y });
+  });
+
+  const nodes: Node<NodeData>[] = [];
+  const skipped: string[] = [];
+  const flowElements: Element[] = [];
+  // Link name -> land, and the jumps waiting for it
+  const landByLink = new Map<string, { id: string; colorIndex: number }>();
+  const jumpLinks: { node: Node<NodeData>; linkName: string }[] = [];
+  const positionedIds = new Set<string>();
+  let hasMissingPosition = false;
+
+  processes.flatMap((process) => childElements(process)).forEach((element) => {
+    const tag = element.localName;
+    const xmlId = element.getAttribute('id');
+    if (tag === 'sequenceFlow') {
+      flowElements.push(element);
+      return;
+    }
+    if (IGNORED_ELEMENTS.has(tag)) return;
+    if (!xmlId || tag === 'boundaryEvent') {
+      skipped.push(tag);
+      return;
+    }
+
+    const id = fromXmlId(xmlId);
+    const name = element.getAttribute('name')?.trim() ?? '';
+    const bound = bounds.get(xmlId);
+    if (bound) positionedIds.add(id);
+    else hasMissingPosition = true;
+    const index = nodes.length;
+    const position = bound ?? { x: 100 + (index % 5) * 250, y: 100 + Math.floor(index / 5) * 100 };
+    const linkName = getLinkName(element);
+
+    if (tag === 'startEvent') {
+      nodes.push({ id, type: 'start', position, data: { nodeType: 'start', label: name || undefined } });
+    } else if (tag === 'endEvent') {
+      nodes.push({ id, type: 'end', position, data: { nodeType: 'end', outcomeName: name || undefined } });
+    } else if (tag.endsWith('Gateway')) {
+      const direction = element.getAttribute('gatewayDirection');
+      const incoming = flowCount(processes, xmlId, 'targetRef');
+      const outgoing = flowCount(processes, xmlId, 'sourceRef');
+      const isJoin = direction === 'Converging' || (direction !== 'Diverging' && incoming > 1 && outgoing <= 1);
+      nodes.push({
+        id,
+        type: 'gateway',
+        position,
+        data: { nodeType: 'gateway', kind: tag === 'parallelGateway' ? 'and' : 'xor', mode: isJoin ? 'join' : 'split' },
+      });
+    } else if (tag === 'intermediateThrowEvent' && linkName !== null) {
+      const node: Node<NodeData> = { id, type: 'jump', position, data: { nodeType: 'jump', colorIndex: 0 } };
+      nodes.push(node);
+      jumpLinks.push({ node, linkName: linkName || name });
+    } else if (tag === 'intermediateCatchEvent' && linkName !== null) {
+      const key = linkName || name;
+      const colorIndex = nodes.filter((n) => n.data.nodeType === 'land').length;
+      if (key && !landByLink.has(key)) landByLink.set(key, { id, colorIndex });
+      nodes.push({ id, type: 'land', position, data: { nodeType: 'land', colorIndex } });
+    } else if (tag.endsWith('Task') || tag === 'task' || ACTIVITY_ELEMENTS.has(tag) || tag.startsWith('intermediate')) {
+      const ad = name || xmlId;
+      nodes.push({
+        id,
+        type: 'box',
+        position,
+        data: {
+          nodeType: 'box',
+          label: ad,
+          def: { ad, aciklama: getDocumentation(element) },
+          dbId: element.getAttributeNS(WF_NS, 'templateId') || id,
+        },
+      });
+    } else {
+      skipped.push(tag);
+    }
+  });
+
+  jumpLinks.forEach(({ node, linkName }) => {
+    const land = landByLink.get(linkName);
+    node.data = { nodeType: 'jump', landId: land?.id, colorIndex: land?.colorIndex ?? 0 };
+  });
+
+  const nodeIds = new Set(nodes.map((n) => n.id));
+  const edges = flowElements.flatMap((flow): Edge<TransitionData>[] => {
+    const source = fromXmlId(flow.getAttribute('sourceRef') ?? '');
+    const target = fromXmlId(flow.getAttribute('targetRef') ?? '');
+    if (!nodeIds.has(source) || !nodeIds.has(target)) return [];
+
+    const xmlId = flow.getAttribute('id') ?? '';
+    const id = UUID_PATTERN.test(fromXmlId(xmlId))
+      ? fromXmlId(xmlId)
+      : crypto?.randomUUID?.() ?? `${Date.now()}-${Math.random().toString(36).slice(2, 11)}`;
+    const guard = childElements(flow, 'conditionExpression')[0]?.textContent?.trim();
+    return [{
+      id,
+      source,
+      target,
+      label: flow.getAttribute('name')?.trim() || undefined,
+      data: { outcome: flow.getAttributeNS(WF_NS, 'outcome') || undefined, guard: guard || undefined },
+      animated: true,
+    }];
+  });
+
+  // A land continues at the target of its outgoing flow
+  nodes.forEach((n) => {
+    if (n.data.nodeType !== 'land') return;
+    const next = edges.find((e) => e.source === n.id);
+    if (next) n.data = { ...(n.data as LandData), nextNodeId: next.target };
+  });
+
+  // Canvas nodes live at x, y >= 0 (x = y = -1 marks templates)
+  const positioned = nodes.filter((n) => positionedIds.has(n.id));
+  const minX = Math.min(0, ...positioned.map((n) => n.position.x));
+  const minY = Math.min(0, ...positioned.map((n) => n.position.y));
+  const shifted = minX < 0 || minY < 0
+    ? nodes.map((n) => ({ ...n, position: { x: n.position.x - minX + 40, y: n.position.y - minY + 40 } }))
+    : nodes;
+
+  return { nodes: shifted, edges, hasMissingPosition, skipped };
+}
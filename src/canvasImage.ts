@@ -0,0 +1,270 @@
+import { getRectOfNodes, type Node, type Rect } from 'reactflow';
+import { buildPdf, PAPER_SIZES, type PaperSize, type PdfPage } from './pdf';
+
+export type ImageExportFormat = 'png' | 'svg' | 'pdf';
+
+export type ImageExportOptions = {
+  format: ImageExportFormat;
+  selectionOnly: boolean;
+  scale: number;           // PNG/SVG: output pixels per canvas pixel
+  transparent: boolean;    // PNG/SVG: no background fill
+  paperSize: PaperSize;    // PDF
+  title: string;           // PDF title block
+};
+
+// Elements to keep when exporting part of the graph; everything else is dropped
+export type ExportScope = {
+  nodeIds: Set<string>;
+  edgeIds: Set<string>;
+};
+
+export type PdfTitleBlock = {
+  title: string;
+  date: Date;
+  revision: number | null;  // Last save revision; null when never saved
+};
+
+const EXPORT_PADDING = 24;
+const EXPORT_BACKGROUND = '#ffffff';
+// Browsers refuse to allocate larger canvases
+const MAX_CANVAS_SIDE = 16384;
+const MAX_CANVAS_AREA = 16384 * 16384;
+
+// PDF page layout, in points
+const PDF_MARGIN = 28;
+const PDF_TITLE_HEIGHT = 44;
+const PDF_PIXELS_PER_POINT = 2;  // Raster resolution of the pages (144 dpi)
+const CANVAS_POINTS_PER_PIXEL = 0.75;  // 1 CSS pixel = 1/96 inch
+
+export function getExportBounds(nodes: Node[]): Rect {
+  const rect = getRectOfNodes(nodes);
+  return {
+    x: rect.x - EXPORT_PADDING,
+    y: rect.y - EXPORT_PADDING,
+    width: rect.width + EXPORT_PADDING * 2,
+    height: rect.height + EXPORT_PADDING * 2,
+  };
+}
+
+function collectCss(): string {
+  return Array.from(document.styleSheets)
+    .map((sheet) => {
+      try {
+        return Array.from(sheet.cssRules).map((rule) => rule.cssText).join('\n');
+      } catch {
+        return '';  // Cross-origin sheets cannot be read
+      }
+    })
+    .join('\n');
+}
+
+/**
+ * Copy of the React Flow viewport (nodes, edges, edge labels) as XHTML with
+ * the pan/zoom transform removed, so flow coordinates map 1:1 to pixels.
+ */
+function serializeViewport(viewport: HTMLElement, scope?: ExportScope): string {
+  const clone = viewport.cloneNode(true) as HTMLElement;
+  clone.style.transform = 'none';
+
+  if (scope) {
+    clone.querySelectorAll<HTMLElement>('.react-flow__node').forEach((el) => {
+      if (!scope.nodeIds.has(el.dataset.id ?? '')) el.remove();
+    });
+    clone.querySelectorAll('.react-flow__edge').forEach((el) => {
+      const id = el.getAttribute('data-testid')?.replace(/^rf__edge-/, '') ?? '';
+      if (!scope.edgeIds.has(id)) el.remove();
+    });
+    clone.querySelectorAll<HTMLElement>('[data-edge-id]').forEach((el) => {
+      if (!scope.edgeIds.has(el.dataset.edgeId ?? '')) el.remove();
+    });
+  }
+  return new XMLSerializer().serializeToString(clone);
+}
+
+function wrapSvg(content: string, css: string, bounds: Rect, scale: number, background: string | null): string {
+  const width = Math.ceil(bounds.width * scale);
+  const height = Math.ceil(bounds.height * scale);
+  const transform = `translate(${-bounds.x * scale}px, ${-bounds.y * scale}px) scale(${scale})`;
+  const fill = background ? `background: ${background};` : '';
+
+  return (
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">` +
+    `<foreignObject x="0" y="0" width="${width}" height="${height}">` +
+    `<div xmlns="http://www.w3.org/1999/xhtml" class="react-flow" style="position: relative; width: ${width}px; height: ${height}px; overflow: hidden; ${fill}">` +
+    `<style>${css.replace(/&/g, '&amp;').replace(/</g, '&lt;')}</style>` +
+    `<div style="position: absolute; left: 0; top: 0; width: 100%; height: 100%; transform-origin: 0 0; transform: ${transform};">${content}</div>` +
+    '</div></foreignObject></svg>'
+  );
+}
+
+function checkCanvasSize(width: number, height: number) {
+  if (width > MAX_CANVAS_SIDE || height > MAX_CANVAS_SIDE || width * height > MAX_CANVAS_AREA) {
+    throw new Error(`Görüntü çok büyük (${width}×${height} piksel). Ölçeği düşürün ya da bir bölümünü seçin.`);
+  }
+}
+
+async function loadSvgImage(svg: string): Promise<HTMLImageElement> {
+  const image = new Image();
+  image.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+  await image.decode();
+  return image;
+}
+
+function canvasToBlob(canvas: HTMLCanvasElement, type: string, quality?: number): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error('Görüntü oluşturulamadı.'))), type, quality);
+  });
+}
+
+export function exportSvg(viewport: HTMLElement, bounds: Rect, options: ImageExportOptions, scope?: ExportScope): Blob {
+  const svg = wrapSvg(
+    serializeViewport(viewport, scope),
+    collectCss(),
+    bounds,
+    options.scale,
+    options.transparent ? null : EXPORT_BACKGROUND
+  );
+  return new Blob([svg], { type: 'image/svg+xml' });
+}
+
+export async function exportPng(
+  viewport: HTMLElement,
+  bounds: Rect,
+  options: ImageExportOptions,
+  scope?: ExportScope
+): Promise<Blob> {
+  const width = Math.ceil(bounds.width * options.scale);
+  const height = Math.ceil(bounds.height * options.scale);
+  checkCanvasSize(width, height);
+
+  const background = options.transparent ? null : EXPORT_BACKGROUND;
+  const image = await loadSvgImage(wrapSvg(serializeViewport(viewport, scope), collectCss(), bounds, options.scale, background));
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  canvas.getContext('2d')!.drawImage(image, 0, 0, width, height);
+  return canvasToBlob(canvas, 'image/png');
+}
+
+type PdfLayout = {
+  pageWidth: number;
+  pageHeight: number;
+  columns: number;
+  rows: number;
+  tileWidth: number;   // Flow pixels per page
+  tileHeight: number;
+};
+
+// Portrait or landscape, whichever needs fewer pages
+function getPdfLayout(bounds: Rect, paperSize: PaperSize): PdfLayout {
+  const paper = PAPER_SIZES[paperSize];
+  const layouts = [
+    { pageWidth: paper.width, pageHeight: paper.height },
+    { pageWidth: paper.height, pageHeight: paper.width },
+  ].map(({ pageWidth, pageHeight }) => {
+    const tileWidth = (pageWidth - PDF_MARGIN * 2) / CANVAS_POINTS_PER_PIXEL;
+    const tileHeight = (pageHeight - PDF_MARGIN * 2 - PDF_TITLE_HEIGHT) / CANVAS_POINTS_PER_PIXEL;
+    return {
+      pageWidth,
+      pageHeight,
+      tileWidth,
+      tileHeight,
+      columns: Math.max(1, Math.ceil(bounds.width / tileWidth)),
+      rows: Math.max(1, Math.ceil(bounds.height / tileHeight)),
+    };
+  });
+  return layouts.reduce((best, layout) => (layout.columns * layout.rows < best.columns * best.rows ? layout : best));
+}
+
+function drawTitleBlock(ctx: CanvasRenderingContext2D, layout: PdfLayout, titleBlock: PdfTitleBlock, pageLabel: string) {
+  const left = PDF_MARGIN;
+  const right = layout.pageWidth - PDF_MARGIN;
+  const baseline = PDF_MARGIN + 18;
+
+  ctx.fillStyle = '#1a1a2e';
+  ctx.textBaseline = 'alphabetic';
+  ctx.font = 'bold 14px Helvetica, Arial, sans-serif';
+  ctx.textAlign = 'left';
+  ctx.fillText(titleBlock.title, left, baseline, right - left - 200);
+
+  ctx.font = '9px Helvetica, Arial, sans-serif';
+  ctx.fillStyle = '#555';
+  const revision = titleBlock.revision ? `Revizyon #${titleBlock.revision}` : 'Kaydedilmemiş';
+  ctx.fillText(`${titleBlock.date.toLocaleString('tr-TR')}  •  ${revision}`, left, baseline + 14);
+  ctx.textAlign = 'right';
+  ctx.fillText(pageLabel, right, baseline);
+
+  ctx.strokeStyle = '#4fc3f7';
+  ctx.lineWidth = 1;
+  ctx.beginPath();
+  ctx.moveTo(left, PDF_MARGIN + PDF_TITLE_HEIGHT - 6);
+  ctx.lineTo(right, PDF_MARGIN + PDF_TITLE_HEIGHT - 6);
+  ctx.stroke();
+}
+
+function dataUrlToBytes(dataUrl: string): Uint8Array {
+  const binary = atob(dataUrl.slice(dataUrl.indexOf(',') + 1));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
+
+/**
+ * Graph tiled over as many A4/A3 pages as needed at 100% size, each page with
+ * a title block (workflow name, date, save revision, page number). Pages are
+ * read left to right, then top to bottom.
+ */
+export async function exportPdf(
+  viewport: HTMLElement,
+  bounds: Rect,
+  options: ImageExportOptions,
+  titleBlock: PdfTitleBlock,
+  scope?: ExportScope
+): Promise<Blob> {
+  const layout = getPdfLayout(bounds, options.paperSize);
+  const content = serializeViewport(viewport, scope);
+  const css = collectCss();
+  const tileScale = CANVAS_POINTS_PER_PIXEL * PDF_PIXELS_PER_POINT;
+  const pageCount = layout.columns * layout.rows;
+  const pages: PdfPage[] = [];
+
+  for (let row = 0; row < layout.rows; row++) {
+    for (let column = 0; column < layout.columns; column++) {
+      const tile: Rect = {
+        x: bounds.x + column * layout.tileWidth,
+        y: bounds.y + row * layout.tileHeight,
+        width: layout.tileWidth,
+        height: layout.tileHeight,
+      };
+      const image = await loadSvgImage(wrapSvg(content, css, tile, tileScale, EXPORT_BACKGROUND));
+
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.round(layout.pageWidth * PDF_PIXELS_PER_POINT);
+      canvas.height = Math.round(layout.pageHeight * PDF_PIXELS_PER_POINT);
+      const ctx = canvas.getContext('2d')!;
+      ctx.fillStyle = EXPORT_BACKGROUND;
+      ctx.fillRect(0, 0, canvas.width, canvas.height);
+      ctx.scale(PDF_PIXELS_PER_POINT, PDF_PIXELS_PER_POINT);
+
+      const pageLabel = `Sayfa ${pages.length + 1} / ${pageCount}` + (pageCount > 1 ? ` (satır ${row + 1}, sütun ${column + 1})` : '');
+      drawTitleBlock(ctx, layout, titleBlock, pageLabel);
+      ctx.drawImage(
+        image,
+        PDF_MARGIN,
+        PDF_MARGIN + PDF_TITLE_HEIGHT,
+        layout.tileWidth * CANVAS_POINTS_PER_PIXEL,
+        layout.tileHeight * CANVAS_POINTS_PER_PIXEL
+      );
+
+      pages.push({
+        width: layout.pageWidth,
+        height: layout.pageHeight,
+        jpeg: dataUrlToBytes(canvas.toDataURL('image/jpeg', 0.92)),
+        pixelWidth: canvas.width,
+        pixelHeight: canvas.height,
+      });
+    }
+  }
+
+  return buildPdf(pages);
+}
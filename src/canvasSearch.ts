@@ -0,0 +1,54 @@
+import type { Node } from 'reactflow';
+import { normalizeSearchText } from './templates';
+import { isTemplateNode, type BoxData, type EndData, type JumpData, type NodeData } from './workflow';
+
+export type CanvasSearchOptions = {
+  query: string;
+  isRegex: boolean;
+  linkedLandId: string | null;  // Set: find the jumps pointing at this land instead of text
+};
+
+export type CanvasSearchResult = {
+  matchIds: string[];    // Reading order: top to bottom, then left to right
+  error: string | null;  // Invalid regex
+};
+
+function getSearchableTexts(node: Node<NodeData>): string[] {
+  const texts = ['label' in node.data ? node.data.label ?? '' : ''];
+  if (node.data.nodeType === 'box') {
+    const boxData = node.data as BoxData;
+    texts.push(boxData.def?.ad ?? '', boxData.def?.aciklama ?? '');
+  }
+  if (node.data.nodeType === 'end') {
+    texts.push((node.data as EndData).outcomeName ?? '');
+  }
+  return texts.filter(Boolean);
+}
+
+export function searchCanvasNodes(nodes: Node<NodeData>[], options: CanvasSearchOptions): CanvasSearchResult {
+  const canvasNodes = nodes.filter((n) => !isTemplateNode(n));
+  let isMatch: (node: Node<NodeData>) => boolean;
+
+  if (options.linkedLandId) {
+    isMatch = (node) => node.data.nodeType === 'jump' && (node.data as JumpData).landId === options.linkedLandId;
+  } else if (!options.query.trim()) {
+    return { matchIds: [], error: null };
+  } else if (options.isRegex) {
+    let pattern: RegExp;
+    try {
+      pattern = new RegExp(options.query, 'i');
+    } catch (err) {
+      return { matchIds: [], error: err instanceof Error ? err.message : String(err) };
+    }
+    isMatch = (node) => getSearchableTexts(node).some((text) => pattern.test(text));
+  } else {
+    const query = normalizeSearchText(options.query.trim());
+    isMatch = (node) => getSearchableTexts(node).some((text) => normalizeSearchText(text).includes(query));
+  }
+
+  const matchIds = canvasNodes
+    .filter(isMatch)
+    .sort((a, b) => a.position.y - b.position.y || a.position.x - b.position.x)
+    .map((n) => n.id);
+  return { matchIds, error: null };
+}
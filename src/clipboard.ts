@@ -0,0 +1,107 @@
+import type { Edge, Node, XYPosition } from 'reactflow';
+import { buildWorkflowExport, parseWorkflowFileText } from './workflowFile';
+import {
+  isTemplateNode,
+  type BoxData,
+  type GroupData,
+  type JumpData,
+  type LandData,
+  type NodeData,
+  type TransitionData,
+} from './workflow';
+
+export type PastedSelection = {
+  nodes: Node<NodeData>[];
+  edges: Edge<TransitionData>[];
+  unlinkedJumpIds: string[];  // Jumps copied without their land; the link was dropped
+};
+
+/** Ids of the selected canvas nodes, plus the members of selected groups. */
+export function getClipboardSelectionIds(nodes: Node<NodeData>[]): Set<string> {
+  const selectedIds = new Set(nodes.filter((n) => n.selected && !isTemplateNode(n)).map((n) => n.id));
+
+  // A copied group brings its members along (they are hidden while it is collapsed)
+  nodes.forEach((n) => {
+    if (n.data.nodeType === 'group' && selectedIds.has(n.id)) {
+      (n.data as GroupData).memberIds.forEach((id) => selectedIds.add(id));
+    }
+  });
+  return selectedIds;
+}
+
+/**
+ * Selected canvas nodes and the edges between them, in the export file format
+ * so a selection can be pasted into another tab (or imported as a file).
+ * Returns null when nothing is selected.
+ */
+export function buildClipboardPayload(nodes: Node<NodeData>[], edges: Edge<TransitionData>[]): string | null {
+  const selectedIds = getClipboardSelectionIds(nodes);
+  if (!selectedIds.size) return null;
+  const selected = nodes.filter((n) => selectedIds.has(n.id));
+
+  const innerEdges = edges.filter((e) => selectedIds.has(e.source) && selectedIds.has(e.target));
+  return JSON.stringify(buildWorkflowExport(selected, innerEdges), null, 2);
+}
+
+/**
+ * Turns clipboard text into new nodes/edges: fresh ids, the selection's
+ * top-left corner moved to `anchor`, and jump→land / land→next / group member
+ * references remapped inside the pasted set. Returns null for text that is not a
+ * workflow payload.
+ */
+export function pasteClipboardPayload(text: string, anchor: XYPosition): PastedSelection | null {
+  // Links out of the copied selection are dropped below (see unlinkedJumpIds)
+  const result = parseWorkflowFileText(text, { allowDanglingLinks: true });
+  if (!result.ok) return null;
+  const parsed = result.file;
+
+  const source = parsed.nodes.filter((n) => !isTemplateNode(n));
+  if (!source.length) return null;
+
+  const idMap = new Map<string, string>();
+  source.forEach((n) => idMap.set(n.id, crypto?.randomUUID?.() ?? `${Date.now()}-${Math.random().toString(36).slice(2, 11)}`));
+
+  const minX = Math.min(...source.map((n) => n.position.x));
+  const minY = Math.min(...source.map((n) => n.position.y));
+  const unlinkedJumpIds: string[] = [];
+
+  const nodes = source.map((n): Node<NodeData> => {
+    const id = idMap.get(n.id)!;
+    const position = { x: anchor.x + n.position.x - minX, y: anchor.y + n.position.y - minY };
+
+    if (n.data.nodeType === 'jump') {
+      const jumpData = n.data as JumpData;
+      const landId = jumpData.landId ? idMap.get(jumpData.landId) : undefined;
+      if (jumpData.landId && !landId) unlinkedJumpIds.push(id);
+      return { ...n, id, position, selected: true, data: { ...jumpData, landId } };
+    }
+    if (n.data.nodeType === 'land') {
+      const landData = n.data as LandData;
+      const nextNodeId = landData.nextNodeId ? idMap.get(landData.nextNodeId) : undefined;
+      return { ...n, id, position, selected: true, data: { ...landData, nextNodeId } };
+    }
+    if (n.data.nodeType === 'box') {
+      // dbId is the node's own id unless it points at a template
+      const boxData = n.data as BoxData;
+      const dbId = boxData.dbId === n.id ? undefined : boxData.dbId;
+      return { ...n, id, position, selected: true, data: { ...boxData, dbId } };
+    }
+    if (n.data.nodeType === 'group') {
+      const groupData = n.data as GroupData;
+      const memberIds = groupData.memberIds.flatMap((memberId) => idMap.get(memberId) ?? []);
+      return { ...n, id, position, selected: true, data: { ...groupData, memberIds } };
+    }
+    return { ...n, id, position, selected: true };
+  });
+
+  const edges = parsed.edges
+    .filter((e) => idMap.has(e.source) && idMap.has(e.target))
+    .map((e) => ({
+      ...e,
+      id: crypto?.randomUUID?.() ?? `edge-${Date.now()}-${Math.random().toString(36).slice(2, 11)}`,
+      source: idMap.get(e.source)!,
+      target: idMap.get(e.target)!,
+    }));
+
+  return { nodes, edges, unlinkedJumpIds };
+}
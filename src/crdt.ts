@@ -0,0 +1,56 @@
+/**
+ * Last-writer-wins map: every key holds one JSON value stamped with a Lamport
+ * clock and the writing replica. Replicas that have seen the same set of ops
+ * hold the same values regardless of arrival order. Deletes are tombstones
+ * (value null) so a late, older write cannot bring an entry back.
+ */
+export type LwwOp = {
+  key: string;
+  value: unknown;  // null = deleted
+  clock: number;
+  actor: string;
+};
+
+export type LwwDoc = {
+  actor: string;
+  clock: number;
+  entries: Map<string, LwwOp>;
+};
+
+export function createLwwDoc(actor: string): LwwDoc {
+  return { actor, clock: 0, entries: new Map() };
+}
+
+function wins(op: LwwOp, current: LwwOp | undefined): boolean {
+  if (!current) return true;
+  if (op.clock !== current.clock) return op.clock > current.clock;
+  return op.actor > current.actor;
+}
+
+/** Merges remote ops; returns the keys whose value changed. */
+export function applyOps(doc: LwwDoc, ops: LwwOp[]): string[] {
+  const changed: string[] = [];
+  ops.forEach((op) => {
+    doc.clock = Math.max(doc.clock, op.clock);
+    if (!wins(op, doc.entries.get(op.key))) return;
+    doc.entries.set(op.key, op);
+    changed.push(op.key);
+  });
+  return changed;
+}
+
+/** Records a local write and returns the op to broadcast. */
+export function setValue(doc: LwwDoc, key: string, value: unknown): LwwOp {
+  doc.clock += 1;
+  const op = { key, value, clock: doc.clock, actor: doc.actor };
+  doc.entries.set(key, op);
+  return op;
+}
+
+export function getValue(doc: LwwDoc, key: string): unknown {
+  return doc.entries.get(key)?.value ?? null;
+}
+
+export function getLiveKeys(doc: LwwDoc): string[] {
+  return [...doc.entries.values()].filter((op) => op.value !== null).map((op) => op.key);
+}
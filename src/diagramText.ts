@@ -0,0 +1,166 @@
+import type { Edge, Node } from 'reactflow';
+import {
+  isTemplateNode,
+  type BoxData,
+  type EndData,
+  type GatewayData,
+  type JumpData,
+  type NodeData,
+  type StartData,
+  type TransitionData,
+} from './workflow';
+
+export type DiagramTextFormat = 'mermaid' | 'dot';
+
+type DiagramNode = {
+  key: string;          // Id safe for both formats: n1, n2, ...
+  node: Node<NodeData>;
+  label: string;
+  tooltip: string;      // aciklama; empty for non-box nodes
+};
+
+type DiagramEdge = {
+  source: string;
+  target: string;
+  label: string;
+  dashed: boolean;      // jump → land link
+};
+
+function getEdgeLabel(e: Edge<TransitionData>): string {
+  const text = (typeof e.label === 'string' && e.label) || e.data?.outcome || '';
+  return e.data?.guard ? `${text} [${e.data.guard}]`.trim() : text;
+}
+
+/**
+ * Canvas nodes (templates and groups left out) with display labels, the edges
+ * between them and a dashed link from every jump to its land.
+ */
+function collectDiagram(nodes: Node<NodeData>[], edges: Edge<TransitionData>[]) {
+  const canvasNodes = nodes.filter((n) => !isTemplateNode(n) && n.data.nodeType !== 'group');
+  const landNames = new Map<string, string>();
+  canvasNodes.filter((n) => n.data.nodeType === 'land').forEach((n, index) => landNames.set(n.id, `Land ${index + 1}`));
+
+  const keys = new Map<string, string>();
+  const diagramNodes = canvasNodes.map((n, index): DiagramNode => {
+    const key = `n${index + 1}`;
+    keys.set(n.id, key);
+    switch (n.data.nodeType) {
+      case 'box': {
+        const boxData = n.data as BoxData;
+        return { key, node: n, label: boxData.def?.ad || boxData.label, tooltip: boxData.def?.aciklama ?? '' };
+      }
+      case 'start':
+        return { key, node: n, label: (n.data as StartData).label || 'Başlangıç', tooltip: '' };
+      case 'end':
+        return { key, node: n, label: (n.data as EndData).outcomeName || 'Bitiş', tooltip: '' };
+      case 'gateway': {
+        const gatewayData = n.data as GatewayData;
+        return { key, node: n, label: `${gatewayData.kind.toUpperCase()} ${gatewayData.mode === 'split' ? 'SPLIT' : 'JOIN'}`, tooltip: '' };
+      }
+      case 'jump': {
+        const landId = (n.data as JumpData).landId;
+        return { key, node: n, label: `→ ${(landId && landNames.get(landId)) || '?'}`, tooltip: '' };
+      }
+      default:
+        return { key, node: n, label: landNames.get(n.id) ?? 'Land', tooltip: '' };
+    }
+  });
+
+  const diagramEdges: DiagramEdge[] = edges
+    .filter((e) => keys.has(e.source) && keys.has(e.target))
+    .map((e) => ({ source: keys.get(e.source)!, target: keys.get(e.target)!, label: getEdgeLabel(e), dashed: false }));
+
+  canvasNodes.forEach((n) => {
+    const landId = n.data.nodeType === 'jump' ? (n.data as JumpData).landId : undefined;
+    if (landId && keys.has(landId)) {
+      diagramEdges.push({ source: keys.get(n.id)!, target: keys.get(landId)!, label: '', dashed: true });
+    }
+  });
+
+  return { nodes: diagramNodes, edges: diagramEdges };
+}
+
+function singleLine(text: string): string {
+  return text.replace(/\s*\n\s*/g, ' ').trim();
+}
+
+// Mermaid has no escape character inside quoted labels, only HTML entities
+function mermaidText(text: string): string {
+  return singleLine(text).replace(/"/g, '#quot;').replace(/</g, '#lt;').replace(/>/g, '#gt;');
+}
+
+function mermaidShape(item: DiagramNode): string {
+  const label = `"${mermaidText(item.label)}"`;
+  switch (item.node.data.nodeType) {
+    case 'start':
+      return `((${label}))`;
+    case 'end':
+      return `(((${label})))`;
+    case 'gateway':
+      return `{${label}}`;
+    case 'jump':
+      return `>${label}]`;
+    case 'land':
+      return `([${label}])`;
+    default:
+      return `[${label}]`;
+  }
+}
+
+/** Mermaid flowchart; descriptions go into `%%` comments above their node. */
+export function buildMermaidFlowchart(nodes: Node<NodeData>[], edges: Edge<TransitionData>[]): string {
+  const diagram = collectDiagram(nodes, edges);
+  const lines = ['flowchart TD'];
+
+  diagram.nodes.forEach((item) => {
+    if (item.tooltip) lines.push(`  %% ${singleLine(item.tooltip)}`);
+    lines.push(`  ${item.key}${mermaidShape(item)}`);
+  });
+  diagram.edges.forEach((e) => {
+    const arrow = e.dashed ? '-.->' : '-->';
+    lines.push(e.label ? `  ${e.source} ${arrow}|"${mermaidText(e.label)}"| ${e.target}` : `  ${e.source} ${arrow} ${e.target}`);
+  });
+
+  return `${lines.join('\n')}\n`;
+}
+
+function dotText(text: string): string {
+  return `"${text.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\r?\n/g, '\\n')}"`;
+}
+
+const DOT_SHAPES: Record<NodeData['nodeType'], string> = {
+  box: 'shape=box, style=rounded',
+  start: 'shape=circle',
+  end: 'shape=doublecircle',
+  gateway: 'shape=diamond',
+  jump: 'shape=cds',
+  land: 'shape=ellipse',
+  group: 'shape=box',
+};
+
+/** Graphviz DOT digraph; descriptions become node tooltips. */
+export function buildDotGraph(nodes: Node<NodeData>[], edges: Edge<TransitionData>[]): string {
+  const diagram = collectDiagram(nodes, edges);
+  const lines = ['digraph workflow {', '  rankdir=TB;', '  node [fontname="Helvetica", fontsize=11];', ''];
+
+  diagram.nodes.forEach((item) => {
+    const tooltip = item.tooltip ? `, tooltip=${dotText(item.tooltip)}` : '';
+    lines.push(`  ${item.key} [label=${dotText(item.label)}, ${DOT_SHAPES[item.node.data.nodeType]}${tooltip}];`);
+  });
+  if (diagram.edges.length) lines.push('');
+  diagram.edges.forEach((e) => {
+    const edgeAttrs = [
+      e.label ? `label=${dotText(e.label)}` : '',
+      // Links do not push the land below the jump
+      e.dashed ? 'style=dashed, constraint=false' : '',
+    ].filter(Boolean).join(', ');
+    lines.push(`  ${e.source} -> ${e.target}${edgeAttrs ? ` [${edgeAttrs}]` : ''};`);
+  });
+
+  lines.push('}');
+  return `${lines.join('\n')}\n`;
+}
+
+export function buildDiagramText(format: DiagramTextFormat, nodes: Node<NodeData>[], edges: Edge<TransitionData>[]): string {
+  return format === 'mermaid' ? buildMermaidFlowchart(nodes, edges) : buildDotGraph(nodes, edges);
+}
@@ -0,0 +1,282 @@
+import type { Edge, Node } from 'reactflow';
+import { getSimulationNodeName } from './simulation';
+import {
+  isTemplateNode,
+  type BoxData,
+  type EndData,
+  type GatewayData,
+  type GroupData,
+  type JumpData,
+  type NodeData,
+  type StartData,
+  type TransitionData,
+} from './workflow';
+
+export type DiffStatus = 'added' | 'removed' | 'modified' | 'relinked';
+
+export type WorkflowDiffItem = {
+  id: string;          // Stable key: status + element id
+  status: DiffStatus;
+  message: string;
+  nodeId?: string;     // Current node id, or the ghost id for removed nodes
+  edgeId?: string;
+};
+
+export type WorkflowDiff = {
+  items: WorkflowDiffItem[];
+  nodeStatus: Map<string, DiffStatus>;  // Current node id -> status
+  edgeStatus: Map<string, DiffStatus>;  // Current edge id -> status
+  removedNodes: Node<NodeData>[];       // Base nodes, re-keyed as ghosts
+  removedEdges: Edge<TransitionData>[]; // Base edges, re-keyed as ghosts
+};
+
+export const DIFF_STATUS_COLORS: Record<DiffStatus, string> = {
+  added: '#66bb6a',
+  removed: '#ef5350',
+  modified: '#ffa726',
+  relinked: '#ab47bc',
+};
+
+// Removed elements are drawn as read-only ghosts next to the current state
+const GHOST_PREFIX = 'diff-removed-';
+
+export function isDiffGhostId(id: string): boolean {
+  return id.startsWith(GHOST_PREFIX);
+}
+
+function boxAd(node: Node<NodeData>): string {
+  const boxData = node.data as BoxData;
+  return boxData.def?.ad || boxData.label || '';
+}
+
+function describeChanges(base: Node<NodeData>, current: Node<NodeData>): string[] {
+  if (base.data.nodeType !== current.data.nodeType) return ['tür'];
+  const changes: string[] = [];
+
+  if (current.data.nodeType === 'box') {
+    const before = base.data as BoxData;
+    const after = current.data as BoxData;
+    if ((before.def?.ad || before.label || '') !== (after.def?.ad || after.label || '')) changes.push('ad');
+    if ((before.def?.aciklama || '') !== (after.def?.aciklama || '')) changes.push('açıklama');
+  }
+  if (current.data.nodeType === 'start' && (base.data as StartData).label !== (current.data as StartData).label) {
+    changes.push('ad');
+  }
+  if (
+    current.data.nodeType === 'end' &&
+    (base.data as EndData).outcomeName !== (current.data as EndData).outcomeName
+  ) {
+    changes.push('sonuç');
+  }
+  if (current.data.nodeType === 'gateway') {
+    const before = base.data as GatewayData;
+    const after = current.data as GatewayData;
+    if (before.kind !== after.kind || before.mode !== after.mode) changes.push('geçit türü');
+  }
+  if (current.data.nodeType === 'group') {
+    const before = base.data as GroupData;
+    const after = current.data as GroupData;
+    if (before.label !== after.label) changes.push('ad');
+    if ([...before.memberIds].sort().join() !== [...after.memberIds].sort().join()) changes.push('üyeler');
+  }
+  return changes;
+}
+
+function edgeKey(source: string, target: string): string {
+  return `${source}->${target}`;
+}
+
+function edgeSignature(edge: Edge<TransitionData>): string {
+  return [typeof edge.label === 'string' ? edge.label : '', edge.data?.outcome ?? '', edge.data?.guard ?? ''].join('|');
+}
+
+/**
+ * Compares `current` against `base`. Nodes are matched by id first and boxes
+ * without an id match fall back to the same `ad`; edges are matched by their
+ * (mapped) endpoints. Templates are ignored.
+ */
+export function diffWorkflows(
+  base: { nodes: Node<NodeData>[]; edges: Edge<TransitionData>[] },
+  current: { nodes: Node<NodeData>[]; edges: Edge<TransitionData>[] }
+): WorkflowDiff {
+  const baseNodes = base.nodes.filter((n) => !isTemplateNode(n));
+  const currentNodes = current.nodes.filter((n) => !isTemplateNode(n));
+  const baseById = new Map(baseNodes.map((n) => [n.id, n]));
+  const currentById = new Map(currentNodes.map((n) => [n.id, n]));
+
+  // base id -> current id
+  const matched = new Map<string, string>();
+  const unmatchedCurrent: Node<NodeData>[] = [];
+  currentNodes.forEach((n) => {
+    if (baseById.has(n.id)) matched.set(n.id, n.id);
+    else unmatchedCurrent.push(n);
+  });
+  // Unmatched base boxes by ad, in base order; each one matches at most once
+  const unmatchedBaseByAd = new Map<string, Node<NodeData>[]>();
+  baseNodes.forEach((b) => {
+    if (b.data.nodeType !== 'box' || matched.has(b.id)) return;
+    unmatchedBaseByAd.set(boxAd(b), [...(unmatchedBaseByAd.get(boxAd(b)) ?? []), b]);
+  });
+  unmatchedCurrent.forEach((n) => {
+    if (n.data.nodeType !== 'box') return;
+    const candidate = unmatchedBaseByAd.get(boxAd(n))?.shift();
+    if (candidate) matched.set(candidate.id, n.id);
+  });
+
+  const matchedCurrentIds = new Set(matched.values());
+  const toCurrentId = (baseId: string) => matched.get(baseId) ?? `${GHOST_PREFIX}${baseId}`;
+
+  const items: WorkflowDiffItem[] = [];
+  const nodeStatus = new Map<string, DiffStatus>();
+  const edgeStatus = new Map<string, DiffStatus>();
+
+  currentNodes.forEach((n) => {
+    if (matchedCurrentIds.has(n.id)) return;
+    nodeStatus.set(n.id, 'added');
+    items.push({ id: `added-${n.id}`, status: 'added', message: `Eklendi: ${getSimulationNodeName(n)}`, nodeId: n.id });
+  });
+
+  const removedNodes: Node<NodeData>[] = [];
+  baseNodes.forEach((b) => {
+    const currentId = matched.get(b.id);
+    if (!currentId) {
+      const ghostId = `${GHOST_PREFIX}${b.id}`;
+      removedNodes.push({ ...b, id: ghostId });
+      items.push({ id: `removed-${b.id}`, status: 'removed', message: `Silindi: ${getSimulationNodeName(b)}`, nodeId: ghostId });
+      return;
+    }
+
+    const n = currentById.get(currentId)!;
+    const changes = describeChanges(b, n);
+    if (changes.length) {
+      nodeStatus.set(n.id, 'modified');
+      const renamed = changes.includes('ad') && b.data.nodeType === 'box' ? `${boxAd(b)} → ` : '';
+      items.push({
+        id: `modified-${n.id}`,
+        status: 'modified',
+        message: `Değişti (${changes.join(', ')}): ${renamed}${getSimulationNodeName(n)}`,
+        nodeId: n.id,
+      });
+    }
+
+    if (n.data.nodeType === 'jump' && b.data.nodeType === 'jump') {
+      const baseLandId = (b.data as JumpData).landId;
+      const before = baseLandId ? toCurrentId(baseLandId) : undefined;
+      const after = (n.data as JumpData).landId;
+      if (before !== after) {
+        if (!nodeStatus.has(n.id)) nodeStatus.set(n.id, 'relinked');
+        items.push({
+          id: `relinked-${n.id}`,
+          status: 'relinked',
+          message: after ? (before ? 'Jump başka bir Land\'e bağlandı' : 'Jump bir Land\'e bağlandı') : 'Jump\'ın Land bağlantısı kaldırıldı',
+          nodeId: n.id,
+        });
+      }
+    }
+  });
+
+  // Edges in current-id space; parallel edges between the same nodes are matched in order
+  const baseEdgesByKey = new Map<string, Edge<TransitionData>[]>();
+  base.edges.forEach((e) => {
+    const key = edgeKey(toCurrentId(e.source), toCurrentId(e.target));
+    baseEdgesByKey.set(key, [...(baseEdgesByKey.get(key) ?? []), e]);
+  });
+
+  const allNodesById = new Map([...currentNodes, ...removedNodes].map((n) => [n.id, n]));
+  const nameOf = (id: string) => getSimulationNodeName(allNodesById.get(id));
+
+  current.edges.forEach((e) => {
+    const candidates = baseEdgesByKey.get(edgeKey(e.source, e.target));
+    const before = candidates?.shift();
+    if (!before) {
+      edgeStatus.set(e.id, 'added');
+      items.push({
+        id: `added-edge-${e.id}`,
+        status: 'added',
+        message: `Bağlantı eklendi: ${nameOf(e.source)} → ${nameOf(e.target)}`,
+        nodeId: e.source,
+        edgeId: e.id,
+      });
+    } else if (edgeSignature(before) !== edgeSignature(e)) {
+      edgeStatus.set(e.id, 'modified');
+      items.push({
+        id: `modified-edge-${e.id}`,
+        status: 'modified',
+        message: `Bağlantı değişti: ${nameOf(e.source)} → ${nameOf(e.target)}`,
+        nodeId: e.source,
+        edgeId: e.id,
+      });
+    }
+  });
+
+  const removedEdges: Edge<TransitionData>[] = [];
+  baseEdgesByKey.forEach((leftover) => {
+    leftover.forEach((e) => {
+      const ghost = { ...e, id: `${GHOST_PREFIX}${e.id}`, source: toCurrentId(e.source), target: toCurrentId(e.target) };
+      removedEdges.push(ghost);
+      items.push({
+        id: `removed-edge-${e.id}`,
+        status: 'removed',
+        message: `Bağlantı silindi: ${nameOf(ghost.source)} → ${nameOf(ghost.target)}`,
+        nodeId: ghost.source,
+        edgeId: ghost.id,
+      });
+    });
+  });
+
+  return { items, nodeStatus, edgeStatus, removedNodes, removedEdges };
+}
+
+export type WorkflowConflict = {
+  key: string;
+  mine: WorkflowDiffItem[];    // A node can be both modified and relinked
+  theirs: WorkflowDiffItem[];
+};
+
+// Nodes are keyed by id, edges by edge id; ghost ids map back to the base id
+function elementKey(item: WorkflowDiffItem): string {
+  const strip = (id: string) => (isDiffGhostId(id) ? id.slice(GHOST_PREFIX.length) : id);
+  return item.edgeId ? `edge:${strip(item.edgeId)}` : `node:${strip(item.nodeId ?? item.id)}`;
+}
+
+function groupByElement(items: WorkflowDiffItem[]): Map<string, WorkflowDiffItem[]> {
+  const groups = new Map<string, WorkflowDiffItem[]>();
+  items.forEach((item) => {
+    const key = elementKey(item);
+    groups.set(key, [...(groups.get(key) ?? []), item]);
+  });
+  return groups;
+}
+
+/**
+ * Three-way comparison for save conflicts: elements changed on both sides
+ * since `base`, plus the changes only one side made.
+ */
+export function findConflictingChanges(
+  base: { nodes: Node<NodeData>[]; edges: Edge<TransitionData>[] },
+  mine: { nodes: Node<NodeData>[]; edges: Edge<TransitionData>[] },
+  theirs: { nodes: Node<NodeData>[]; edges: Edge<TransitionData>[] }
+): { conflicts: WorkflowConflict[]; mineOnly: WorkflowDiffItem[]; theirsOnly: WorkflowDiffItem[] } {
+  const mineByKey = groupByElement(diffWorkflows(base, mine).items);
+  const theirsByKey = groupByElement(diffWorkflows(base, theirs).items);
+
+  const conflicts: WorkflowConflict[] = [];
+  const mineOnly: WorkflowDiffItem[] = [];
+  mineByKey.forEach((items, key) => {
+    const other = theirsByKey.get(key);
+    if (other) conflicts.push({ key, mine: items, theirs: other });
+    else mineOnly.push(...items);
+  });
+  const theirsOnly = [...theirsByKey].filter(([key]) => !mineByKey.has(key)).flatMap(([, items]) => items);
+
+  return { conflicts, mineOnly, theirsOnly };
+}
+
+// Layout-only changes are not diff items; counted separately where they matter
+export function countMovedNodes(base: Node<NodeData>[], current: Node<NodeData>[]): number {
+  const basePositions = new Map(base.map((n) => [n.id, n.position]));
+  return current.filter((n) => {
+    const before = basePositions.get(n.id);
+    return before && !isTemplateNode(n) && (before.x !== n.position.x || before.y !== n.position.y);
+  }).length;
+}
@@ -0,0 +1,50 @@
+import type { EdgeFromDB, WorkflowDefFromDB } from './workflow';
+
+// Unsaved canvas state, stored in the server format so it survives reloads
+export type WorkflowDraft = {
+  savedAt: string;  // ISO timestamp
+  nodes: WorkflowDefFromDB[];
+  edges: EdgeFromDB[];
+};
+
+const DB_NAME = 'workflow-editor';
+const STORE_NAME = 'drafts';
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, 1);
+    request.onupgradeneeded = () => request.result.createObjectStore(STORE_NAME);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function withStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDatabase();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const request = run(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+// One draft per server workflow; the static/new editor shares a local one
+export function getDraftKey(workflowId: string | null): string {
+  return workflowId ? `workflow:${workflowId}` : 'local';
+}
+
+export async function loadDraft(key: string): Promise<WorkflowDraft | null> {
+  return (await withStore<WorkflowDraft | undefined>('readonly', (store) => store.get(key))) ?? null;
+}
+
+export async function saveDraft(key: string, draft: WorkflowDraft): Promise<void> {
+  await withStore('readwrite', (store) => store.put(draft, key));
+}
+
+export async function deleteDraft(key: string): Promise<void> {
+  await withStore('readwrite', (store) => store.delete(key));
+}
@@ -0,0 +1,180 @@
+import type { Edge, Node, XYPosition } from 'reactflow';
+import { getNodeSize } from './layout';
+import type { GroupData, NodeData, TransitionData } from './workflow';
+
+// Space around the members inside an expanded group frame
+export const GROUP_PADDING = 24;
+export const GROUP_HEADER_HEIGHT = 32;
+
+// Display-only edges standing in for the edges of collapsed members
+const GROUP_EDGE_PREFIX = 'group-edge-';
+
+export function isGroupEdgeId(id: string): boolean {
+  return id.startsWith(GROUP_EDGE_PREFIX);
+}
+
+export function isGroupNode(node: Node<NodeData>): boolean {
+  return node.data.nodeType === 'group';
+}
+
+export function getGroupMembers(group: Node<NodeData>, nodes: Node<NodeData>[]): Node<NodeData>[] {
+  const memberIds = new Set((group.data as GroupData).memberIds);
+  return nodes.filter((n) => memberIds.has(n.id));
+}
+
+/** Group that has the node as a member, if any. */
+export function findGroupOf(nodes: Node<NodeData>[], nodeId: string): Node<NodeData> | undefined {
+  return nodes.find((n) => isGroupNode(n) && (n.data as GroupData).memberIds.includes(nodeId));
+}
+
+function getBounds(nodes: Node<NodeData>[]) {
+  const x = Math.min(...nodes.map((n) => n.position.x));
+  const y = Math.min(...nodes.map((n) => n.position.y));
+  const right = Math.max(...nodes.map((n) => n.position.x + getNodeSize(n).width));
+  const bottom = Math.max(...nodes.map((n) => n.position.y + getNodeSize(n).height));
+  return { x, y, width: right - x, height: bottom - y };
+}
+
+export function createGroupNode(id: string, label: string, members: Node<NodeData>[]): Node<GroupData> {
+  const bounds = getBounds(members);
+  return {
+    id,
+    type: 'group',
+    position: { x: bounds.x, y: bounds.y },
+    data: { nodeType: 'group', label, memberIds: members.map((n) => n.id), collapsed: false },
+  };
+}
+
+/** Collapses the group into one box at the members' top-left corner. */
+export function collapseGroup(nodes: Node<NodeData>[], groupId: string): Node<NodeData>[] {
+  const group = nodes.find((n) => n.id === groupId);
+  if (!group) return nodes;
+  const members = getGroupMembers(group, nodes);
+  const memberIds = new Set(members.map((n) => n.id));
+  const position: XYPosition = members.length ? getBounds(members) : group.position;
+
+  return nodes.map((n) => {
+    if (n.id === groupId) {
+      return { ...n, position: { x: position.x, y: position.y }, data: { ...(n.data as GroupData), collapsed: true } };
+    }
+    return memberIds.has(n.id) && n.selected ? { ...n, selected: false } : n;
+  });
+}
+
+/** Expands the group where the collapsed box is, moving the members along if it was dragged. */
+export function expandGroup(nodes: Node<NodeData>[], groupId: string): Node<NodeData>[] {
+  const group = nodes.find((n) => n.id === groupId);
+  if (!group) return nodes;
+  const members = getGroupMembers(group, nodes);
+  const memberIds = new Set(members.map((n) => n.id));
+  const bounds = members.length ? getBounds(members) : group.position;
+  const dx = group.position.x - bounds.x;
+  const dy = group.position.y - bounds.y;
+
+  return nodes.map((n) => {
+    if (n.id === groupId) return { ...n, data: { ...(n.data as GroupData), collapsed: false } };
+    return memberIds.has(n.id) ? { ...n, position: { x: n.position.x + dx, y: n.position.y + dy } } : n;
+  });
+}
+
+export function addGroupMembers(nodes: Node<NodeData>[], groupId: string, ids: string[]): Node<NodeData>[] {
+  return nodes.map((n) => {
+    if (n.id !== groupId) return n;
+    const groupData = n.data as GroupData;
+    return { ...n, data: { ...groupData, memberIds: [...groupData.memberIds, ...ids] } };
+  });
+}
+
+/**
+ * What the canvas shows for the given nodes/edges:
+ * - expanded groups become a frame behind their members,
+ * - collapsed groups hide their members; edges crossing the group boundary
+ *   are merged into one display edge per (source, target) pair, edges inside
+ *   the group are hidden,
+ * - with `openGroupId`, only that group's members and the edges among them
+ *   are shown (the group opened as its own sub-workflow).
+ */
+export function applyGroups(
+  nodes: Node<NodeData>[],
+  edges: Edge<TransitionData>[],
+  openGroupId: string | null
+): { nodes: Node<NodeData>[]; edges: Edge<TransitionData>[] } {
+  if (openGroupId) {
+    const group = nodes.find((n) => n.id === openGroupId);
+    const memberIds = new Set(group ? (group.data as GroupData).memberIds : []);
+    return {
+      nodes: nodes.filter((n) => memberIds.has(n.id) && !isGroupNode(n)),
+      edges: edges.filter((e) => memberIds.has(e.source) && memberIds.has(e.target)),
+    };
+  }
+
+  const groups = nodes.filter(isGroupNode);
+  if (!groups.length) return { nodes, edges };
+
+  // Hidden member id -> collapsed group id
+  const collapsedOwner = new Map<string, string>();
+  groups.forEach((group) => {
+    const groupData = group.data as GroupData;
+    if (groupData.collapsed) groupData.memberIds.forEach((id) => collapsedOwner.set(id, group.id));
+  });
+
+  const displayNodes = nodes.flatMap((n): Node<NodeData>[] => {
+    if (collapsedOwner.has(n.id)) return [];
+    if (!isGroupNode(n) || (n.data as GroupData).collapsed) return [n];
+
+    const members = getGroupMembers(n, nodes);
+    if (!members.length) return [];
+    const bounds = getBounds(members);
+    return [{
+      ...n,
+      position: { x: bounds.x - GROUP_PADDING, y: bounds.y - GROUP_PADDING - GROUP_HEADER_HEIGHT },
+      draggable: false,
+      selectable: false,
+      connectable: false,
+      zIndex: -1,
+      // Only the header takes pointer events, so selections can start inside the frame
+      style: {
+        ...n.style,
+        width: bounds.width + GROUP_PADDING * 2,
+        height: bounds.height + GROUP_PADDING * 2 + GROUP_HEADER_HEIGHT,
+        pointerEvents: 'none',
+      },
+    }];
+  });
+
+  if (!collapsedOwner.size) return { nodes: displayNodes, edges };
+
+  const displayEdges: Edge<TransitionData>[] = [];
+  const merged = new Map<string, Edge<TransitionData>[]>();
+  edges.forEach((e) => {
+    const source = collapsedOwner.get(e.source) ?? e.source;
+    const target = collapsedOwner.get(e.target) ?? e.target;
+    if (source === e.source && target === e.target) {
+      displayEdges.push(e);
+    } else if (source !== target) {
+      const key = `${source}->${target}`;
+      merged.set(key, [...(merged.get(key) ?? []), e]);
+    }
+  });
+
+  merged.forEach((bundle, key) => {
+    const [first] = bundle;
+    const source = collapsedOwner.get(first.source) ?? first.source;
+    const target = collapsedOwner.get(first.target) ?? first.target;
+    displayEdges.push({
+      id: `${GROUP_EDGE_PREFIX}${key}`,
+      source,
+      target,
+      sourceHandle: source === first.source ? first.sourceHandle : null,
+      targetHandle: target === first.target ? first.targetHandle : null,
+      label: bundle.length > 1 ? `${bundle.length} geçiş` : first.label,
+      data: bundle.length > 1 ? undefined : first.data,
+      animated: true,
+      focusable: false,
+      deletable: false,
+      style: bundle.length > 1 ? { strokeWidth: 3 } : undefined,
+    });
+  });
+
+  return { nodes: displayNodes, edges: displayEdges };
+}
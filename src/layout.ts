@@ -0,0 +1,308 @@
+import type { Edge, Node, XYPosition } from 'reactflow';
+import { isTemplateNode, type NodeData } from './workflow';
+
+export type LayoutOptions = {
+  selectionOnly?: boolean; // Only move selected nodes, using the edges among them
+  keepPinned?: boolean;    // Leave nodes with `pinned` data where they are
+};
+
+const LAYER_GAP = 80;
+const NODE_GAP = 30;
+const COMPONENT_GAP = 80;
+const DUMMY_SIZE = { width: 20, height: 10 };
+const ORDERING_SWEEPS = 8;
+
+type Size = { width: number; height: number };
+
+// Rendered sizes of the node components (content + padding + border)
+export function getNodeSize(node: Node<NodeData>): Size {
+  if (node.width && node.height) return { width: node.width, height: node.height };
+  if (node.type === 'jump' || node.type === 'land') return { width: 66, height: 56 };
+  if (node.type === 'start') return { width: 56, height: 56 };
+  if (node.type === 'end' || node.type === 'gateway') return { width: 60, height: 60 };
+  if (node.type === 'group') return { width: 240, height: 72 };  // Collapsed
+  return { width: 222, height: 62 };
+}
+
+type LayeredComponent = {
+  layers: string[][];  // Node ids per layer, ordered top to bottom; includes dummies
+  size: Size;
+  relative: Map<string, XYPosition>;
+};
+
+function splitComponents(ids: string[], neighbours: Map<string, Set<string>>): string[][] {
+  const seen = new Set<string>();
+  const components: string[][] = [];
+
+  ids.forEach((start) => {
+    if (seen.has(start)) return;
+    const component: string[] = [];
+    const stack = [start];
+    seen.add(start);
+    while (stack.length) {
+      const id = stack.pop()!;
+      component.push(id);
+      neighbours.get(id)?.forEach((next) => {
+        if (!seen.has(next)) {
+          seen.add(next);
+          stack.push(next);
+        }
+      });
+    }
+    components.push(component);
+  });
+
+  return components;
+}
+
+// DFS based cycle breaking: edges pointing back onto the DFS stack are reversed
+function acyclicEdges(ids: string[], succ: Map<string, string[]>, pred: Map<string, string[]>): [string, string][] {
+  const result: [string, string][] = [];
+  const state = new Map<string, 'active' | 'done'>();
+  const roots = [...ids.filter((id) => !pred.get(id)?.length), ...ids];
+
+  const visit = (id: string) => {
+    state.set(id, 'active');
+    (succ.get(id) ?? []).forEach((next) => {
+      const nextState = state.get(next);
+      if (nextState === 'active') {
+        result.push([next, id]);
+        return;
+      }
+      result.push([id, next]);
+      if (!nextState) visit(next);
+    });
+    state.set(id, 'done');
+  };
+
+  roots.forEach((id) => {
+    if (!state.has(id)) visit(id);
+  });
+  return result;
+}
+
+function countCrossings(upper: string[], lower: string[], succ: Map<string, string[]>): number {
+  const lowerIndex = new Map(lower.map((id, i) => [id, i]));
+  const segments: [number, number][] = [];
+  upper.forEach((id, i) => {
+    (succ.get(id) ?? []).forEach((next) => {
+      const j = lowerIndex.get(next);
+      if (j !== undefined) segments.push([i, j]);
+    });
+  });
+
+  let crossings = 0;
+  for (let a = 0; a < segments.length; a++) {
+    for (let b = a + 1; b < segments.length; b++) {
+      const [a1, a2] = segments[a];
+      const [b1, b2] = segments[b];
+      if ((a1 - b1) * (a2 - b2) < 0) crossings++;
+    }
+  }
+  return crossings;
+}
+
+function layoutComponent(
+  ids: string[],
+  nodeById: Map<string, Node<NodeData>>,
+  succ: Map<string, string[]>,
+  pred: Map<string, string[]>
+): LayeredComponent {
+  const edges = acyclicEdges(ids, succ, pred);
+  const dagSucc = new Map<string, string[]>(ids.map((id) => [id, []]));
+  const dagPred = new Map<string, string[]>(ids.map((id) => [id, []]));
+  edges.forEach(([u, v]) => {
+    dagSucc.get(u)!.push(v);
+    dagPred.get(v)!.push(u);
+  });
+
+  // Longest path layering in topological order; jumps end up right after their source branch
+  const layer = new Map<string, number>();
+  const inDegree = new Map(ids.map((id) => [id, dagPred.get(id)!.length]));
+  const queue = ids.filter((id) => inDegree.get(id) === 0);
+  while (queue.length) {
+    const id = queue.shift()!;
+    const own = Math.max(0, ...dagPred.get(id)!.map((p) => layer.get(p)! + 1));
+    layer.set(id, own);
+    dagSucc.get(id)!.forEach((next) => {
+      inDegree.set(next, inDegree.get(next)! - 1);
+      if (inDegree.get(next) === 0) queue.push(next);
+    });
+  }
+
+  // Lands start their target branch: pull them up to just before their first successor
+  ids.forEach((id) => {
+    if (nodeById.get(id)?.type !== 'land' || dagPred.get(id)!.length) return;
+    const successorLayers = dagSucc.get(id)!.map((next) => layer.get(next)!);
+    if (successorLayers.length) layer.set(id, Math.min(...successorLayers) - 1);
+  });
+
+  const minLayer = Math.min(...ids.map((id) => layer.get(id)!));
+  ids.forEach((id) => layer.set(id, layer.get(id)! - minLayer));
+  const layerCount = Math.max(...ids.map((id) => layer.get(id)!)) + 1;
+
+  // Split long edges with dummy nodes so ordering can see them
+  const orderSucc = new Map<string, string[]>(ids.map((id) => [id, []]));
+  const orderPred = new Map<string, string[]>(ids.map((id) => [id, []]));
+  const layers: string[][] = Array.from({ length: layerCount }, () => []);
+  const initialY = new Map<string, number>();
+  ids.forEach((id) => initialY.set(id, nodeById.get(id)!.position.y));
+
+  let dummyCount = 0;
+  edges.forEach(([u, v]) => {
+    let previous = u;
+    for (let l = layer.get(u)! + 1; l < layer.get(v)!; l++) {
+      const dummy = `__layout_dummy_${dummyCount++}`;
+      layer.set(dummy, l);
+      initialY.set(dummy, (initialY.get(u)! + initialY.get(v)!) / 2);
+      orderSucc.set(dummy, []);
+      orderPred.set(dummy, []);
+      orderSucc.get(previous)!.push(dummy);
+      orderPred.get(dummy)!.push(previous);
+      previous = dummy;
+    }
+    orderSucc.get(previous)!.push(v);
+    orderPred.get(v)!.push(previous);
+  });
+
+  layer.forEach((l, id) => layers[l].push(id));
+  layers.forEach((column) => column.sort((a, b) => initialY.get(a)! - initialY.get(b)!));
+
+  // Barycenter crossing reduction, alternating downward and upward sweeps
+  const totalCrossings = (candidate: string[][]) =>
+    candidate.slice(0, -1).reduce((sum, upper, i) => sum + countCrossings(upper, candidate[i + 1], orderSucc), 0);
+
+  let best = layers.map((l) => [...l]);
+  let bestCrossings = totalCrossings(best);
+  for (let sweep = 0; sweep < ORDERING_SWEEPS && bestCrossings > 0; sweep++) {
+    const downward = sweep % 2 === 0;
+    const range = downward
+      ? Array.from({ length: layerCount - 1 }, (_, i) => i + 1)
+      : Array.from({ length: layerCount - 1 }, (_, i) => layerCount - 2 - i);
+
+    range.forEach((l) => {
+      const fixed = layers[downward ? l - 1 : l + 1];
+      const fixedIndex = new Map(fixed.map((id, i) => [id, i]));
+      const neighbours = downward ? orderPred : orderSucc;
+      const barycenter = new Map<string, number>();
+      layers[l].forEach((id, i) => {
+        const positions = neighbours.get(id)!.map((n) => fixedIndex.get(n)).filter((p) => p !== undefined);
+        barycenter.set(id, positions.length ? positions.reduce((a, b) => a + b, 0) / positions.length : i);
+      });
+      layers[l].sort((a, b) => barycenter.get(a)! - barycenter.get(b)!);
+    });
+
+    const crossings = totalCrossings(layers);
+    if (crossings < bestCrossings) {
+      best = layers.map((l) => [...l]);
+      bestCrossings = crossings;
+    }
+  }
+
+  // Coordinates: one column per layer, each column centered on the tallest one
+  const sizeOf = (id: string) => (nodeById.has(id) ? getNodeSize(nodeById.get(id)!) : DUMMY_SIZE);
+  const columnHeights = best.map((column) =>
+    column.reduce((sum, id) => sum + sizeOf(id).height, 0) + NODE_GAP * Math.max(0, column.length - 1)
+  );
+  const height = Math.max(...columnHeights);
+  const relative = new Map<string, XYPosition>();
+
+  let x = 0;
+  best.forEach((column, l) => {
+    const columnWidth = Math.max(...column.map((id) => sizeOf(id).width));
+    let y = (height - columnHeights[l]) / 2;
+    column.forEach((id) => {
+      const size = sizeOf(id);
+      relative.set(id, { x: x + (columnWidth - size.width) / 2, y });
+      y += size.height + NODE_GAP;
+    });
+    x += columnWidth + LAYER_GAP;
+  });
+
+  return { layers: best, size: { width: x - LAYER_GAP, height }, relative };
+}
+
+function overlaps(a: XYPosition, aSize: Size, b: XYPosition, bSize: Size): boolean {
+  return (
+    a.x < b.x + bSize.width + NODE_GAP &&
+    b.x < a.x + aSize.width + NODE_GAP &&
+    a.y < b.y + bSize.height + NODE_GAP &&
+    b.y < a.y + aSize.height + NODE_GAP
+  );
+}
+
+/**
+ * Left-to-right layered (Sugiyama style) layout over the box/jump/land graph.
+ * Returns new positions for the nodes that should move; templates are never touched.
+ */
+export function computeLayeredLayout(
+  nodes: Node<NodeData>[],
+  edges: Edge[],
+  options: LayoutOptions = {}
+): Map<string, XYPosition> {
+  // Groups follow their members; they are not laid out themselves
+  const targets = nodes.filter(
+    (n) => !isTemplateNode(n) && n.type !== 'group' && (!options.selectionOnly || n.selected)
+  );
+  const positions = new Map<string, XYPosition>();
+  if (!targets.length) return positions;
+
+  const nodeById = new Map(targets.map((n) => [n.id, n]));
+  const ids = [...targets]
+    .sort((a, b) => a.position.x - b.position.x || a.position.y - b.position.y)
+    .map((n) => n.id);
+  const succ = new Map<string, string[]>(ids.map((id) => [id, []]));
+  const pred = new Map<string, string[]>(ids.map((id) => [id, []]));
+  const neighbours = new Map<string, Set<string>>(ids.map((id) => [id, new Set()]));
+
+  edges.forEach((e) => {
+    if (!nodeById.has(e.source) || !nodeById.has(e.target) || e.source === e.target) return;
+    if (succ.get(e.source)!.includes(e.target)) return;
+    succ.get(e.source)!.push(e.target);
+    pred.get(e.target)!.push(e.source);
+    neighbours.get(e.source)!.add(e.target);
+    neighbours.get(e.target)!.add(e.source);
+  });
+
+  // Keep the laid out graph where it was on the canvas
+  const origin = {
+    x: Math.min(...targets.map((n) => n.position.x)),
+    y: Math.min(...targets.map((n) => n.position.y)),
+  };
+
+  const isPinned = (id: string) => Boolean(options.keepPinned && nodeById.get(id)?.data.pinned);
+  const pinned = targets.filter((n) => isPinned(n.id));
+
+  // Biggest components first, stacked top to bottom
+  const components = splitComponents(ids, neighbours)
+    .sort((a, b) => b.length - a.length)
+    .map((component) => layoutComponent(component, nodeById, succ, pred));
+
+  let offsetY = origin.y;
+  components.forEach((component) => {
+    component.layers.forEach((column) => {
+      let cursor = -Infinity;
+      column.forEach((id) => {
+        const node = nodeById.get(id);
+        if (!node || isPinned(id)) return;
+
+        const size = getNodeSize(node);
+        const rel = component.relative.get(id)!;
+        const position = { x: origin.x + rel.x, y: Math.max(offsetY + rel.y, cursor) };
+
+        // Slide down past pinned nodes sitting in this column
+        let blocker = pinned.find((p) => overlaps(position, size, p.position, getNodeSize(p)));
+        while (blocker) {
+          position.y = blocker.position.y + getNodeSize(blocker).height + NODE_GAP;
+          blocker = pinned.find((p) => overlaps(position, size, p.position, getNodeSize(p)));
+        }
+
+        positions.set(id, position);
+        cursor = position.y + size.height + NODE_GAP;
+      });
+    });
+    offsetY += component.size.height + COMPONENT_GAP;
+  });
+
+  return positions;
+}
@@ -0,0 +1,93 @@
+import { normalizeSearchText, type TemplateSummary } from './templates';
+
+export type PaletteItem =
+  | { kind: 'template'; template: TemplateSummary }
+  | { kind: 'box' }
+  | { kind: 'jump' }
+  | { kind: 'land' };
+
+// dataTransfer type for items dragged from the palette onto the canvas
+export const PALETTE_DRAG_TYPE = 'application/x-workflow-palette';
+
+const RECENT_TEMPLATES_STORAGE_KEY = 'workflow-editor-recent-templates';
+const MAX_RECENT_TEMPLATES = 8;
+
+function isWordStart(text: string, index: number): boolean {
+  return index === 0 || /[\s_\-.]/.test(text[index - 1]);
+}
+
+/**
+ * Subsequence match: every query character must appear in order. Higher is
+ * better; consecutive characters and characters at word starts (after `_`,
+ * space...) score extra and jumps cost a little, so "oikt" ranks
+ * OI_KONTROL_TUTANAGI high. Returns null when the query does not match.
+ */
+export function fuzzyScore(query: string, text: string): number | null {
+  const q = normalizeSearchText(query);
+  const t = normalizeSearchText(text);
+  if (!q) return 0;
+
+  // best[j]: best score with the current query character matched at t[j]
+  let best: number[] = [];
+  for (let i = 0; i < q.length; i++) {
+    const next: number[] = new Array(t.length).fill(-Infinity);
+    let bestBefore = -Infinity;  // best[k] for k < j - 1
+    for (let j = 0; j < t.length; j++) {
+      if (i > 0 && j >= 2) bestBefore = Math.max(bestBefore, best[j - 2]);
+      if (t[j] !== q[i]) continue;
+      const charScore = 1 + (isWordStart(t, j) ? 3 : 0);
+      if (i === 0) {
+        next[j] = charScore;
+      } else {
+        const consecutive = j >= 1 ? best[j - 1] + 2 : -Infinity;
+        next[j] = charScore + Math.max(consecutive, bestBefore - 1);
+      }
+    }
+    best = next;
+  }
+
+  const score = Math.max(...best);
+  if (score === -Infinity) return null;
+  // Prefer shorter names among equally good matches
+  return score - t.length / 100;
+}
+
+/**
+ * Templates matching every whitespace-separated query token in `ad` or
+ * `aciklama`, best first. Ties between `ad` and `aciklama` go to `ad`.
+ */
+export function searchTemplates(templates: TemplateSummary[], query: string): TemplateSummary[] {
+  const tokens = query.trim().split(/\s+/).filter(Boolean);
+  if (tokens.length === 0) return templates;
+
+  return templates
+    .map((template) => {
+      let total = 0;
+      for (const token of tokens) {
+        const adScore = fuzzyScore(token, template.ad);
+        const aciklamaScore = fuzzyScore(token, template.aciklama);
+        if (adScore === null && aciklamaScore === null) return null;
+        total += Math.max(adScore === null ? -Infinity : adScore + 1, aciklamaScore ?? -Infinity);
+      }
+      return { template, total };
+    })
+    .filter((match): match is { template: TemplateSummary; total: number } => match !== null)
+    .sort((a, b) => b.total - a.total)
+    .map(({ template }) => template);
+}
+
+export function loadRecentTemplateIds(): string[] {
+  try {
+    const stored = JSON.parse(localStorage.getItem(RECENT_TEMPLATES_STORAGE_KEY) ?? '[]');
+    return Array.isArray(stored) ? stored.filter((id): id is string => typeof id === 'string') : [];
+  } catch {
+    return [];
+  }
+}
+
+/** Moves the id to the front, stores the list and returns it. */
+export function pushRecentTemplateId(ids: string[], id: string): string[] {
+  const next = [id, ...ids.filter((existing) => existing !== id)].slice(0, MAX_RECENT_TEMPLATES);
+  localStorage.setItem(RECENT_TEMPLATES_STORAGE_KEY, JSON.stringify(next));
+  return next;
+}
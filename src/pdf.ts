@@ -0,0 +1,84 @@
+// Minimal PDF writer: every page is one full-page JPEG image. Text (title
+// blocks and node labels) is drawn into the image beforehand, so no fonts
+// or text encodings are needed here.
+
+export type PdfPage = {
+  width: number;        // Page size in points (1/72 inch)
+  height: number;
+  jpeg: Uint8Array;     // Baseline JPEG covering the whole page
+  pixelWidth: number;
+  pixelHeight: number;
+};
+
+// A4 and A3 portrait, in points
+export const PAPER_SIZES = {
+  A4: { width: 595.28, height: 841.89 },
+  A3: { width: 841.89, height: 1190.55 },
+} as const;
+
+export type PaperSize = keyof typeof PAPER_SIZES;
+
+function formatNumber(value: number): string {
+  return String(Math.round(value * 100) / 100);
+}
+
+export function buildPdf(pages: PdfPage[]): Blob {
+  const encoder = new TextEncoder();
+  const chunks: Uint8Array[] = [];
+  const offsets: number[] = [];
+  let length = 0;
+
+  const write = (chunk: string | Uint8Array) => {
+    const bytes = typeof chunk === 'string' ? encoder.encode(chunk) : chunk;
+    chunks.push(bytes);
+    length += bytes.length;
+  };
+  const writeObject = (id: number, body: string, stream?: Uint8Array) => {
+    offsets[id] = length;
+    write(`${id} 0 obj\n${body}\n`);
+    if (stream) {
+      write('stream\n');
+      write(stream);
+      write('\nendstream\n');
+    }
+    write('endobj\n');
+  };
+
+  // Object ids: 1 catalog, 2 page tree, then page / content / image per page
+  const pageIds = pages.map((_, index) => 3 + index * 3);
+
+  write('%PDF-1.4\n');
+  write(new Uint8Array([0x25, 0xe2, 0xe3, 0xcf, 0xd3, 0x0a]));  // Binary marker comment
+  writeObject(1, '<< /Type /Catalog /Pages 2 0 R >>');
+  writeObject(2, `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`);
+
+  pages.forEach((page, index) => {
+    const pageId = pageIds[index];
+    const width = formatNumber(page.width);
+    const height = formatNumber(page.height);
+    const content = encoder.encode(`q ${width} 0 0 ${height} 0 0 cm /Im0 Do Q`);
+
+    writeObject(
+      pageId,
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${width} ${height}] ` +
+        `/Resources << /XObject << /Im0 ${pageId + 2} 0 R >> >> /Contents ${pageId + 1} 0 R >>`
+    );
+    writeObject(pageId + 1, `<< /Length ${content.length} >>`, content);
+    writeObject(
+      pageId + 2,
+      `<< /Type /XObject /Subtype /Image /Width ${page.pixelWidth} /Height ${page.pixelHeight} ` +
+        `/ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${page.jpeg.length} >>`,
+      page.jpeg
+    );
+  });
+
+  const objectCount = 3 + pages.length * 3;
+  const xrefOffset = length;
+  write(`xref\n0 ${objectCount}\n0000000000 65535 f \n`);
+  for (let id = 1; id < objectCount; id++) {
+    write(`${String(offsets[id]).padStart(10, '0')} 00000 n \n`);
+  }
+  write(`trailer\n<< /Size ${objectCount} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+
+  return new Blob(chunks as BlobPart[], { type: 'application/pdf' });
+}
@@ -0,0 +1,135 @@
+import type { Edge, Node } from 'reactflow';
+import type { BoxData, EndData, GatewayData, GroupData, JumpData, NodeData, StartData } from './workflow';
+
+export type SimulationStep = {
+  nodeId: string;
+  via: 'start' | 'edge' | 'jump';  // How the step was reached
+  edgeId?: string;
+};
+
+export type SimulationChoice = {
+  kind: 'edge' | 'jump';
+  targetId: string;
+  edgeId?: string;
+  label?: string;  // Edge label or outcome code, shown next to the choice
+  pending?: boolean;  // A parallel branch left behind at an AND split
+};
+
+function isAndGateway(node: Node<NodeData> | undefined, mode: GatewayData['mode']): boolean {
+  return node?.data.nodeType === 'gateway'
+    && (node.data as GatewayData).kind === 'and'
+    && (node.data as GatewayData).mode === mode;
+}
+
+// Outgoing transitions of a node: its edges, or the jump→land link for jump nodes
+export function getSimulationChoices(nodeId: string, nodes: Node<NodeData>[], edges: Edge[]): SimulationChoice[] {
+  const node = nodes.find((n) => n.id === nodeId);
+  if (!node) return [];
+
+  if (node.data.nodeType === 'jump') {
+    const landId = (node.data as JumpData).landId;
+    const land = nodes.find((n) => n.id === landId && n.type === 'land');
+    return land ? [{ kind: 'jump', targetId: land.id }] : [];
+  }
+
+  return edges
+    .filter((e) => e.source === nodeId && nodes.some((n) => n.id === e.target))
+    .map((e) => ({
+      kind: 'edge' as const,
+      targetId: e.target,
+      edgeId: e.id,
+      label: (typeof e.label === 'string' && e.label) || e.data?.outcome || undefined,
+    }));
+}
+
+// Outgoing edges of AND splits on the trail that have not been walked yet
+export function getPendingBranches(trail: SimulationStep[], nodes: Node<NodeData>[], edges: Edge[]): SimulationChoice[] {
+  const traversed = new Set(trail.map((step) => step.edgeId).filter(Boolean));
+  const splits = new Set(
+    trail.map((step) => step.nodeId).filter((id) => isAndGateway(nodes.find((n) => n.id === id), 'split'))
+  );
+
+  return [...splits].flatMap((id) =>
+    getSimulationChoices(id, nodes, edges)
+      .filter((choice) => choice.edgeId && !traversed.has(choice.edgeId))
+      .map((choice) => ({ ...choice, pending: true }))
+  );
+}
+
+/**
+ * Choices offered at the end of the trail. A branch that ends (or reaches an
+ * AND join still waiting for other branches) continues with the pending ones.
+ */
+export function getAvailableChoices(trail: SimulationStep[], nodes: Node<NodeData>[], edges: Edge[]): SimulationChoice[] {
+  const current = trail[trail.length - 1];
+  if (!current) return [];
+
+  const pending = getPendingBranches(trail, nodes, edges);
+  if (pending.length && isAndGateway(nodes.find((n) => n.id === current.nodeId), 'join')) {
+    const traversed = new Set(trail.map((step) => step.edgeId).filter(Boolean));
+    const isWaiting = edges.some((e) => e.target === current.nodeId && !traversed.has(e.id));
+    if (isWaiting) return pending;
+  }
+
+  const choices = getSimulationChoices(current.nodeId, nodes, edges);
+  return choices.length ? choices : pending;
+}
+
+/**
+ * Appends the chosen transition to the trail. Landing on a land node continues
+ * through its outgoing edge right away when there is exactly one.
+ */
+export function advanceSimulation(
+  trail: SimulationStep[],
+  choice: SimulationChoice,
+  nodes: Node<NodeData>[],
+  edges: Edge[]
+): SimulationStep[] {
+  const next = [...trail, { nodeId: choice.targetId, via: choice.kind, edgeId: choice.edgeId }];
+
+  if (choice.kind === 'jump') {
+    const landChoices = getSimulationChoices(choice.targetId, nodes, edges);
+    if (landChoices.length === 1) {
+      const [landChoice] = landChoices;
+      next.push({ nodeId: landChoice.targetId, via: landChoice.kind, edgeId: landChoice.edgeId });
+    }
+  }
+
+  return next;
+}
+
+export function getSimulationNodeName(node: Node<NodeData> | undefined): string {
+  if (!node) return '?';
+  if (node.data.nodeType === 'box') {
+    const boxData = node.data as BoxData;
+    return boxData.def?.ad || boxData.label || node.id;
+  }
+  if (node.data.nodeType === 'start') return (node.data as StartData).label || 'START';
+  if (node.data.nodeType === 'gateway') {
+    const gatewayData = node.data as GatewayData;
+    return `${gatewayData.kind.toUpperCase()} ${gatewayData.mode.toUpperCase()}`;
+  }
+  if (node.data.nodeType === 'end') {
+    const outcomeName = (node.data as EndData).outcomeName;
+    return outcomeName ? `END (${outcomeName})` : 'END';
+  }
+  if (node.data.nodeType === 'group') return `GRUP (${(node.data as GroupData).label})`;
+  return node.data.nodeType === 'jump' ? 'JUMP' : 'LAND';
+}
+
+export function buildTrailExport(trail: SimulationStep[], nodes: Node<NodeData>[]) {
+  return {
+    exportedAt: new Date().toISOString(),
+    steps: trail.map((step, index) => {
+      const node = nodes.find((n) => n.id === step.nodeId);
+      return {
+        index: index + 1,
+        nodeId: step.nodeId,
+        type: node?.type ?? null,
+        ad: getSimulationNodeName(node),
+        via: step.via,
+        edgeId: step.edgeId ?? null,
+      };
+    }),
+  };
+}
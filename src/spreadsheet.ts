@@ -0,0 +1,230 @@
+import { buildZip, readZip } from './zip';
+
+// One table: a CSV file or an XLSX worksheet. Cells are plain strings.
+export type Sheet = {
+  name: string;
+  rows: string[][];
+};
+
+const XLSX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+const ZIP_MIME_TYPE = 'application/zip';
+const SPREADSHEET_NS = 'http://schemas.openxmlformats.org/spreadsheetml/2006/main';
+const RELATIONSHIPS_NS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const PACKAGE_RELATIONSHIPS_NS = 'http://schemas.openxmlformats.org/package/2006/relationships';
+
+function isBlankRow(row: string[]): boolean {
+  return row.every((cell) => !cell.trim());
+}
+
+// Turkish Excel saves CSV with ';', others with ',' (or tabs when pasted)
+function detectDelimiter(text: string): string {
+  const firstLine = text.slice(0, text.search(/\r?\n|$/));
+  const counts = [';', ',', '\t'].map((delimiter) => ({ delimiter, count: firstLine.split(delimiter).length }));
+  return counts.reduce((best, c) => (c.count > best.count ? c : best)).delimiter;
+}
+
+/** RFC 4180 CSV with quoted fields; the delimiter is taken from the header line. */
+export function parseCsv(text: string): string[][] {
+  const source = text.replace(/^\uFEFF/, '');
+  const delimiter = detectDelimiter(source);
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (inQuotes) {
+      if (char === '"' && source[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  row.push(cell);
+  rows.push(row);
+
+  return rows.filter((r) => !isBlankRow(r));
+}
+
+/** CSV Excel opens with Turkish characters intact: BOM, ';' and CRLF. */
+export function buildCsv(rows: string[][]): string {
+  const quote = (cell: string) => (/[;"\r\n]|^\s|\s$/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell);
+  return `\uFEFF${rows.map((row) => row.map(quote).join(';')).join('\r\n')}\r\n`;
+}
+
+function columnIndex(reference: string): number {
+  const letters = reference.replace(/[^A-Z]/gi, '').toUpperCase();
+  let index = 0;
+  for (const letter of letters) index = index * 26 + (letter.charCodeAt(0) - 64);
+  return index - 1;
+}
+
+function columnName(index: number): string {
+  let name = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+}
+
+// Text of an <si> or <is> element; phonetic runs (<rPh>) are not part of the value
+function richText(element: Element): string {
+  return Array.from(element.getElementsByTagNameNS('*', 't'))
+    .filter((t) => t.parentElement?.localName !== 'rPh')
+    .map((t) => t.textContent ?? '')
+    .join('');
+}
+
+/** All worksheets of an .xlsx file, as strings. Formulas come in as their cached values. */
+export async function readXlsx(bytes: Uint8Array): Promise<Sheet[]> {
+  const files = await readZip(bytes);
+  const decoder = new TextDecoder();
+  const parseXml = (path: string) => {
+    const data = files.get(path);
+    return data ? new DOMParser().parseFromString(decoder.decode(data), 'application/xml') : null;
+  };
+
+  const workbook = parseXml('xl/workbook.xml');
+  if (!workbook) throw new Error('Dosya bir Excel çalışma kitabı değil.');
+
+  const targets = new Map<string, string>();
+  Array.from(parseXml('xl/_rels/workbook.xml.rels')?.getElementsByTagNameNS('*', 'Relationship') ?? []).forEach((rel) => {
+    const target = rel.getAttribute('Target') ?? '';
+    targets.set(rel.getAttribute('Id') ?? '', target.startsWith('/') ? target.slice(1) : `xl/${target}`);
+  });
+
+  const sharedStrings = Array.from(parseXml('xl/sharedStrings.xml')?.getElementsByTagNameNS('*', 'si') ?? []).map(richText);
+
+  return Array.from(workbook.getElementsByTagNameNS('*', 'sheet')).flatMap((sheet): Sheet[] => {
+    const path = targets.get(sheet.getAttributeNS(RELATIONSHIPS_NS, 'id') ?? '');
+    const doc = path ? parseXml(path) : null;
+    if (!doc) return [];
+
+    const rows = Array.from(doc.getElementsByTagNameNS('*', 'row')).map((rowElement) => {
+      const row: string[] = [];
+      Array.from(rowElement.getElementsByTagNameNS('*', 'c')).forEach((cellElement, position) => {
+        const reference = cellElement.getAttribute('r');
+        const index = reference ? columnIndex(reference) : position;
+        const type = cellElement.getAttribute('t');
+        const value = cellElement.getElementsByTagNameNS('*', 'v')[0]?.textContent ?? '';
+        const inline = cellElement.getElementsByTagNameNS('*', 'is')[0];
+
+        while (row.length < index) row.push('');
+        row[index] = type === 's' ? sharedStrings[Number(value)] ?? '' : inline ? richText(inline) : value;
+      });
+      return row;
+    });
+    return [{ name: sheet.getAttribute('name') ?? `Sayfa ${path}`, rows: rows.filter((r) => !isBlankRow(r)) }];
+  });
+}
+
+function escapeXml(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+// Excel sheet names: at most 31 characters, none of []:*?/\
+function sheetName(name: string): string {
+  return name.replace(/[[\]:*?/\\]/g, '_').slice(0, 31) || 'Sayfa';
+}
+
+/** Minimal .xlsx with the sheets as inline strings (no styles). */
+export function buildXlsx(sheets: Sheet[]): Blob {
+  const encoder = new TextEncoder();
+  const xml = (body: string) => encoder.encode(`<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n${body}`);
+
+  const worksheets = sheets.map((sheet, sheetIndex) => {
+    const rows = sheet.rows.map((row, rowIndex) => {
+      const cells = row.map((cell, cellIndex) => {
+        const reference = `${columnName(cellIndex)}${rowIndex + 1}`;
+        return `<c r="${reference}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(cell)}</t></is></c>`;
+      });
+      return `<row r="${rowIndex + 1}">${cells.join('')}</row>`;
+    });
+    return {
+      name: `xl/worksheets/sheet${sheetIndex + 1}.xml`,
+      data: xml(`<worksheet xmlns="${SPREADSHEET_NS}"><sheetData>${rows.join('')}</sheetData></worksheet>`),
+    };
+  });
+
+  const contentTypes = xml(
+    '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+      '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+      '<Default Extension="xml" ContentType="application/xml"/>' +
+      '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+      worksheets
+        .map((w) => `<Override PartName="/${w.name}" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`)
+        .join('') +
+      '</Types>'
+  );
+  const rootRels = xml(
+    `<Relationships xmlns="${PACKAGE_RELATIONSHIPS_NS}">` +
+      `<Relationship Id="rId1" Type="${RELATIONSHIPS_NS}/officeDocument" Target="xl/workbook.xml"/>` +
+      '</Relationships>'
+  );
+  const workbook = xml(
+    `<workbook xmlns="${SPREADSHEET_NS}" xmlns:r="${RELATIONSHIPS_NS}"><sheets>` +
+      sheets.map((sheet, i) => `<sheet name="${escapeXml(sheetName(sheet.name))}" sheetId="${i + 1}" r:id="rId${i + 1}"/>`).join('') +
+      '</sheets></workbook>'
+  );
+  const workbookRels = xml(
+    `<Relationships xmlns="${PACKAGE_RELATIONSHIPS_NS}">` +
+      sheets.map((_, i) => `<Relationship Id="rId${i + 1}" Type="${RELATIONSHIPS_NS}/worksheet" Target="worksheets/sheet${i + 1}.xml"/>`).join('') +
+      '</Relationships>'
+  );
+
+  const zip = buildZip([
+    { name: '[Content_Types].xml', data: contentTypes },
+    { name: '_rels/.rels', data: rootRels },
+    { name: 'xl/workbook.xml', data: workbook },
+    { name: 'xl/_rels/workbook.xml.rels', data: workbookRels },
+    ...worksheets,
+  ]);
+  return new Blob([zip as BlobPart], { type: XLSX_MIME_TYPE });
+}
+
+/**
+ * Several CSV files in one .zip, so a multi-sheet export is a single
+ * download (browsers tend to block a second automatic one).
+ */
+export function buildCsvZip(files: { fileName: string; rows: string[][] }[]): Blob {
+  const encoder = new TextEncoder();
+  const zip = buildZip(files.map((file) => ({ name: file.fileName, data: encoder.encode(buildCsv(file.rows)) })));
+  return new Blob([zip as BlobPart], { type: ZIP_MIME_TYPE });
+}
+
+function sheetNameFromFileName(fileName: string): string {
+  return fileName.replace(/^.*\//, '').replace(/\.[^.]+$/, '');
+}
+
+/** Sheets from a .csv (one sheet named after the file), .xlsx or .zip of CSV files. */
+export async function readSpreadsheetFile(file: File): Promise<Sheet[]> {
+  if (/\.xlsx$/i.test(file.name)) {
+    return readXlsx(new Uint8Array(await file.arrayBuffer()));
+  }
+  if (/\.zip$/i.test(file.name)) {
+    const decoder = new TextDecoder();
+    const entries = [...(await readZip(new Uint8Array(await file.arrayBuffer())))];
+    return entries
+      .filter(([name]) => /\.csv$/i.test(name))
+      .map(([name, data]) => ({ name: sheetNameFromFileName(name), rows: parseCsv(decoder.decode(data)) }));
+  }
+  return [{ name: sheetNameFromFileName(file.name), rows: parseCsv(await file.text()) }];
+}
@@ -0,0 +1,70 @@
+import type { Node } from 'reactflow';
+import { isTemplateNode, type BoxData, type NodeData } from './workflow';
+
+// İşlem türü template as shown in menus and the template library
+export type TemplateSummary = {
+  id: string;
+  ad: string;
+  aciklama: string;
+};
+
+export type TemplateGroup = {
+  prefix: string;  // e.g. 'OI_'; '' for names without a prefix
+  templates: TemplateSummary[];
+};
+
+export function getTemplateSummaries(nodes: Node<NodeData>[]): TemplateSummary[] {
+  return nodes.filter(isTemplateNode).map((n) => {
+    const boxData = n.data as BoxData;
+    return {
+      id: n.id,
+      ad: boxData.def?.ad || boxData.label || '',
+      aciklama: boxData.def?.aciklama || '',
+    };
+  });
+}
+
+/**
+ * Case- and accent-insensitive form for searching: names are upper-case ASCII
+ * (OI_ILK_KONTROL) while users type Turkish ("ilk", "görev"), and the Turkish
+ * lower case of I is ı.
+ */
+export function normalizeSearchText(text: string): string {
+  return text
+    .toLocaleLowerCase('tr')
+    .replace(/ı/g, 'i')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '');
+}
+
+/** Prefix up to and including the first underscore, e.g. 'OI_KONTROL' -> 'OI_'. */
+export function getTemplatePrefix(ad: string): string {
+  const index = ad.indexOf('_');
+  return index > 0 ? ad.slice(0, index + 1) : '';
+}
+
+/** Groups sorted by prefix, templates sorted by name; unprefixed names come last. */
+export function groupTemplatesByPrefix(templates: TemplateSummary[]): TemplateGroup[] {
+  const groups = new Map<string, TemplateSummary[]>();
+  templates.forEach((template) => {
+    const prefix = getTemplatePrefix(template.ad);
+    groups.set(prefix, [...(groups.get(prefix) ?? []), template]);
+  });
+  return [...groups.entries()]
+    .sort(([a], [b]) => (a === '' ? 1 : b === '' ? -1 : a.localeCompare(b, 'tr')))
+    .map(([prefix, items]) => ({
+      prefix,
+      templates: [...items].sort((a, b) => a.ad.localeCompare(b.ad, 'tr')),
+    }));
+}
+
+/** Template id -> number of canvas box nodes created from it (BoxData.dbId). */
+export function countTemplateUsage(nodes: Node<NodeData>[]): Map<string, number> {
+  const usage = new Map<string, number>();
+  nodes.forEach((n) => {
+    if (isTemplateNode(n) || n.data.nodeType !== 'box') return;
+    const dbId = (n.data as BoxData).dbId;
+    if (dbId && dbId !== n.id) usage.set(dbId, (usage.get(dbId) ?? 0) + 1);
+  });
+  return usage;
+}
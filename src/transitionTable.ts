@@ -0,0 +1,275 @@
+import type { Edge, Node } from 'reactflow';
+import type { Sheet } from './spreadsheet';
+import { normalizeSearchText } from './templates';
+import { convertDBEdgeToReactFlowEdge, type ParsedWorkflowFile } from './workflowFile';
+import { isTemplateNode, type BoxData, type JumpData, type NodeData, type TransitionData } from './workflow';
+
+// The spreadsheet layout the business side keeps: one row per transition
+// (islem_tur → sonraki_islem_tur) and a sheet of işlem türleri (ad, aciklama).
+export const TRANSITION_SHEET_NAME = 'Geçişler';
+export const TEMPLATE_SHEET_NAME = 'İşlem Türleri';
+const TRANSITION_HEADERS = ['islem_tur', 'sonraki_islem_tur', 'label', 'outcome', 'guard'];
+const TEMPLATE_HEADERS = ['ad', 'aciklama'];
+
+export type TransitionField = 'source' | 'target' | 'label' | 'outcome' | 'guard';
+export type TemplateField = 'ad' | 'aciklama';
+
+// Column indexes; null = not mapped
+export type TransitionColumnMapping = {
+  transitionSheet: number;
+  columns: Record<TransitionField, number | null>;
+  templateSheet: number | null;  // Null: no işlem türleri sheet
+  templateColumns: Record<TemplateField, number | null>;
+};
+
+export type TransitionRow = Record<TransitionField, string>;
+
+export type TransitionTablePreview = {
+  templates: { ad: string; aciklama: string }[];  // Template sheet rows, one per ad
+  transitions: TransitionRow[];
+  boxNames: string[];        // Names used in the transitions, in first-seen order
+  unmatchedNames: string[];  // Used in transitions, but neither in the template sheet nor an existing template
+  skippedRows: number;       // Transition rows without a source or target
+};
+
+// Accepted header spellings, compared after normalizeHeader
+const HEADER_ALIASES: Record<TransitionField | TemplateField, string[]> = {
+  source: ['islem_tur', 'islem_turu', 'kaynak', 'source', 'from'],
+  target: ['sonraki_islem_tur', 'sonraki_islem_turu', 'hedef', 'target', 'to'],
+  label: ['label', 'etiket'],
+  outcome: ['outcome', 'sonuc'],
+  guard: ['guard', 'kosul'],
+  ad: ['ad', 'name', 'islem_tur', 'islem_turu'],
+  aciklama: ['aciklama', 'description'],
+};
+
+function normalizeHeader(header: string): string {
+  return normalizeSearchText(header.trim()).replace(/[\s-]+/g, '_');
+}
+
+function findColumn(sheet: Sheet | undefined, field: TransitionField | TemplateField): number | null {
+  const headers = (sheet?.rows[0] ?? []).map(normalizeHeader);
+  // Earlier aliases win, so a sheet with both `ad` and `islem_tur` maps `ad`
+  for (const alias of HEADER_ALIASES[field]) {
+    const index = headers.indexOf(alias);
+    if (index >= 0) return index;
+  }
+  return null;
+}
+
+export function guessTransitionColumns(sheet: Sheet | undefined): TransitionColumnMapping['columns'] {
+  return {
+    source: findColumn(sheet, 'source') ?? 0,
+    target: findColumn(sheet, 'target') ?? 1,
+    label: findColumn(sheet, 'label'),
+    outcome: findColumn(sheet, 'outcome'),
+    guard: findColumn(sheet, 'guard'),
+  };
+}
+
+export function guessTemplateColumns(sheet: Sheet | undefined): TransitionColumnMapping['templateColumns'] {
+  return {
+    ad: findColumn(sheet, 'ad') ?? (sheet ? 0 : null),
+    aciklama: findColumn(sheet, 'aciklama'),
+  };
+}
+
+/** Mapping read from the header rows; the first sheet with source/target columns holds the transitions. */
+export function guessColumnMapping(sheets: Sheet[]): TransitionColumnMapping {
+  const hasTransitions = (sheet: Sheet) => findColumn(sheet, 'source') !== null && findColumn(sheet, 'target') !== null;
+  const transitionSheet = Math.max(0, sheets.findIndex(hasTransitions));
+  const templateIndex = sheets.findIndex((sheet, i) => i !== transitionSheet && findColumn(sheet, 'ad') !== null);
+  const templateSheet = templateIndex >= 0 ? templateIndex : null;
+
+  return {
+    transitionSheet,
+    columns: guessTransitionColumns(sheets[transitionSheet]),
+    templateSheet,
+    templateColumns: guessTemplateColumns(templateSheet === null ? undefined : sheets[templateSheet]),
+  };
+}
+
+function cell(row: string[], index: number | null): string {
+  return index === null ? '' : (row[index] ?? '').trim();
+}
+
+/** What an import with the mapping would create. The first row of each sheet is the header. */
+export function previewTransitionTable(
+  sheets: Sheet[],
+  mapping: TransitionColumnMapping,
+  existingTemplateNames: Set<string>
+): TransitionTablePreview {
+  const templates = new Map<string, string>();
+  const templateSheet = mapping.templateSheet === null ? undefined : sheets[mapping.templateSheet];
+  templateSheet?.rows.slice(1).forEach((row) => {
+    const ad = cell(row, mapping.templateColumns.ad);
+    if (ad && !templates.has(ad)) templates.set(ad, cell(row, mapping.templateColumns.aciklama));
+  });
+
+  const transitions: TransitionRow[] = [];
+  const boxNames = new Set<string>();
+  let skippedRows = 0;
+  (sheets[mapping.transitionSheet]?.rows ?? []).slice(1).forEach((row) => {
+    const transition: TransitionRow = {
+      source: cell(row, mapping.columns.source),
+      target: cell(row, mapping.columns.target),
+      label: cell(row, mapping.columns.label),
+      outcome: cell(row, mapping.columns.outcome),
+      guard: cell(row, mapping.columns.guard),
+    };
+    if (!transition.source || !transition.target) {
+      skippedRows++;
+      return;
+    }
+    transitions.push(transition);
+    boxNames.add(transition.source);
+    boxNames.add(transition.target);
+  });
+
+  return {
+    templates: [...templates].map(([ad, aciklama]) => ({ ad, aciklama })),
+    transitions,
+    boxNames: [...boxNames],
+    unmatchedNames: [...boxNames].filter((name) => !templates.has(name) && !existingTemplateNames.has(name)),
+    skippedRows,
+  };
+}
+
+function newId(): string {
+  return crypto?.randomUUID?.() ?? `${Date.now()}-${Math.random().toString(36).slice(2, 11)}`;
+}
+
+/**
+ * Canvas for the previewed table: one box per name, linked to its template,
+ * and one edge per transition. Existing templates are kept (their aciklama
+ * updated from the sheet); new işlem türleri become templates. Positions are
+ * left to auto layout.
+ */
+export function buildTransitionImport(preview: TransitionTablePreview, existingNodes: Node<NodeData>[]): ParsedWorkflowFile {
+  const sheetTemplates = new Map(preview.templates.map((t) => [t.ad, t.aciklama]));
+  const templateByAd = new Map<string, Node<NodeData>>();
+
+  existingNodes.filter(isTemplateNode).forEach((template) => {
+    const boxData = template.data as BoxData;
+    const ad = boxData.def?.ad || boxData.label;
+    const aciklama = sheetTemplates.get(ad);
+    templateByAd.set(
+      ad,
+      aciklama ? { ...template, data: { ...boxData, def: { ...boxData.def, aciklama } } } : template
+    );
+  });
+  preview.templates.forEach(({ ad, aciklama }) => {
+    if (templateByAd.has(ad)) return;
+    templateByAd.set(ad, {
+      id: newId(),
+      type: 'box',
+      position: { x: -1, y: -1 },  // Template marker
+      data: { nodeType: 'box', label: ad, def: { ad, aciklama } },
+    });
+  });
+
+  const boxIdByName = new Map<string, string>();
+  const boxes = preview.boxNames.map((name, index): Node<NodeData> => {
+    const template = templateByAd.get(name);
+    const id = newId();
+    boxIdByName.set(name, id);
+    return {
+      id,
+      type: 'box',
+      position: { x: 100 + (index % 5) * 250, y: 100 + Math.floor(index / 5) * 100 },
+      data: {
+        nodeType: 'box',
+        label: name,
+        def: { ad: name, aciklama: template ? (template.data as BoxData).def?.aciklama ?? '' : '' },
+        dbId: template?.id,
+      },
+    };
+  });
+
+  const edges = preview.transitions.map((t) =>
+    convertDBEdgeToReactFlowEdge({
+      id: newId(),
+      source: boxIdByName.get(t.source)!,
+      target: boxIdByName.get(t.target)!,
+      label: t.label,
+      outcome: t.outcome,
+      guard: t.guard,
+    })
+  );
+
+  return { nodes: [...templateByAd.values(), ...boxes], edges, hasMissingPosition: true };
+}
+
+function getBoxName(node: Node<NodeData>): string {
+  const boxData = node.data as BoxData;
+  return boxData.def?.ad || boxData.label;
+}
+
+/**
+ * The canvas as the two-sheet layout. The table only knows boxes, so paths
+ * through jump/land pairs and gateways become direct box → box rows (label,
+ * outcome and guard taken from the first edge on the path that has them);
+ * start and end nodes are left out.
+ */
+export function buildTransitionSheets(nodes: Node<NodeData>[], edges: Edge<TransitionData>[]): Sheet[] {
+  const nodeById = new Map(nodes.map((n) => [n.id, n]));
+  const outgoing = new Map<string, Edge<TransitionData>[]>();
+  edges.forEach((e) => outgoing.set(e.source, [...(outgoing.get(e.source) ?? []), e]));
+
+  const edgeFields = (e: Edge<TransitionData>): Omit<TransitionRow, 'source' | 'target'> => ({
+    label: typeof e.label === 'string' ? e.label : '',
+    outcome: e.data?.outcome ?? '',
+    guard: e.data?.guard ?? '',
+  });
+
+  // Boxes reached from `nodeId`, skipping over jumps, lands and gateways
+  const resolve = (
+    nodeId: string,
+    fields: Omit<TransitionRow, 'source' | 'target'>,
+    visited: Set<string>
+  ): { box: Node<NodeData>; fields: Omit<TransitionRow, 'source' | 'target'> }[] => {
+    const node = nodeById.get(nodeId);
+    if (!node || visited.has(nodeId)) return [];
+    visited.add(nodeId);
+
+    if (node.data.nodeType === 'box') return [{ box: node, fields }];
+    const next = node.data.nodeType === 'jump'
+      ? [(node.data as JumpData).landId].filter((id): id is string => Boolean(id)).map((id) => ({ target: id, fields }))
+      : node.data.nodeType === 'land' || node.data.nodeType === 'gateway'
+        ? (outgoing.get(nodeId) ?? []).map((e) => {
+            const own = edgeFields(e);
+            return {
+              target: e.target,
+              fields: { label: fields.label || own.label, outcome: fields.outcome || own.outcome, guard: fields.guard || own.guard },
+            };
+          })
+        : [];
+    return next.flatMap((step) => resolve(step.target, step.fields, visited));
+  };
+
+  const rows = new Map<string, string[]>();
+  nodes
+    .filter((n) => n.data.nodeType === 'box' && !isTemplateNode(n))
+    .forEach((source) => {
+      (outgoing.get(source.id) ?? []).forEach((e) => {
+        resolve(e.target, edgeFields(e), new Set()).forEach(({ box, fields }) => {
+          const row = [getBoxName(source), getBoxName(box), fields.label, fields.outcome, fields.guard];
+          rows.set(JSON.stringify(row), row);
+        });
+      });
+    });
+
+  const templateRows = new Map<string, string[]>();
+  nodes
+    .filter((n) => n.data.nodeType === 'box')
+    .sort((a, b) => Number(isTemplateNode(b)) - Number(isTemplateNode(a)))  // Template aciklama wins
+    .forEach((n) => {
+      const ad = getBoxName(n);
+      if (ad && !templateRows.has(ad)) templateRows.set(ad, [ad, (n.data as BoxData).def?.aciklama ?? '']);
+    });
+
+  return [
+    { name: TRANSITION_SHEET_NAME, rows: [TRANSITION_HEADERS, ...rows.values()] },
+    { name: TEMPLATE_SHEET_NAME, rows: [TEMPLATE_HEADERS, ...templateRows.values()] },
+  ];
+}
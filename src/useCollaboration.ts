@@ -0,0 +1,319 @@
+import { useCallback, useEffect, useRef, useState, type Dispatch, type SetStateAction } from 'react';
+import type { Edge, Node, XYPosition } from 'reactflow';
+import { applyOps, createLwwDoc, getLiveKeys, getValue, setValue, type LwwDoc, type LwwOp } from './crdt';
+import type { NodeData, TransitionData } from './workflow';
+
+export type CollabUser = {
+  id: string;
+  name: string;
+  color: string;
+};
+
+export type CollabPresence = {
+  cursor: XYPosition | null;   // Flow coordinates
+  selectedNodeIds: string[];
+  editingNodeId: string | null; // Node open in the edit modal
+};
+
+export type RemotePeer = CollabUser & CollabPresence;
+
+export type CollabStatus = 'off' | 'connecting' | 'connected' | 'disconnected';
+
+// Messages exchanged with the relay (mock-server/relay.js)
+type ClientMessage =
+  | { type: 'hello'; user: CollabUser; presence: CollabPresence }
+  | { type: 'ops'; ops: LwwOp[] }
+  | { type: 'presence'; presence: CollabPresence };
+
+type ServerMessage =
+  | { type: 'snapshot'; ops: LwwOp[]; peers: RemotePeer[] }
+  | { type: 'ops'; ops: LwwOp[] }
+  | { type: 'presence'; user: CollabUser; presence: CollabPresence }
+  | { type: 'leave'; userId: string };
+
+type UseCollaborationOptions = {
+  enabled: boolean;
+  relayUrl: string;
+  room: string;
+  nodes: Node<NodeData>[];
+  edges: Edge<TransitionData>[];
+  setNodes: Dispatch<SetStateAction<Node<NodeData>[]>>;
+  setEdges: Dispatch<SetStateAction<Edge<TransitionData>[]>>;
+};
+
+const USER_NAME_STORAGE_KEY = 'workflow-editor-user-name';
+const USER_COLORS = ['#ef5350', '#ab47bc', '#5c6bc0', '#29b6f6', '#26a69a', '#9ccc65', '#ffca28', '#ff7043'];
+const RECONNECT_DELAY_MS = 2000;
+const CURSOR_THROTTLE_MS = 50;
+
+const EMPTY_PRESENCE: CollabPresence = { cursor: null, selectedNodeIds: [], editingNodeId: null };
+
+// Positions are separate entries so a move and a concurrent edit of the same node both survive
+function toEntries(nodes: Node<NodeData>[], edges: Edge<TransitionData>[]): Map<string, unknown> {
+  const entries = new Map<string, unknown>();
+  nodes.forEach((n) => {
+    entries.set(`node:${n.id}`, { type: n.type, data: n.data });
+    entries.set(`pos:${n.id}`, { x: n.position.x, y: n.position.y });
+  });
+  edges.forEach((e) => {
+    entries.set(`edge:${e.id}`, {
+      source: e.source,
+      target: e.target,
+      sourceHandle: e.sourceHandle ?? null,
+      targetHandle: e.targetHandle ?? null,
+      label: e.label ?? null,
+      data: e.data ?? null,
+    });
+  });
+  return entries;
+}
+
+function idsWithPrefix(keys: string[], prefixes: string[]): Set<string> {
+  const ids = new Set<string>();
+  keys.forEach((key) => {
+    const separator = key.indexOf(':');
+    if (prefixes.includes(key.slice(0, separator))) ids.add(key.slice(separator + 1));
+  });
+  return ids;
+}
+
+// Rebuilds the given nodes from the document, keeping local-only fields (selection, measured size)
+function reconcileNodes(nds: Node<NodeData>[], doc: LwwDoc, ids: Set<string>): Node<NodeData>[] {
+  const build = (id: string, existing?: Node<NodeData>): Node<NodeData> | null => {
+    const value = getValue(doc, `node:${id}`) as { type: string; data: NodeData } | null;
+    if (!value) return null;
+    const position = (getValue(doc, `pos:${id}`) as XYPosition | null) ?? existing?.position ?? { x: 0, y: 0 };
+    return { ...existing, id, type: value.type, data: value.data, position };
+  };
+
+  const result = nds.flatMap((n) => {
+    if (!ids.has(n.id)) return [n];
+    const next = build(n.id, n);
+    return next ? [next] : [];
+  });
+  ids.forEach((id) => {
+    if (nds.some((n) => n.id === id)) return;
+    const next = build(id);
+    if (next) result.push(next);
+  });
+  return result;
+}
+
+function reconcileEdges(eds: Edge<TransitionData>[], doc: LwwDoc, ids: Set<string>): Edge<TransitionData>[] {
+  type EdgeValue = {
+    source: string;
+    target: string;
+    sourceHandle: string | null;
+    targetHandle: string | null;
+    label: string | null;
+    data: TransitionData | null;
+  };
+  const build = (id: string, existing?: Edge<TransitionData>): Edge<TransitionData> | null => {
+    const value = getValue(doc, `edge:${id}`) as EdgeValue | null;
+    if (!value) return null;
+    return {
+      animated: true,
+      ...existing,
+      id,
+      source: value.source,
+      target: value.target,
+      sourceHandle: value.sourceHandle,
+      targetHandle: value.targetHandle,
+      label: value.label ?? undefined,
+      data: value.data ?? undefined,
+    };
+  };
+
+  const result = eds.flatMap((e) => {
+    if (!ids.has(e.id)) return [e];
+    const next = build(e.id, e);
+    return next ? [next] : [];
+  });
+  ids.forEach((id) => {
+    if (eds.some((e) => e.id === id)) return;
+    const next = build(id);
+    if (next) result.push(next);
+  });
+  return result;
+}
+
+function createUser(): CollabUser {
+  const id = crypto?.randomUUID?.() ?? String(Date.now());
+  const name = localStorage.getItem(USER_NAME_STORAGE_KEY) || `Kullanıcı ${id.slice(0, 4)}`;
+  const color = USER_COLORS[parseInt(id.slice(0, 8), 16) % USER_COLORS.length] ?? USER_COLORS[0];
+  return { id, name, color };
+}
+
+/**
+ * Shares nodes/edges through an LWW document relayed over a WebSocket. Local
+ * edits are picked up from the nodes/edges state (whatever set them: modals,
+ * drags, undo) and remote ops are written back through setNodes/setEdges, so
+ * the rest of the editor keeps working on plain React state.
+ *
+ * On joining a room that already has content the room wins; the first user
+ * in a room seeds it with their canvas. Undo history is local and also
+ * reverts remote changes made since the snapshot.
+ */
+export function useCollaboration({ enabled, relayUrl, room, nodes, edges, setNodes, setEdges }: UseCollaborationOptions) {
+  const [self, setSelf] = useState<CollabUser>(createUser);
+  const [status, setStatus] = useState<CollabStatus>('off');
+  const [peers, setPeers] = useState<RemotePeer[]>([]);
+  const [hasJoined, setHasJoined] = useState(false);
+
+  const socketRef = useRef<WebSocket | null>(null);
+  const docRef = useRef<LwwDoc>(createLwwDoc(self.id));
+  // Serialized entries of the state the last sync pass saw
+  const prevEntriesRef = useRef<Map<string, string>>(new Map());
+  const presenceRef = useRef<CollabPresence>(EMPTY_PRESENCE);
+  const lastCursorSentRef = useRef(0);
+  const selfRef = useRef(self);
+
+  const send = useCallback((message: ClientMessage) => {
+    if (socketRef.current?.readyState === WebSocket.OPEN) {
+      socketRef.current.send(JSON.stringify(message));
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    let closed = false;
+    let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+
+    const connect = () => {
+      setStatus('connecting');
+      const socket = new WebSocket(`${relayUrl}?room=${encodeURIComponent(room)}`);
+      socketRef.current = socket;
+
+      socket.onopen = () => {
+        socket.send(JSON.stringify({ type: 'hello', user: selfRef.current, presence: presenceRef.current }));
+      };
+
+      socket.onmessage = (event) => {
+        const message: ServerMessage = JSON.parse(event.data);
+        const doc = docRef.current;
+
+        if (message.type === 'snapshot') {
+          const roomHasContent = message.ops.some((op) => op.value !== null);
+          const isRejoin = doc.entries.size > 0;
+          const changed = applyOps(doc, message.ops);
+
+          if (isRejoin) {
+            // Offline edits are in the doc with fresh clocks; resend everything and let LWW sort it out
+            socket.send(JSON.stringify({ type: 'ops', ops: [...doc.entries.values()] }));
+          } else if (!roomHasContent) {
+            // Empty room: the next sync pass publishes the whole canvas
+            prevEntriesRef.current = new Map();
+          }
+          if (isRejoin || roomHasContent) {
+            const keys = isRejoin ? changed : getLiveKeys(doc);
+            setNodes((nds) => reconcileNodes(nds, doc, new Set([
+              ...idsWithPrefix(keys, ['node', 'pos']),
+              ...(isRejoin ? [] : nds.map((n) => n.id)),
+            ])));
+            setEdges((eds) => reconcileEdges(eds, doc, new Set([
+              ...idsWithPrefix(keys, ['edge']),
+              ...(isRejoin ? [] : eds.map((e) => e.id)),
+            ])));
+          }
+          setPeers(message.peers.filter((peer) => peer.id !== selfRef.current.id));
+          setHasJoined(true);
+          setStatus('connected');
+          return;
+        }
+
+        if (message.type === 'ops') {
+          const changed = applyOps(doc, message.ops);
+          if (!changed.length) return;
+          const nodeIds = idsWithPrefix(changed, ['node', 'pos']);
+          const edgeIds = idsWithPrefix(changed, ['edge']);
+          if (nodeIds.size) setNodes((nds) => reconcileNodes(nds, doc, nodeIds));
+          if (edgeIds.size) setEdges((eds) => reconcileEdges(eds, doc, edgeIds));
+          return;
+        }
+
+        if (message.type === 'presence') {
+          setPeers((current) => [
+            ...current.filter((peer) => peer.id !== message.user.id),
+            { ...message.user, ...message.presence },
+          ]);
+          return;
+        }
+
+        if (message.type === 'leave') {
+          setPeers((current) => current.filter((peer) => peer.id !== message.userId));
+        }
+      };
+
+      socket.onclose = () => {
+        socketRef.current = null;
+        setPeers([]);
+        if (closed) return;
+        setStatus('disconnected');
+        reconnectTimer = setTimeout(connect, RECONNECT_DELAY_MS);
+      };
+    };
+
+    connect();
+
+    return () => {
+      closed = true;
+      if (reconnectTimer) clearTimeout(reconnectTimer);
+      socketRef.current?.close();
+      socketRef.current = null;
+      docRef.current = createLwwDoc(selfRef.current.id);
+      prevEntriesRef.current = new Map();
+      setHasJoined(false);
+      setPeers([]);
+      setStatus('off');
+    };
+  }, [enabled, relayUrl, room, setNodes, setEdges]);
+
+  // Turns state changes into ops; entries that already match the document came from remote ops
+  useEffect(() => {
+    if (!enabled || !hasJoined) return;
+
+    const doc = docRef.current;
+    const current = toEntries(nodes, edges);
+    const prev = prevEntriesRef.current;
+    const next = new Map<string, string>();
+    const ops: LwwOp[] = [];
+
+    current.forEach((value, key) => next.set(key, JSON.stringify(value)));
+    new Set([...next.keys(), ...prev.keys()]).forEach((key) => {
+      const serialized = next.get(key) ?? 'null';
+      if (serialized === (prev.get(key) ?? 'null')) return;
+      if (serialized === JSON.stringify(getValue(doc, key))) return;
+      ops.push(setValue(doc, key, current.get(key) ?? null));
+    });
+
+    prevEntriesRef.current = next;
+    if (ops.length) send({ type: 'ops', ops });
+  }, [enabled, hasJoined, nodes, edges, send]);
+
+  const updatePresence = useCallback((presence: Partial<CollabPresence>) => {
+    presenceRef.current = { ...presenceRef.current, ...presence };
+
+    // Cursor moves are throttled; selection and editing changes go out right away
+    const onlyCursor = Object.keys(presence).length === 1 && 'cursor' in presence;
+    const now = Date.now();
+    if (onlyCursor && now - lastCursorSentRef.current < CURSOR_THROTTLE_MS) return;
+    if (onlyCursor) lastCursorSentRef.current = now;
+
+    send({ type: 'presence', presence: presenceRef.current });
+  }, [send]);
+
+  const renameSelf = useCallback((name: string) => {
+    localStorage.setItem(USER_NAME_STORAGE_KEY, name);
+    setSelf((user) => ({ ...user, name }));
+  }, []);
+
+  // A repeated hello updates the name peers see
+  useEffect(() => {
+    selfRef.current = self;
+    if (socketRef.current?.readyState !== WebSocket.OPEN) return;
+    socketRef.current.send(JSON.stringify({ type: 'hello', user: self, presence: presenceRef.current }));
+  }, [self]);
+
+  return { self, status, peers, updatePresence, renameSelf };
+}
@@ -0,0 +1,48 @@
+import { useCallback, useEffect, useRef } from 'react';
+import type { Edge, Node } from 'reactflow';
+import { deleteDraft, saveDraft } from './drafts';
+import { convertReactFlowEdgeToDB, convertReactFlowNodeToDB } from './workflowFile';
+import type { NodeData, TransitionData } from './workflow';
+
+const DRAFT_SAVE_DELAY_MS = 1000;
+
+type UseDraftAutosaveOptions = {
+  key: string;
+  nodes: Node<NodeData>[];
+  edges: Edge<TransitionData>[];
+  enabled: boolean;  // Off until the startup restore prompt is answered
+};
+
+/**
+ * Writes the canvas to IndexedDB a moment after the last change.
+ * `discardDraft` cancels a pending write and removes the stored draft.
+ */
+export function useDraftAutosave({ key, nodes, edges, enabled }: UseDraftAutosaveOptions) {
+  const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    timerRef.current = setTimeout(() => {
+      timerRef.current = null;
+      saveDraft(key, {
+        savedAt: new Date().toISOString(),
+        nodes: nodes.map(convertReactFlowNodeToDB),
+        edges: edges.map(convertReactFlowEdgeToDB),
+      }).catch((err) => console.error('Draft save error:', err));
+    }, DRAFT_SAVE_DELAY_MS);
+
+    return () => {
+      if (timerRef.current) clearTimeout(timerRef.current);
+      timerRef.current = null;
+    };
+  }, [key, nodes, edges, enabled]);
+
+  const discardDraft = useCallback(() => {
+    if (timerRef.current) clearTimeout(timerRef.current);
+    timerRef.current = null;
+    deleteDraft(key).catch((err) => console.error('Draft delete error:', err));
+  }, [key]);
+
+  return { discardDraft };
+}
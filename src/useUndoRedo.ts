@@ -0,0 +1,142 @@
+import { useCallback, useEffect, useRef, useState, type Dispatch, type SetStateAction } from 'react';
+import type { Edge, Node } from 'reactflow';
+
+const MAX_HISTORY_SIZE = 100;
+
+type HistorySnapshot<T> = {
+  nodes: Node<T>[];
+  edges: Edge[];
+};
+
+type UseUndoRedoOptions<T> = {
+  nodes: Node<T>[];
+  edges: Edge[];
+  setNodes: Dispatch<SetStateAction<Node<T>[]>>;
+  setEdges: Dispatch<SetStateAction<Edge[]>>;
+  enableShortcuts?: boolean;
+};
+
+export function isTypingTarget(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false;
+  return target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName);
+}
+
+/**
+ * Snapshot based undo/redo over the nodes/edges state.
+ * Call `takeSnapshot` right before an edit; drags use `beginDrag`/`endDrag`
+ * so one drag (single node or whole selection) becomes a single step.
+ * `cancelDrag` puts the dragged nodes back without recording a step.
+ */
+export function useUndoRedo<T>({ nodes, edges, setNodes, setEdges, enableShortcuts = true }: UseUndoRedoOptions<T>) {
+  const [past, setPast] = useState<HistorySnapshot<T>[]>([]);
+  const [future, setFuture] = useState<HistorySnapshot<T>[]>([]);
+  const dragSnapshotRef = useRef<HistorySnapshot<T> | null>(null);
+  // Deleting a node fires both node and edge removals; record them as one step
+  const snapshotLockedRef = useRef(false);
+
+  const pushSnapshot = useCallback((snapshot: HistorySnapshot<T>) => {
+    setPast((p) => [...p.slice(p.length - MAX_HISTORY_SIZE + 1), snapshot]);
+    setFuture([]);
+  }, []);
+
+  const takeSnapshot = useCallback(() => {
+    if (snapshotLockedRef.current) return;
+    snapshotLockedRef.current = true;
+    setTimeout(() => {
+      snapshotLockedRef.current = false;
+    }, 0);
+
+    pushSnapshot({ nodes, edges });
+  }, [nodes, edges, pushSnapshot]);
+
+  const beginDrag = useCallback(() => {
+    dragSnapshotRef.current = { nodes, edges };
+  }, [nodes, edges]);
+
+  const endDrag = useCallback(() => {
+    const snapshot = dragSnapshotRef.current;
+    dragSnapshotRef.current = null;
+    if (!snapshot) return;
+
+    // A click without movement also fires drag start/stop
+    const before = new Map(snapshot.nodes.map((n) => [n.id, n.position]));
+    const moved = nodes.some((n) => {
+      const prev = before.get(n.id);
+      return prev && (prev.x !== n.position.x || prev.y !== n.position.y);
+    });
+    if (moved) pushSnapshot(snapshot);
+  }, [nodes, pushSnapshot]);
+
+  const cancelDrag = useCallback(() => {
+    const snapshot = dragSnapshotRef.current;
+    dragSnapshotRef.current = null;
+    if (!snapshot) return;
+
+    const before = new Map(snapshot.nodes.map((n) => [n.id, n.position]));
+    setNodes((nds) => nds.map((n) => {
+      const position = before.get(n.id);
+      return position && position !== n.position ? { ...n, position } : n;
+    }));
+  }, [setNodes]);
+
+  const undo = useCallback(() => {
+    const previous = past[past.length - 1];
+    if (!previous) return;
+
+    setPast((p) => p.slice(0, -1));
+    setFuture((f) => [...f, { nodes, edges }]);
+    setNodes(previous.nodes);
+    setEdges(previous.edges);
+  }, [past, nodes, edges, setNodes, setEdges]);
+
+  const redo = useCallback(() => {
+    const next = future[future.length - 1];
+    if (!next) return;
+
+    setFuture((f) => f.slice(0, -1));
+    setPast((p) => [...p, { nodes, edges }]);
+    setNodes(next.nodes);
+    setEdges(next.edges);
+  }, [future, nodes, edges, setNodes, setEdges]);
+
+  const clearHistory = useCallback(() => {
+    setPast([]);
+    setFuture([]);
+    dragSnapshotRef.current = null;
+  }, []);
+
+  useEffect(() => {
+    if (!enableShortcuts) return;
+
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || isTypingTarget(event.target)) return;
+      const key = event.key.toLowerCase();
+
+      if (key === 'z' && event.shiftKey) {
+        event.preventDefault();
+        redo();
+      } else if (key === 'z') {
+        event.preventDefault();
+        undo();
+      } else if (key === 'y') {
+        event.preventDefault();
+        redo();
+      }
+    };
+
+    document.addEventListener('keydown', onKeyDown);
+    return () => document.removeEventListener('keydown', onKeyDown);
+  }, [enableShortcuts, undo, redo]);
+
+  return {
+    undo,
+    redo,
+    takeSnapshot,
+    beginDrag,
+    endDrag,
+    cancelDrag,
+    clearHistory,
+    canUndo: past.length > 0,
+    canRedo: future.length > 0,
+  };
+}
@@ -0,0 +1,292 @@
+import type { Edge, Node } from 'reactflow';
+import {
+  isTemplateNode,
+  type BoxData,
+  type EndData,
+  type GatewayData,
+  type GroupData,
+  type JumpData,
+  type NodeData,
+  type StartData,
+} from './workflow';
+
+export type ProblemSeverity = 'error' | 'warning';
+
+export type WorkflowProblem = {
+  id: string;          // Stable key: rule + element id
+  severity: ProblemSeverity;
+  message: string;
+  nodeId?: string;     // Node to focus when the problem is clicked
+  edgeId?: string;
+};
+
+function nodeName(node: Node<NodeData>): string {
+  if (node.data.nodeType === 'box') {
+    const boxData = node.data as BoxData;
+    return boxData.def?.ad || boxData.label || node.id;
+  }
+  if (node.data.nodeType === 'start') return (node.data as StartData).label || 'Başlangıç';
+  if (node.data.nodeType === 'gateway') {
+    const gatewayData = node.data as GatewayData;
+    return `${gatewayData.kind.toUpperCase()} ${gatewayData.mode === 'split' ? 'ayrılma' : 'birleşme'} geçidi`;
+  }
+  if (node.data.nodeType === 'end') {
+    const outcomeName = (node.data as EndData).outcomeName;
+    return outcomeName ? `Bitiş (${outcomeName})` : 'Bitiş';
+  }
+  if (node.data.nodeType === 'group') return `Grup: ${(node.data as GroupData).label}`;
+  return node.data.nodeType === 'jump' ? 'Jump' : 'Land';
+}
+
+/**
+ * Structural checks over the nodes/edges state. Pure: the result only depends on the arguments.
+ */
+export function validateWorkflow(nodes: Node<NodeData>[], edges: Edge[]): WorkflowProblem[] {
+  const problems: WorkflowProblem[] = [];
+  const nodeById = new Map(nodes.map((n) => [n.id, n]));
+  const visibleNodes = nodes.filter((n) => !isTemplateNode(n));
+
+  const incoming = new Map<string, Edge[]>();
+  const outgoing = new Map<string, Edge[]>();
+  edges.forEach((e) => {
+    incoming.set(e.target, [...(incoming.get(e.target) ?? []), e]);
+    outgoing.set(e.source, [...(outgoing.get(e.source) ?? []), e]);
+  });
+
+  edges.forEach((e) => {
+    const source = nodeById.get(e.source);
+    const target = nodeById.get(e.target);
+
+    if (!source || !target) {
+      problems.push({
+        id: `edge-dangling-${e.id}`,
+        severity: 'error',
+        message: 'Bağlantı silinmiş bir node\'a işaret ediyor',
+        nodeId: source?.id ?? target?.id,
+        edgeId: e.id,
+      });
+      return;
+    }
+
+    if (isTemplateNode(source) || isTemplateNode(target)) {
+      problems.push({
+        id: `edge-template-${e.id}`,
+        severity: 'error',
+        message: `Bağlantı şablon node'a bağlı: ${nodeName(isTemplateNode(source) ? source : target)}`,
+        nodeId: isTemplateNode(source) ? target.id : source.id,
+        edgeId: e.id,
+      });
+    }
+
+    // Jump and end nodes only have a target handle, land and start nodes only a source handle
+    if (source.type === 'end') {
+      problems.push({
+        id: `edge-from-end-${e.id}`,
+        severity: 'error',
+        message: 'Bitiş node\'undan çıkan bağlantı (Bitiş\'in çıkış ucu yok)',
+        nodeId: source.id,
+        edgeId: e.id,
+      });
+    }
+    if (target.type === 'start') {
+      problems.push({
+        id: `edge-into-start-${e.id}`,
+        severity: 'error',
+        message: 'Başlangıç node\'una giren bağlantı (Başlangıç\'ın giriş ucu yok)',
+        nodeId: target.id,
+        edgeId: e.id,
+      });
+    }
+    if (source.type === 'jump') {
+      problems.push({
+        id: `edge-from-jump-${e.id}`,
+        severity: 'error',
+        message: 'Jump node\'undan çıkan bağlantı (Jump\'ın çıkış ucu yok)',
+        nodeId: source.id,
+        edgeId: e.id,
+      });
+    }
+    if (target.type === 'land') {
+      problems.push({
+        id: `edge-into-land-${e.id}`,
+        severity: 'error',
+        message: 'Land node\'una giren bağlantı (Land\'in giriş ucu yok)',
+        nodeId: target.id,
+        edgeId: e.id,
+      });
+    }
+  });
+
+  const linkedLandIds = new Set<string>();
+  visibleNodes.forEach((n) => {
+    if (n.data.nodeType !== 'jump') return;
+    const jumpData = n.data as JumpData;
+
+    if (!jumpData.landId) {
+      problems.push({
+        id: `jump-no-land-${n.id}`,
+        severity: 'error',
+        message: 'Jump node\'u bir Land\'e bağlı değil',
+        nodeId: n.id,
+      });
+      return;
+    }
+
+    const land = nodeById.get(jumpData.landId);
+    if (!land || land.type !== 'land') {
+      problems.push({
+        id: `jump-missing-land-${n.id}`,
+        severity: 'error',
+        message: 'Jump node\'unun bağlı olduğu Land silinmiş',
+        nodeId: n.id,
+      });
+      return;
+    }
+    linkedLandIds.add(land.id);
+  });
+
+  visibleNodes.forEach((n) => {
+    if (n.data.nodeType !== 'land') return;
+    const outCount = outgoing.get(n.id)?.length ?? 0;
+
+    if (outCount === 0) {
+      problems.push({
+        id: `land-no-out-${n.id}`,
+        severity: 'error',
+        message: 'Land node\'unun çıkış bağlantısı yok',
+        nodeId: n.id,
+      });
+    } else if (outCount > 1) {
+      problems.push({
+        id: `land-multi-out-${n.id}`,
+        severity: 'error',
+        message: `Land node'unun ${outCount} çıkış bağlantısı var (tek olmalı)`,
+        nodeId: n.id,
+      });
+    }
+
+    if (!linkedLandIds.has(n.id)) {
+      problems.push({
+        id: `land-no-jump-${n.id}`,
+        severity: 'warning',
+        message: 'Hiçbir Jump bu Land\'e bağlı değil',
+        nodeId: n.id,
+      });
+    }
+  });
+
+  visibleNodes.forEach((n) => {
+    if (n.data.nodeType === 'start' && !outgoing.get(n.id)?.length) {
+      problems.push({
+        id: `start-no-out-${n.id}`,
+        severity: 'error',
+        message: `${nodeName(n)} node'unun çıkış bağlantısı yok`,
+        nodeId: n.id,
+      });
+    }
+    if (n.data.nodeType === 'end' && !incoming.get(n.id)?.length) {
+      problems.push({
+        id: `end-no-in-${n.id}`,
+        severity: 'warning',
+        message: `${nodeName(n)} node'una ulaşan bağlantı yok`,
+        nodeId: n.id,
+      });
+    }
+  });
+
+  // Splits fan out into several branches, joins merge several branches into one
+  visibleNodes.forEach((n) => {
+    if (n.data.nodeType !== 'gateway') return;
+    const gatewayData = n.data as GatewayData;
+    const inCount = incoming.get(n.id)?.length ?? 0;
+    const outCount = outgoing.get(n.id)?.length ?? 0;
+
+    if (inCount === 0 || outCount === 0) {
+      problems.push({
+        id: `gateway-dangling-${n.id}`,
+        severity: 'error',
+        message: `${nodeName(n)}: giriş ve çıkış bağlantısı olmalı`,
+        nodeId: n.id,
+      });
+    } else if (gatewayData.mode === 'split' && outCount < 2) {
+      problems.push({
+        id: `gateway-split-${n.id}`,
+        severity: 'warning',
+        message: `${nodeName(n)} tek dala ayrılıyor`,
+        nodeId: n.id,
+      });
+    } else if (gatewayData.mode === 'join' && inCount < 2) {
+      problems.push({
+        id: `gateway-join-${n.id}`,
+        severity: 'warning',
+        message: `${nodeName(n)} tek dalı birleştiriyor`,
+        nodeId: n.id,
+      });
+    }
+  });
+
+  const boxes = visibleNodes.filter((n) => n.data.nodeType === 'box');
+
+  boxes.forEach((n) => {
+    if (!incoming.get(n.id)?.length && !outgoing.get(n.id)?.length) {
+      problems.push({
+        id: `box-orphan-${n.id}`,
+        severity: 'warning',
+        message: `Bağlantısız node: ${nodeName(n)}`,
+        nodeId: n.id,
+      });
+    }
+  });
+
+  const boxesByAd = new Map<string, Node<NodeData>[]>();
+  boxes.forEach((n) => {
+    const ad = (n.data as BoxData).def?.ad;
+    if (ad) boxesByAd.set(ad, [...(boxesByAd.get(ad) ?? []), n]);
+  });
+  boxesByAd.forEach((duplicates, ad) => {
+    if (duplicates.length < 2) return;
+    duplicates.forEach((n) => {
+      problems.push({
+        id: `box-duplicate-${n.id}`,
+        severity: 'warning',
+        message: `Aynı ad birden fazla node'da kullanılıyor: ${ad}`,
+        nodeId: n.id,
+      });
+    });
+  });
+
+  // Reachability: start from the start nodes (or, without any, from boxes without incoming edges)
+  // and follow edges and jump→land links
+  const startNodes = visibleNodes.filter((n) => n.data.nodeType === 'start');
+  const reachable = new Set<string>();
+  const queue = (startNodes.length ? startNodes : boxes.filter((n) => !incoming.get(n.id)?.length)).map((n) => n.id);
+  queue.forEach((id) => reachable.add(id));
+  while (queue.length) {
+    const id = queue.shift()!;
+    const next = (outgoing.get(id) ?? []).map((e) => e.target);
+    const node = nodeById.get(id);
+    if (node?.data.nodeType === 'jump' && (node.data as JumpData).landId) {
+      next.push((node.data as JumpData).landId!);
+    }
+    next.forEach((target) => {
+      if (!reachable.has(target) && nodeById.has(target)) {
+        reachable.add(target);
+        queue.push(target);
+      }
+    });
+  }
+
+  boxes.forEach((n) => {
+    const isOrphan = !incoming.get(n.id)?.length && !outgoing.get(n.id)?.length;
+    if (!isOrphan && !reachable.has(n.id)) {
+      problems.push({
+        id: `box-unreachable-${n.id}`,
+        severity: 'warning',
+        message: `Erişilemeyen node: ${nodeName(n)}`,
+        nodeId: n.id,
+      });
+    }
+  });
+
+  return problems;
+}
@@ -0,0 +1,10 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_API_BASE_URL?: string;  // Workflow API, e.g. https://example.org/api
+  readonly VITE_COLLAB_RELAY_URL?: string;  // Co-editing relay, e.g. wss://example.org/collab
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
@@ -0,0 +1,131 @@
+import type { Node } from 'reactflow';
+
+export type WorkflowDefFromDB = {
+  id: string;
+  ad: string;
+  aciklama: string;
+  x: number;
+  y: number;
+  type: 'box' | 'jump' | 'land' | 'start' | 'end' | 'gateway' | 'group';
+  jumpLandLabel?: string;
+  landId?: string;       // Jump nodes: linked land node
+  templateId?: string;   // Box nodes: template (işlem türü) the node was created from
+  outcomeName?: string;  // End nodes: how the case finishes
+  gatewayKind?: GatewayKind;
+  gatewayMode?: GatewayMode;
+  colorIndex?: number;
+  memberIds?: string[];  // Group nodes: wrapped node ids
+  collapsed?: boolean;   // Group nodes
+  pinned?: boolean;
+};
+
+export type EdgeFromDB = {
+  id: string;
+  source: string;
+  target: string;
+  label?: string;
+  outcome?: string;  // Outcome code, e.g. ONAY / RED / EKSIK_BELGE
+  guard?: string;    // Optional condition expression
+};
+
+export type WorkflowDataFromDB = {
+  name?: string;     // Display name; backends without multiple workflows leave it out
+  nodes: WorkflowDefFromDB[];
+  edges: EdgeFromDB[];
+  version?: string;  // Opaque server version, sent back as If-Match on save
+  revision?: number; // Latest save revision, when the backend reports it
+};
+
+// One entry of the workflow list
+export type WorkflowSummary = {
+  id: string;
+  name: string;
+  updatedAt: string;   // ISO timestamp of the last save, rename or creation
+  updatedBy?: string;  // Author of the last save
+  revision?: number;   // Latest save revision
+  nodeCount: number;   // Canvas nodes, templates not counted
+};
+
+// One server save; `author` is resolved from the token on the server side
+export type RevisionSummary = {
+  number: number;
+  author: string;
+  createdAt: string;  // ISO timestamp
+  message?: string;
+};
+
+export type RevisionDetail = RevisionSummary & WorkflowDataFromDB;
+
+export type WorkflowDef = {
+  ad?: string;
+  aciklama?: string;
+};
+
+export type BoxData = {
+  nodeType: 'box';
+  label: string;
+  def: WorkflowDef;
+  dbId?: string;       // Template (x=-1, y=-1) this box was created from; own id for templates
+  pinned?: boolean;    // Kept in place by auto layout
+};
+
+export type JumpData = {
+  nodeType: 'jump';
+  label?: string;      // Keep for backwards compatibility
+  landId?: string;     // Reference to connected land node
+  colorIndex: number;
+  pinned?: boolean;
+};
+
+export type LandData = {
+  nodeType: 'land';
+  label?: string;      // Keep for backwards compatibility
+  nextNodeId?: string; // Node connected to this land (from edges)
+  colorIndex: number;
+  pinned?: boolean;
+};
+
+export type StartData = {
+  nodeType: 'start';
+  label?: string;
+  pinned?: boolean;
+};
+
+export type EndData = {
+  nodeType: 'end';
+  outcomeName?: string; // e.g. ONAYLANDI, REDDEDILDI
+  pinned?: boolean;
+};
+
+export type GatewayKind = 'xor' | 'and';  // Exclusive (one branch) or parallel (all branches)
+export type GatewayMode = 'split' | 'join';
+
+export type GatewayData = {
+  nodeType: 'gateway';
+  kind: GatewayKind;
+  mode: GatewayMode;
+  pinned?: boolean;
+};
+
+// Named wrapper around a set of nodes; members keep their own (absolute) positions.
+// Collapsed, the group is drawn as one box at its own position and the members are hidden.
+export type GroupData = {
+  nodeType: 'group';
+  label: string;
+  memberIds: string[];
+  collapsed: boolean;
+  pinned?: boolean;
+};
+
+export type NodeData = BoxData | JumpData | LandData | StartData | EndData | GatewayData | GroupData;
+
+// Edge label lives in the React Flow `label` field; the rest in `data`
+export type TransitionData = {
+  outcome?: string;
+  guard?: string;
+};
+
+// Templates are box nodes parked at x=-1, y=-1; they never appear on the canvas
+export function isTemplateNode(node: Node<NodeData>): boolean {
+  return node.position.x === -1 && node.position.y === -1 && node.type === 'box';
+}
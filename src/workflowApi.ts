@@ -0,0 +1,235 @@
+import type {
+  EdgeFromDB,
+  RevisionDetail,
+  RevisionSummary,
+  WorkflowDataFromDB,
+  WorkflowDefFromDB,
+  WorkflowSummary,
+} from './workflow';
+
+const DEFAULT_API_BASE_URL = 'http://localhost:3001/api';
+const DEFAULT_COLLAB_RELAY_URL = 'ws://localhost:3002';
+
+// Waits before each retry of an idempotent request; one retry per entry
+const RETRY_DELAYS_MS = [500, 1500, 4000];
+// Answers worth another try: timeouts, rate limits and gateways in front of a restarting backend
+const RETRYABLE_STATUSES = new Set([408, 429, 502, 503, 504]);
+
+declare global {
+  interface Window {
+    // Set by public/config.js, so a deployment can point at its backend without a rebuild
+    __WORKFLOW_EDITOR_CONFIG__?: { apiBaseUrl?: string; collabRelayUrl?: string };
+  }
+}
+
+/** Runtime config first, then the VITE_API_BASE_URL build variable, then the local mock server. */
+export function getApiBaseUrl(): string {
+  const baseUrl =
+    window.__WORKFLOW_EDITOR_CONFIG__?.apiBaseUrl || import.meta.env.VITE_API_BASE_URL || DEFAULT_API_BASE_URL;
+  return baseUrl.replace(/\/+$/, '');
+}
+
+/** Co-editing relay (mock-server/relay.js), resolved like getApiBaseUrl. */
+export function getCollabRelayUrl(): string {
+  return (
+    window.__WORKFLOW_EDITOR_CONFIG__?.collabRelayUrl || import.meta.env.VITE_COLLAB_RELAY_URL || DEFAULT_COLLAB_RELAY_URL
+  );
+}
+
+// unauthorized: 401/403, not-found: 404, conflict: 409/412 (stale If-Match),
+// network: no answer at all, server: any other non-2xx answer
+export type ApiErrorKind = 'unauthorized' | 'not-found' | 'conflict' | 'network' | 'server';
+
+export class WorkflowApiError extends Error {
+  readonly kind: ApiErrorKind;
+  readonly status: number | null;   // Null for network errors
+  readonly body: unknown;           // Parsed JSON body of the error answer, if any
+  readonly version: string | null;  // Server version sent with the answer
+
+  constructor(
+    kind: ApiErrorKind,
+    message: string,
+    details: { status?: number; body?: unknown; version?: string | null; cause?: unknown } = {}
+  ) {
+    super(message, { cause: details.cause });
+    this.name = 'WorkflowApiError';
+    this.kind = kind;
+    this.status = details.status ?? null;
+    this.body = details.body ?? null;
+    this.version = details.version ?? null;
+  }
+}
+
+/** User-facing text for a failed API call. */
+export function getApiErrorMessage(err: unknown): string {
+  if (!(err instanceof WorkflowApiError)) return err instanceof Error ? err.message : 'Bilinmeyen hata';
+  switch (err.kind) {
+    case 'unauthorized':
+      return 'Yetkisiz erişim. Token geçersiz ya da süresi dolmuş.';
+    case 'not-found':
+      return 'İstenen kayıt sunucuda bulunamadı.';
+    case 'conflict':
+      return 'Kayıt bu arada sunucuda değişmiş.';
+    case 'network':
+      return 'Sunucuya ulaşılamadı. Bağlantınızı kontrol edip tekrar deneyin.';
+    case 'server':
+      return `Sunucu hatası (HTTP ${err.status}).`;
+  }
+}
+
+export type WorkflowSavePayload = {
+  nodes: WorkflowDefFromDB[];
+  edges: EdgeFromDB[];
+  message?: string;
+};
+
+export type WorkflowSaveResult = {
+  revision?: number;
+  version?: string;
+};
+
+// Endpoints of one workflow
+export type WorkflowClient = {
+  workflowId: string;
+  fetchWorkflow: () => Promise<WorkflowDataFromDB>;
+  // `ifMatch` null: overwrite whatever the server has. Throws a `conflict` error for a stale version.
+  saveWorkflow: (payload: WorkflowSavePayload, ifMatch: string | null) => Promise<WorkflowSaveResult>;
+  fetchRevisions: () => Promise<RevisionSummary[]>;
+  fetchRevision: (revision: number) => Promise<RevisionDetail>;
+  // Restoring creates a new revision on the server with the old content and returns it
+  restoreRevision: (revision: number) => Promise<WorkflowDataFromDB & { revision: number }>;
+};
+
+export type WorkflowApi = {
+  listWorkflows: () => Promise<WorkflowSummary[]>;
+  // A new workflow starts with the server's işlem türü templates and no flow
+  createWorkflow: (name: string) => Promise<WorkflowSummary>;
+  renameWorkflow: (workflowId: string, name: string) => Promise<WorkflowSummary>;
+  duplicateWorkflow: (workflowId: string, name: string) => Promise<WorkflowSummary>;
+  deleteWorkflow: (workflowId: string) => Promise<void>;
+  workflow: (workflowId: string) => WorkflowClient;
+};
+
+function wait(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+// Version from the body, else from the ETag header
+function readVersion(body: unknown, response: Response): string | null {
+  const bodyVersion = (body as { version?: unknown } | null)?.version;
+  if (typeof bodyVersion === 'string') return bodyVersion;
+  return response.headers.get('ETag')?.replace(/^W\//, '').replace(/"/g, '') ?? null;
+}
+
+async function readJson(response: Response): Promise<unknown> {
+  const text = await response.text();
+  if (!text) return null;
+  try {
+    return JSON.parse(text);
+  } catch {
+    return null;
+  }
+}
+
+function errorKind(status: number): ApiErrorKind {
+  if (status === 401 || status === 403) return 'unauthorized';
+  if (status === 404) return 'not-found';
+  if (status === 409 || status === 412) return 'conflict';
+  return 'server';
+}
+
+/**
+ * Client for the workflow endpoints. The token goes in an `Authorization:
+ * Bearer` header. The idempotent methods (GET, DELETE) are retried with
+ * backoff on network errors and on the RETRYABLE_STATUSES; a 404 for a
+ * retried DELETE means an earlier attempt went through. POST and PATCH are
+ * sent once, as repeating them could save or create twice.
+ */
+export function createWorkflowApi(baseUrl: string, token: string): WorkflowApi {
+  const request = async <T>(
+    method: 'GET' | 'POST' | 'PATCH' | 'DELETE',
+    path: string,
+    options: { body?: unknown; headers?: Record<string, string> } = {}
+  ): Promise<{ data: T; version: string | null }> => {
+    const headers: Record<string, string> = { Authorization: `Bearer ${token}`, ...options.headers };
+    if (options.body !== undefined) headers['Content-Type'] = 'application/json';
+    const init: RequestInit = {
+      method,
+      headers,
+      body: options.body === undefined ? undefined : JSON.stringify(options.body),
+    };
+    const retryDelays = method === 'GET' || method === 'DELETE' ? RETRY_DELAYS_MS : [];
+
+    for (let attempt = 0; ; attempt++) {
+      let response: Response;
+      try {
+        response = await fetch(`${baseUrl}${path}`, init);
+      } catch (err) {
+        if (attempt < retryDelays.length) {
+          await wait(retryDelays[attempt]);
+          continue;
+        }
+        throw new WorkflowApiError('network', `${method} ${path}: sunucuya ulaşılamadı`, { cause: err });
+      }
+
+      if (RETRYABLE_STATUSES.has(response.status) && attempt < retryDelays.length) {
+        await wait(retryDelays[attempt]);
+        continue;
+      }
+
+      const body = await readJson(response);
+      const version = readVersion(body, response);
+      if (method === 'DELETE' && attempt > 0 && response.status === 404) return { data: null as T, version: null };
+      if (!response.ok) {
+        const serverMessage = (body as { error?: unknown } | null)?.error;
+        throw new WorkflowApiError(
+          errorKind(response.status),
+          `HTTP ${response.status}: ${typeof serverMessage === 'string' ? serverMessage : `${method} ${path} başarısız`}`,
+          { status: response.status, body, version }
+        );
+      }
+      return { data: body as T, version };
+    }
+  };
+
+  const workflow = (workflowId: string): WorkflowClient => {
+    const path = `/workflows/${encodeURIComponent(workflowId)}`;
+    return {
+      workflowId,
+      fetchWorkflow: async () => {
+        const { data, version } = await request<WorkflowDataFromDB>('GET', path);
+        return { ...data, version: version ?? undefined };
+      },
+      saveWorkflow: async (payload, ifMatch) => {
+        const { data, version } = await request<WorkflowSaveResult | null>('POST', path, {
+          body: payload,
+          headers: ifMatch ? { 'If-Match': `"${ifMatch}"` } : undefined,
+        });
+        return { ...data, version: version ?? undefined };
+      },
+      fetchRevisions: async () => (await request<RevisionSummary[]>('GET', `${path}/revisions`)).data,
+      fetchRevision: async (revision) => (await request<RevisionDetail>('GET', `${path}/revisions/${revision}`)).data,
+      restoreRevision: async (revision) => {
+        const { data, version } = await request<WorkflowDataFromDB & { revision: number }>(
+          'POST',
+          `${path}/revisions/${revision}/restore`
+        );
+        return { ...data, version: version ?? undefined };
+      },
+    };
+  };
+
+  return {
+    listWorkflows: async () => (await request<WorkflowSummary[]>('GET', '/workflows')).data,
+    createWorkflow: async (name) => (await request<WorkflowSummary>('POST', '/workflows', { body: { name } })).data,
+    renameWorkflow: async (workflowId, name) =>
+      (await request<WorkflowSummary>('PATCH', `/workflows/${encodeURIComponent(workflowId)}`, { body: { name } })).data,
+    duplicateWorkflow: async (workflowId, name) =>
+      (await request<WorkflowSummary>('POST', `/workflows/${encodeURIComponent(workflowId)}/duplicate`, { body: { name } }))
+        .data,
+    deleteWorkflow: async (workflowId) => {
+      await request<null>('DELETE', `/workflows/${encodeURIComponent(workflowId)}`);
+    },
+    workflow,
+  };
+}
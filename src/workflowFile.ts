@@ -0,0 +1,532 @@
+import type { Edge, Node, XYPosition } from 'reactflow';
+import type {
+  BoxData,
+  EdgeFromDB,
+  EndData,
+  GatewayData,
+  GroupData,
+  JumpData,
+  LandData,
+  NodeData,
+  StartData,
+  TransitionData,
+  WorkflowDefFromDB,
+} from './workflow';
+import {
+  readWorkflowExport,
+  WORKFLOW_FORMAT_VERSION,
+  type ExportedBoxNode,
+  type ExportedEndNode,
+  type ExportedGatewayNode,
+  type ExportedGroupNode,
+  type ExportedJumpNode,
+  type ExportedLandNode,
+  type ExportedNode,
+  type ExportedStartNode,
+  type FormatIssue,
+  type WorkflowExportFile,
+  type WorkflowFormatOptions,
+} from './workflowFormat';
+
+export function convertDBEdgeToReactFlowEdge(dbEdge: EdgeFromDB): Edge<TransitionData> {
+  return {
+    id: dbEdge.id,
+    source: dbEdge.source,
+    target: dbEdge.target,
+    label: dbEdge.label || undefined,
+    data: { outcome: dbEdge.outcome || undefined, guard: dbEdge.guard || undefined },
+    animated: true,
+  };
+}
+
+export function convertDBNodeToReactFlowNode(dbNode: WorkflowDefFromDB): Node<NodeData> {
+  if (dbNode.type === 'group') {
+    return {
+      id: dbNode.id,
+      type: 'group',
+      position: { x: dbNode.x, y: dbNode.y },
+      data: {
+        nodeType: 'group',
+        label: dbNode.ad,
+        memberIds: dbNode.memberIds ?? [],
+        collapsed: Boolean(dbNode.collapsed),
+        pinned: dbNode.pinned || undefined,
+      },
+    };
+  }
+
+  if (dbNode.type === 'jump') {
+    return {
+      id: dbNode.id,
+      type: 'jump',
+      position: { x: dbNode.x, y: dbNode.y },
+      data: {
+        nodeType: 'jump',
+        label: dbNode.jumpLandLabel || 'A',
+        landId: dbNode.landId || undefined,
+        colorIndex: dbNode.colorIndex || 0,
+        pinned: dbNode.pinned || undefined,
+      },
+    };
+  }
+
+  if (dbNode.type === 'start') {
+    return {
+      id: dbNode.id,
+      type: 'start',
+      position: { x: dbNode.x, y: dbNode.y },
+      data: {
+        nodeType: 'start',
+        label: dbNode.ad || undefined,
+        pinned: dbNode.pinned || undefined,
+      },
+    };
+  }
+
+  if (dbNode.type === 'end') {
+    return {
+      id: dbNode.id,
+      type: 'end',
+      position: { x: dbNode.x, y: dbNode.y },
+      data: {
+        nodeType: 'end',
+        outcomeName: dbNode.outcomeName || undefined,
+        pinned: dbNode.pinned || undefined,
+      },
+    };
+  }
+
+  if (dbNode.type === 'gateway') {
+    return {
+      id: dbNode.id,
+      type: 'gateway',
+      position: { x: dbNode.x, y: dbNode.y },
+      data: {
+        nodeType: 'gateway',
+        kind: dbNode.gatewayKind === 'and' ? 'and' : 'xor',
+        mode: dbNode.gatewayMode === 'join' ? 'join' : 'split',
+        pinned: dbNode.pinned || undefined,
+      },
+    };
+  }
+
+  if (dbNode.type === 'land') {
+    return {
+      id: dbNode.id,
+      type: 'land',
+      position: { x: dbNode.x, y: dbNode.y },
+      data: {
+        nodeType: 'land',
+        label: dbNode.jumpLandLabel || 'A',
+        colorIndex: dbNode.colorIndex || 0,
+        pinned: dbNode.pinned || undefined,
+      },
+    };
+  }
+
+  return {
+    id: dbNode.id,
+    type: 'box',
+    position: { x: dbNode.x, y: dbNode.y },
+    data: {
+      nodeType: 'box',
+      label: dbNode.ad,
+      def: { ad: dbNode.ad, aciklama: dbNode.aciklama },
+      dbId: dbNode.templateId || dbNode.id,
+      pinned: dbNode.pinned || undefined,
+    },
+  };
+}
+
+export function convertReactFlowNodeToDB(n: Node<NodeData>): WorkflowDefFromDB {
+  if (n.data.nodeType === 'group') {
+    const groupData = n.data as GroupData;
+    return {
+      id: n.id,
+      ad: groupData.label,
+      aciklama: '',
+      x: n.position.x,
+      y: n.position.y,
+      type: 'group' as const,
+      memberIds: groupData.memberIds,
+      collapsed: groupData.collapsed,
+      pinned: groupData.pinned,
+    };
+  }
+  if (n.data.nodeType === 'jump') {
+    const jumpData = n.data as JumpData;
+    return {
+      id: n.id,
+      ad: '',
+      aciklama: '',
+      x: n.position.x,
+      y: n.position.y,
+      type: 'jump' as const,
+      jumpLandLabel: jumpData.label,
+      landId: jumpData.landId,
+      colorIndex: jumpData.colorIndex,
+      pinned: jumpData.pinned,
+    };
+  }
+  if (n.data.nodeType === 'land') {
+    const landData = n.data as LandData;
+    return {
+      id: n.id,
+      ad: '',
+      aciklama: '',
+      x: n.position.x,
+      y: n.position.y,
+      type: 'land' as const,
+      jumpLandLabel: landData.label,
+      colorIndex: landData.colorIndex,
+      pinned: landData.pinned,
+    };
+  }
+  if (n.data.nodeType === 'start') {
+    const startData = n.data as StartData;
+    return {
+      id: n.id,
+      ad: startData.label || '',
+      aciklama: '',
+      x: n.position.x,
+      y: n.position.y,
+      type: 'start' as const,
+      pinned: startData.pinned,
+    };
+  }
+  if (n.data.nodeType === 'end') {
+    const endData = n.data as EndData;
+    return {
+      id: n.id,
+      ad: '',
+      aciklama: '',
+      x: n.position.x,
+      y: n.position.y,
+      type: 'end' as const,
+      outcomeName: endData.outcomeName,
+      pinned: endData.pinned,
+    };
+  }
+  if (n.data.nodeType === 'gateway') {
+    const gatewayData = n.data as GatewayData;
+    return {
+      id: n.id,
+      ad: '',
+      aciklama: '',
+      x: n.position.x,
+      y: n.position.y,
+      type: 'gateway' as const,
+      gatewayKind: gatewayData.kind,
+      gatewayMode: gatewayData.mode,
+      pinned: gatewayData.pinned,
+    };
+  }
+  const boxData = n.data as BoxData;
+  return {
+    id: n.id,
+    ad: boxData.def?.ad || boxData.label || '',
+    aciklama: boxData.def?.aciklama || '',
+    x: n.position.x,
+    y: n.position.y,
+    type: 'box' as const,
+    templateId: boxData.dbId && boxData.dbId !== n.id ? boxData.dbId : undefined,
+    pinned: boxData.pinned,
+  };
+}
+
+export function convertReactFlowEdgeToDB(e: Edge<TransitionData>): EdgeFromDB {
+  return {
+    id: e.id || crypto?.randomUUID?.() || `edge-${Date.now()}`,
+    source: e.source,
+    target: e.target,
+    label: typeof e.label === 'string' && e.label ? e.label : undefined,
+    outcome: e.data?.outcome || undefined,
+    guard: e.data?.guard || undefined,
+  };
+}
+
+function serializeForSave(workflow: { nodes: Node<NodeData>[]; edges: Edge<TransitionData>[] }): string {
+  const byId = (a: { id: string }, b: { id: string }) => a.id.localeCompare(b.id);
+  return JSON.stringify({
+    nodes: workflow.nodes.map(convertReactFlowNodeToDB).sort(byId),
+    edges: workflow.edges.map(convertReactFlowEdgeToDB).sort(byId),
+  });
+}
+
+/**
+ * True when both states would save the same payload. Unlike diffWorkflows
+ * this also sees templates, pins and positions; order does not matter.
+ */
+export function isSameSavedWorkflow(
+  a: { nodes: Node<NodeData>[]; edges: Edge<TransitionData>[] },
+  b: { nodes: Node<NodeData>[]; edges: Edge<TransitionData>[] }
+): boolean {
+  return serializeForSave(a) === serializeForSave(b);
+}
+
+
+/**
+ * Builds the JSON export format (see workflowFormat.ts): all nodes in one
+ * array (templates included, at x=-1, y=-1) and edges with their `ad` names.
+ */
+export function buildWorkflowExport(nodes: Node<NodeData>[], edges: Edge<TransitionData>[]): WorkflowExportFile {
+  const nodeIdToAd = new Map<string, string>();
+  nodes.forEach((n) => {
+    if (n.type === 'box' && n.data.nodeType === 'box') {
+      const ad = n.data.def?.ad || n.data.label || n.id;
+      nodeIdToAd.set(n.id, ad);
+    }
+  });
+
+  const boxNodes = nodes
+    .filter((n) => n.type === 'box' && n.data.nodeType === 'box')
+    .map((n): ExportedBoxNode => {
+      const boxData = n.data as BoxData;
+      return {
+        id: n.id,
+        type: 'box',
+        x: n.position?.x ?? 0,
+        y: n.position?.y ?? 0,
+        ad: boxData.def?.ad || boxData.label || '',
+        aciklama: boxData.def?.aciklama || '',
+        templateId: boxData.dbId && boxData.dbId !== n.id ? boxData.dbId : undefined,
+        pinned: boxData.pinned || undefined,
+      };
+    });
+
+  const jumpNodes = nodes
+    .filter((n) => n.type === 'jump' && n.data.nodeType === 'jump')
+    .map((n): ExportedJumpNode => {
+      const jumpData = n.data as JumpData;
+      return {
+        id: n.id,
+        type: 'jump',
+        x: n.position?.x ?? 0,
+        y: n.position?.y ?? 0,
+        land: jumpData.landId || null,  // Reference to connected land node
+        colorIndex: jumpData.colorIndex,
+        pinned: jumpData.pinned || undefined,
+      };
+    });
+
+  // Build a map of land node ID -> connected target node ID (from edges)
+  const landNextNodeMap = new Map<string, string>();
+  edges.forEach((e) => {
+    const sourceNode = nodes.find((n) => n.id === e.source);
+    if (sourceNode?.type === 'land') {
+      landNextNodeMap.set(e.source, e.target);
+    }
+  });
+
+  const landNodes = nodes
+    .filter((n) => n.type === 'land' && n.data.nodeType === 'land')
+    .map((n): ExportedLandNode => {
+      const landData = n.data as LandData;
+      return {
+        id: n.id,
+        type: 'land',
+        x: n.position?.x ?? 0,
+        y: n.position?.y ?? 0,
+        nextNode: landNextNodeMap.get(n.id) || null,  // Node connected to this land
+        colorIndex: landData.colorIndex,
+        pinned: landData.pinned || undefined,
+      };
+    });
+
+  const startNodes = nodes
+    .filter((n) => n.type === 'start' && n.data.nodeType === 'start')
+    .map((n): ExportedStartNode => {
+      const startData = n.data as StartData;
+      return {
+        id: n.id,
+        type: 'start',
+        x: n.position?.x ?? 0,
+        y: n.position?.y ?? 0,
+        label: startData.label || undefined,
+        pinned: startData.pinned || undefined,
+      };
+    });
+
+  const endNodes = nodes
+    .filter((n) => n.type === 'end' && n.data.nodeType === 'end')
+    .map((n): ExportedEndNode => {
+      const endData = n.data as EndData;
+      return {
+        id: n.id,
+        type: 'end',
+        x: n.position?.x ?? 0,
+        y: n.position?.y ?? 0,
+        outcomeName: endData.outcomeName || undefined,
+        pinned: endData.pinned || undefined,
+      };
+    });
+
+  const gatewayNodes = nodes
+    .filter((n) => n.type === 'gateway' && n.data.nodeType === 'gateway')
+    .map((n): ExportedGatewayNode => {
+      const gatewayData = n.data as GatewayData;
+      return {
+        id: n.id,
+        type: 'gateway',
+        x: n.position?.x ?? 0,
+        y: n.position?.y ?? 0,
+        gatewayKind: gatewayData.kind,
+        gatewayMode: gatewayData.mode,
+        pinned: gatewayData.pinned || undefined,
+      };
+    });
+
+  const groupNodes = nodes
+    .filter((n) => n.type === 'group' && n.data.nodeType === 'group')
+    .map((n): ExportedGroupNode => {
+      const groupData = n.data as GroupData;
+      return {
+        id: n.id,
+        type: 'group',
+        x: n.position?.x ?? 0,
+        y: n.position?.y ?? 0,
+        label: groupData.label,
+        memberIds: groupData.memberIds,
+        collapsed: groupData.collapsed || undefined,
+        pinned: groupData.pinned || undefined,
+      };
+    });
+
+  // All nodes in single array (including templates with x=-1, y=-1)
+  return {
+    formatVersion: WORKFLOW_FORMAT_VERSION,
+    nodes: [...boxNodes, ...jumpNodes, ...landNodes, ...startNodes, ...endNodes, ...gatewayNodes, ...groupNodes],
+    edges: edges.map((e) => ({
+      // Always use UUID4 for edge IDs (replace any reactflow-generated IDs)
+      id: crypto?.randomUUID?.() ?? `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      source: e.source,
+      target: e.target,
+      islem_tur: nodeIdToAd.get(e.source) || e.source,
+      sonraki_islem_tur: nodeIdToAd.get(e.target) || e.target,
+      label: typeof e.label === 'string' && e.label ? e.label : undefined,
+      outcome: e.data?.outcome || undefined,
+      guard: e.data?.guard || undefined,
+    })),
+  };
+}
+
+export type ParsedWorkflowFile = {
+  nodes: Node<NodeData>[];
+  edges: Edge<TransitionData>[];
+  hasMissingPosition: boolean;  // Some nodes got a fallback grid position
+};
+
+export type ParseWorkflowFileResult =
+  | { ok: true; file: ParsedWorkflowFile }
+  | { ok: false; issues: FormatIssue[] };
+
+function convertExportedNode(n: ExportedNode, position: XYPosition): Node<NodeData> {
+  switch (n.type) {
+    case 'jump':
+      return {
+        id: n.id,
+        type: 'jump',
+        position,
+        data: { nodeType: 'jump', landId: n.land || undefined, colorIndex: n.colorIndex ?? 0, pinned: n.pinned || undefined },
+      };
+    case 'land':
+      return {
+        id: n.id,
+        type: 'land',
+        position,
+        data: { nodeType: 'land', nextNodeId: n.nextNode || undefined, colorIndex: n.colorIndex ?? 0, pinned: n.pinned || undefined },
+      };
+    case 'start':
+      return {
+        id: n.id,
+        type: 'start',
+        position,
+        data: { nodeType: 'start', label: n.label || undefined, pinned: n.pinned || undefined },
+      };
+    case 'end':
+      return {
+        id: n.id,
+        type: 'end',
+        position,
+        data: { nodeType: 'end', outcomeName: n.outcomeName || undefined, pinned: n.pinned || undefined },
+      };
+    case 'gateway':
+      return {
+        id: n.id,
+        type: 'gateway',
+        position,
+        data: { nodeType: 'gateway', kind: n.gatewayKind, mode: n.gatewayMode, pinned: n.pinned || undefined },
+      };
+    case 'group':
+      return {
+        id: n.id,
+        type: 'group',
+        position,
+        data: {
+          nodeType: 'group',
+          label: n.label,
+          memberIds: n.memberIds,
+          collapsed: Boolean(n.collapsed),
+          pinned: n.pinned || undefined,
+        },
+      };
+    case 'box':
+      return {
+        id: n.id,
+        type: 'box',
+        position,
+        data: {
+          nodeType: 'box',
+          label: n.ad,
+          def: { ad: n.ad, aciklama: n.aciklama || '' },
+          dbId: n.templateId || n.id,
+          pinned: n.pinned || undefined,
+        },
+      };
+  }
+}
+
+/**
+ * Reads an exported workflow file of any format version. Older files are
+ * migrated first; data that does not fit the schema comes back as issues
+ * with the path of each bad value.
+ */
+export function parseWorkflowFile(content: unknown, options: WorkflowFormatOptions = {}): ParseWorkflowFileResult {
+  const result = readWorkflowExport(content, options);
+  if (!result.ok) return result;
+
+  let hasMissingPosition = false;
+  const nodes = result.file.nodes.map((n, index) => {
+    if (n.x === undefined || n.y === undefined) hasMissingPosition = true;
+    return convertExportedNode(n, {
+      x: n.x ?? 100 + (index % 5) * 250,
+      y: n.y ?? 100 + Math.floor(index / 5) * 100,
+    });
+  });
+
+  const edges = result.file.edges.map((e) => {
+    // Use provided UUID or generate new one (ensures UUID4 format)
+    const isValidUUID = e.id && /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i.test(e.id);
+    return convertDBEdgeToReactFlowEdge({
+      id: isValidUUID ? e.id! : (crypto?.randomUUID?.() ?? `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`),
+      source: e.source,
+      target: e.target,
+      label: e.label,
+      outcome: e.outcome,
+      guard: e.guard,
+    });
+  });
+
+  return { ok: true, file: { nodes, edges, hasMissingPosition } };
+}
+
+/** parseWorkflowFile for file text; a JSON syntax error comes back as an issue too. */
+export function parseWorkflowFileText(text: string, options: WorkflowFormatOptions = {}): ParseWorkflowFileResult {
+  let content: unknown;
+  try {
+    content = JSON.parse(text);
+  } catch (err) {
+    return { ok: false, issues: [{ path: '', message: `Geçerli bir JSON değil: ${(err as Error).message}` }] };
+  }
+  return parseWorkflowFile(content, options);
+}
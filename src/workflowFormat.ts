@@ -0,0 +1,438 @@
+import type { GatewayKind, GatewayMode } from './workflow';
+
+// The JSON export format. Files carry a `formatVersion`; older exports are
+// upgraded through MIGRATIONS and then checked against the schema below, so
+// the importer only ever sees the current shape.
+export const WORKFLOW_FORMAT_VERSION = 3;
+
+type ExportedNodeBase = {
+  id: string;
+  x?: number;  // Missing coordinates: the importer lays the node out
+  y?: number;
+  pinned?: boolean;
+};
+
+export type ExportedBoxNode = ExportedNodeBase & {
+  type: 'box';
+  ad: string;
+  aciklama?: string;
+  templateId?: string;
+};
+
+export type ExportedJumpNode = ExportedNodeBase & {
+  type: 'jump';
+  land?: string | null;  // Linked land node
+  colorIndex?: number;
+};
+
+export type ExportedLandNode = ExportedNodeBase & {
+  type: 'land';
+  nextNode?: string | null;  // Node the land continues to
+  colorIndex?: number;
+};
+
+export type ExportedStartNode = ExportedNodeBase & {
+  type: 'start';
+  label?: string;
+};
+
+export type ExportedEndNode = ExportedNodeBase & {
+  type: 'end';
+  outcomeName?: string;
+};
+
+export type ExportedGatewayNode = ExportedNodeBase & {
+  type: 'gateway';
+  gatewayKind: GatewayKind;
+  gatewayMode: GatewayMode;
+};
+
+export type ExportedGroupNode = ExportedNodeBase & {
+  type: 'group';
+  label: string;
+  memberIds: string[];
+  collapsed?: boolean;
+};
+
+export type ExportedNode =
+  | ExportedBoxNode
+  | ExportedJumpNode
+  | ExportedLandNode
+  | ExportedStartNode
+  | ExportedEndNode
+  | ExportedGatewayNode
+  | ExportedGroupNode;
+
+export type ExportedEdge = {
+  id?: string;
+  source: string;
+  target: string;
+  islem_tur?: string;          // Source box name, for readers of the file
+  sonraki_islem_tur?: string;  // Target box name
+  label?: string;
+  outcome?: string;
+  guard?: string;
+};
+
+export type WorkflowExportFile = {
+  formatVersion: typeof WORKFLOW_FORMAT_VERSION;
+  nodes: ExportedNode[];
+  edges: ExportedEdge[];
+};
+
+// One problem in a file; `path` points at the value, e.g. `nodes[3].x`
+export type FormatIssue = {
+  path: string;
+  message: string;
+};
+
+export type WorkflowFormatResult =
+  | { ok: true; file: WorkflowExportFile }
+  | { ok: false; issues: FormatIssue[] };
+
+export type WorkflowFormatOptions = {
+  // A copied selection may hold a jump without its land or a land without its
+  // next node; those links are left for the reader to drop
+  allowDanglingLinks?: boolean;
+};
+
+type JsonObject = Record<string, unknown>;
+
+type FieldSpec = {
+  type: 'string' | 'number' | 'boolean' | 'string[]';
+  optional?: boolean;
+  nullable?: boolean;
+  values?: readonly string[];  // Allowed strings
+};
+
+type NodeType = ExportedNode['type'];
+type NodeFields<T extends NodeType> = Record<Exclude<keyof Extract<ExportedNode, { type: T }>, 'type'>, FieldSpec>;
+
+const NODE_TYPES: readonly NodeType[] = ['box', 'jump', 'land', 'start', 'end', 'gateway', 'group'];
+
+const BASE_FIELDS: Record<keyof ExportedNodeBase, FieldSpec> = {
+  id: { type: 'string' },
+  x: { type: 'number', optional: true },
+  y: { type: 'number', optional: true },
+  pinned: { type: 'boolean', optional: true },
+};
+
+const NODE_FIELDS: { [T in NodeType]: NodeFields<T> } = {
+  box: {
+    ...BASE_FIELDS,
+    ad: { type: 'string' },
+    aciklama: { type: 'string', optional: true },
+    templateId: { type: 'string', optional: true },
+  },
+  jump: {
+    ...BASE_FIELDS,
+    land: { type: 'string', optional: true, nullable: true },
+    colorIndex: { type: 'number', optional: true },
+  },
+  land: {
+    ...BASE_FIELDS,
+    nextNode: { type: 'string', optional: true, nullable: true },
+    colorIndex: { type: 'number', optional: true },
+  },
+  start: { ...BASE_FIELDS, label: { type: 'string', optional: true } },
+  end: { ...BASE_FIELDS, outcomeName: { type: 'string', optional: true } },
+  gateway: {
+    ...BASE_FIELDS,
+    gatewayKind: { type: 'string', values: ['xor', 'and'] },
+    gatewayMode: { type: 'string', values: ['split', 'join'] },
+  },
+  group: {
+    ...BASE_FIELDS,
+    label: { type: 'string' },
+    memberIds: { type: 'string[]' },
+    collapsed: { type: 'boolean', optional: true },
+  },
+};
+
+const EDGE_FIELDS: Record<keyof ExportedEdge, FieldSpec> = {
+  id: { type: 'string', optional: true },
+  source: { type: 'string' },
+  target: { type: 'string' },
+  islem_tur: { type: 'string', optional: true },
+  sonraki_islem_tur: { type: 'string', optional: true },
+  label: { type: 'string', optional: true },
+  outcome: { type: 'string', optional: true },
+  guard: { type: 'string', optional: true },
+};
+
+const TYPE_NAMES: Record<FieldSpec['type'], string> = {
+  string: 'metin',
+  number: 'sayı',
+  boolean: 'true/false',
+  'string[]': 'metin dizisi',
+};
+
+function isRecord(value: unknown): value is JsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function describeValue(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'dizi';
+  if (typeof value === 'object') return 'nesne';
+  const text = JSON.stringify(value);
+  return text.length > 40 ? `${text.slice(0, 40)}…` : text;
+}
+
+function matchesType(value: unknown, type: FieldSpec['type']): boolean {
+  if (type === 'number') return typeof value === 'number' && Number.isFinite(value);
+  if (type === 'string[]') return Array.isArray(value) && value.every((item) => typeof item === 'string');
+  return typeof value === type;
+}
+
+function checkFields(value: JsonObject, fields: Record<string, FieldSpec>, path: string, issues: FormatIssue[]) {
+  Object.entries(fields).forEach(([key, spec]) => {
+    const fieldPath = `${path}.${key}`;
+    const fieldValue = value[key];
+    if (fieldValue === undefined) {
+      if (!spec.optional) issues.push({ path: fieldPath, message: 'zorunlu alan eksik' });
+      return;
+    }
+    if (fieldValue === null && spec.nullable) return;
+    if (!matchesType(fieldValue, spec.type)) {
+      const expected = `${TYPE_NAMES[spec.type]}${spec.nullable ? ' ya da null' : ''}`;
+      issues.push({ path: fieldPath, message: `${expected} olmalı, ${describeValue(fieldValue)} bulundu` });
+      return;
+    }
+    if (spec.values && !spec.values.includes(fieldValue as string)) {
+      issues.push({
+        path: fieldPath,
+        message: `şunlardan biri olmalı: ${spec.values.join(', ')}; ${describeValue(fieldValue)} bulundu`,
+      });
+    }
+  });
+}
+
+/**
+ * Checks a file in the current format: field types per node type, unique
+ * node ids, and that every id reference (edge ends, jump → land, land → next
+ * node, group members) points at a node in the file.
+ */
+export function validateWorkflowExport(data: unknown, options: WorkflowFormatOptions = {}): FormatIssue[] {
+  const issues: FormatIssue[] = [];
+  if (!isRecord(data)) return [{ path: '', message: `JSON nesnesi olmalı, ${describeValue(data)} bulundu` }];
+
+  if (data.formatVersion !== WORKFLOW_FORMAT_VERSION) {
+    issues.push({ path: 'formatVersion', message: `${WORKFLOW_FORMAT_VERSION} olmalı, ${describeValue(data.formatVersion)} bulundu` });
+  }
+  if (!Array.isArray(data.nodes)) {
+    issues.push({ path: 'nodes', message: `node dizisi olmalı, ${describeValue(data.nodes)} bulundu` });
+  }
+  if (!Array.isArray(data.edges)) {
+    issues.push({ path: 'edges', message: `bağlantı dizisi olmalı, ${describeValue(data.edges)} bulundu` });
+  }
+  const nodes: unknown[] = Array.isArray(data.nodes) ? data.nodes : [];
+  const edges: unknown[] = Array.isArray(data.edges) ? data.edges : [];
+
+  const indexById = new Map<string, number>();
+  const typeById = new Map<string, unknown>();
+  nodes.forEach((node, index) => {
+    const path = `nodes[${index}]`;
+    if (!isRecord(node)) {
+      issues.push({ path, message: `nesne olmalı, ${describeValue(node)} bulundu` });
+      return;
+    }
+    if (!NODE_TYPES.includes(node.type as NodeType)) {
+      issues.push({
+        path: `${path}.type`,
+        message: `şunlardan biri olmalı: ${NODE_TYPES.join(', ')}; ${describeValue(node.type)} bulundu`,
+      });
+      return;
+    }
+    checkFields(node, NODE_FIELDS[node.type as NodeType], path, issues);
+
+    if (typeof node.id !== 'string') return;
+    const firstIndex = indexById.get(node.id);
+    if (firstIndex !== undefined) {
+      issues.push({ path: `${path}.id`, message: `"${node.id}" id'si nodes[${firstIndex}] ile aynı` });
+      return;
+    }
+    indexById.set(node.id, index);
+    typeById.set(node.id, node.type);
+  });
+
+  const checkReference = (id: unknown, path: string, type?: NodeType, mayDangle = false) => {
+    if (typeof id !== 'string') return;  // Type errors are already reported
+    if (!typeById.has(id)) {
+      if (mayDangle) return;
+      issues.push({ path, message: `"${id}" id'li node yok` });
+    } else if (type && typeById.get(id) !== type) {
+      issues.push({ path, message: `"${id}" id'li node bir ${type} node'u değil` });
+    }
+  };
+
+  nodes.forEach((node, index) => {
+    if (!isRecord(node)) return;
+    const path = `nodes[${index}]`;
+    if (node.type === 'jump') checkReference(node.land, `${path}.land`, 'land', options.allowDanglingLinks);
+    if (node.type === 'land') checkReference(node.nextNode, `${path}.nextNode`, undefined, options.allowDanglingLinks);
+    if (node.type === 'group' && Array.isArray(node.memberIds)) {
+      node.memberIds.forEach((memberId, i) => checkReference(memberId, `${path}.memberIds[${i}]`));
+    }
+  });
+
+  edges.forEach((edge, index) => {
+    const path = `edges[${index}]`;
+    if (!isRecord(edge)) {
+      issues.push({ path, message: `nesne olmalı, ${describeValue(edge)} bulundu` });
+      return;
+    }
+    checkFields(edge, EDGE_FIELDS, path, issues);
+    checkReference(edge.source, `${path}.source`);
+    checkReference(edge.target, `${path}.target`);
+  });
+
+  return issues;
+}
+
+function newId(): string {
+  return crypto?.randomUUID?.() ?? `${Date.now()}-${Math.random().toString(36).slice(2, 11)}`;
+}
+
+function flattenLegacyNode(node: unknown): unknown {
+  if (!isRecord(node)) return node;
+  const { position, data, ...rest } = node;
+  const flat: JsonObject = { ...rest };
+
+  if (isRecord(position)) {
+    flat.x ??= position.x;
+    flat.y ??= position.y;
+  }
+  flat.id ||= newId();
+  // Anything that is not one of the special node types was read as a box
+  if (!NODE_TYPES.includes(flat.type as NodeType)) flat.type = 'box';
+
+  if (flat.type === 'box') {
+    const legacy = isRecord(data) ? data : {};
+    const def = isRecord(legacy.def) ? legacy.def : {};
+    flat.ad ||= legacy.ad || def.ad || legacy.label || 'Imported Node';
+    flat.aciklama ||= legacy.aciklama || def.aciklama || '';
+  }
+  if (flat.type === 'group') {
+    flat.label ||= flat.ad || 'Grup';
+    flat.memberIds ??= [];
+  }
+  return flat;
+}
+
+function legacyTemplateToNode(template: unknown, index: number): unknown {
+  if (!isRecord(template)) return template;
+  return {
+    id: template.id || `template-explicit-${index}`,
+    type: 'box',
+    x: -1,  // Template marker
+    y: -1,
+    ad: template.ad || '',
+    aciklama: template.aciklama || '',
+  };
+}
+
+/**
+ * Version 1: early and hand-made files. Coordinates could sit in `position`,
+ * box names in `data` (`data.def.ad`, `data.label`), templates in a separate
+ * `templates` array; jumps were paired to lands by a shared `label`, and edges
+ * could name their ends by işlem türü (`islem_tur`, `sonraki_islem_tur`).
+ * Already-flat nodes pass through unchanged, so version 2 files without a
+ * `formatVersion` can take this step too.
+ */
+function migrateFromV1(data: JsonObject): JsonObject {
+  if (!Array.isArray(data.nodes)) return data;
+  const templates = Array.isArray(data.templates) ? data.templates.map(legacyTemplateToNode) : [];
+  const nodes = [...data.nodes.map(flattenLegacyNode), ...templates];
+  const records = nodes.filter(isRecord);
+
+  // Each unlinked jump goes to the first land with the same label
+  records
+    .filter((n) => n.type === 'jump' && !n.land && typeof n.label === 'string')
+    .forEach((jump) => {
+      const land = records.find((n) => n.type === 'land' && n.label === jump.label);
+      if (land) jump.land = land.id;
+    });
+  records.forEach((n) => {
+    if (n.type === 'jump' || n.type === 'land') delete n.label;
+  });
+
+  const boxIdByAd = new Map<unknown, unknown>();
+  records
+    .filter((n) => n.type === 'box' && !(n.x === -1 && n.y === -1))
+    .forEach((n) => {
+      if (!boxIdByAd.has(n.ad)) boxIdByAd.set(n.ad, n.id);
+    });
+  const edges = Array.isArray(data.edges)
+    ? data.edges.map((e) =>
+        isRecord(e)
+          ? { ...e, source: e.source || boxIdByAd.get(e.islem_tur), target: e.target || boxIdByAd.get(e.sonraki_islem_tur) }
+          : e
+      )
+    : data.edges ?? [];
+
+  const migrated: JsonObject = { ...data, nodes, edges };
+  delete migrated.templates;
+  return migrated;
+}
+
+/**
+ * Version 2: the flat export before `formatVersion`. Jumps already carry
+ * `land`; the same links were repeated in a top-level `jumpLinks` array, which
+ * is folded into the jumps that lack one.
+ */
+function migrateFromV2(data: JsonObject): JsonObject {
+  const nodes = Array.isArray(data.nodes) ? data.nodes.map((n) => (isRecord(n) ? { ...n } : n)) : data.nodes;
+  const migrated: JsonObject = { ...data, nodes };
+  delete migrated.jumpLinks;
+
+  if (Array.isArray(nodes) && Array.isArray(data.jumpLinks)) {
+    data.jumpLinks.filter(isRecord).forEach((link) => {
+      const jump = nodes.find((n) => isRecord(n) && n.type === 'jump' && n.id === link.jumpNodeId);
+      if (isRecord(jump) && !jump.land) jump.land = link.landNodeId;
+    });
+  }
+  return migrated;
+}
+
+// Upgrade step from each older version to the next one
+const MIGRATIONS: Record<number, (data: JsonObject) => JsonObject> = {
+  1: migrateFromV1,
+  2: migrateFromV2,
+};
+
+/**
+ * Reads a parsed export file of any version: upgrades it to the current
+ * format, then validates it. Files without `formatVersion` are taken as
+ * version 1. Issue paths refer to the upgraded data; node and edge indexes are
+ * kept, templates from a version 1 `templates` array follow the nodes.
+ */
+export function readWorkflowExport(content: unknown, options: WorkflowFormatOptions = {}): WorkflowFormatResult {
+  if (!isRecord(content)) {
+    return { ok: false, issues: [{ path: '', message: `JSON nesnesi olmalı, ${describeValue(content)} bulundu` }] };
+  }
+
+  let version = content.formatVersion ?? 1;
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+    return {
+      ok: false,
+      issues: [{ path: 'formatVersion', message: `pozitif tam sayı olmalı, ${describeValue(version)} bulundu` }],
+    };
+  }
+  if (version > WORKFLOW_FORMAT_VERSION) {
+    return {
+      ok: false,
+      issues: [{
+        path: 'formatVersion',
+        message: `dosya daha yeni bir sürümle oluşturulmuş (sürüm ${version}); en fazla ${WORKFLOW_FORMAT_VERSION} okunabilir`,
+      }],
+    };
+  }
+
+  let data = content;
+  for (; version < WORKFLOW_FORMAT_VERSION; version++) data = MIGRATIONS[version](data);
+  data = { ...data, formatVersion: WORKFLOW_FORMAT_VERSION };
+
+  const issues = validateWorkflowExport(data, options);
+  return issues.length ? { ok: false, issues } : { ok: true, file: data as WorkflowExportFile };
+}
@@ -0,0 +1,21 @@
+// The page URL carries the session token (`?t=`) and the open workflow
+// (`?workflow=<id>`), so a link opens straight into one workflow.
+
+const TOKEN_PARAM = 't';
+const WORKFLOW_PARAM = 'workflow';
+
+export function getTokenFromURL(): string | null {
+  return new URLSearchParams(window.location.search).get(TOKEN_PARAM);
+}
+
+export function getWorkflowIdFromURL(): string | null {
+  return new URLSearchParams(window.location.search).get(WORKFLOW_PARAM) || null;
+}
+
+/** The current page URL pointing at `workflowId`, or at the workflow list for null. */
+export function getWorkflowUrl(workflowId: string | null): string {
+  const url = new URL(window.location.href);
+  if (workflowId) url.searchParams.set(WORKFLOW_PARAM, workflowId);
+  else url.searchParams.delete(WORKFLOW_PARAM);
+  return url.toString();
+}
@@ -0,0 +1,25 @@
+// Editor tabs: the workspace keeps one editor per open workflow; an editor
+// reports its name and dirty flag up and can hand a dragged selection to
+// another tab.
+
+// Tab headers carry this attribute, so a node drag can tell which tab it ends on
+export const WORKFLOW_TAB_ATTRIBUTE = 'data-workflow-tab';
+
+export type EditorStatus = {
+  name: string | null;  // Null until the workflow is loaded
+  isDirty: boolean;     // Edited since the last load or save
+};
+
+// Nodes dragged from one tab onto another tab's header
+export type NodeTransfer = {
+  sourceId: string;
+  targetId: string;
+  payload: string;                // Clipboard payload of the selection
+  movedNodeIds: string[] | null;  // Removed from the source once the target has pasted; null for a copy
+};
+
+/** Workflow id of the tab header under the viewport point, if any. */
+export function findWorkflowTabAt(x: number, y: number): string | null {
+  const tab = document.elementFromPoint(x, y)?.closest(`[${WORKFLOW_TAB_ATTRIBUTE}]`);
+  return tab?.getAttribute(WORKFLOW_TAB_ATTRIBUTE) ?? null;
+}